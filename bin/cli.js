@@ -8,6 +8,7 @@
  *   uninstall - Remove hooks from all agents
  *   doctor   - Check dependencies and installation status
  *   server   - Start the bridge server
+ *   token    - Manage API tokens
  */
 
 import { fileURLToPath } from 'url'
@@ -32,6 +33,17 @@ const options = {
   host: getFlag(flags, '--host'),
   dataDir: getFlag(flags, '--data-dir'),
   agent: getFlag(flags, '--agent', '-a'),
+  detectWaiting: flags.includes('--detect-waiting'),
+  approvals: flags.includes('--approvals'),
+  allowUnsignedEvents: flags.includes('--allow-unsigned-events'),
+  socket: flags.includes('--socket'),
+  noTcp: flags.includes('--no-tcp'),
+  tlsCert: getFlag(flags, '--tls-cert'),
+  tlsKey: getFlag(flags, '--tls-key'),
+  dashboard: flags.includes('--dashboard'),
+  captureOutput: flags.includes('--capture-output'),
+  noControlMode: flags.includes('--no-control-mode'),
+  scopes: getFlag(flags, '--scopes'),
 }
 
 function getFlag(flags, long, short) {
@@ -97,6 +109,7 @@ ${c.bold}Commands:${c.reset}
   ${c.cyan}uninstall${c.reset}  Remove hooks from all agents
   ${c.cyan}doctor${c.reset}     Check dependencies and installation status
   ${c.cyan}server${c.reset}     Start the bridge server
+  ${c.cyan}token${c.reset}      Manage API tokens: token create <name> | token list | token revoke <id|name>
 
 ${c.bold}Options:${c.reset}
   -h, --help       Show this help message
@@ -105,6 +118,17 @@ ${c.bold}Options:${c.reset}
   --host <host>    Server host (default: 127.0.0.1)
   --data-dir <dir> Data directory (default: ~/.coding-agent-bridge)
   --agent <name>   Target specific agent (claude, codex)
+  --detect-waiting Also detect permission dialogs from tmux panes (server)
+  --approvals      Require client approval for tool calls in bridge-created sessions (server)
+  --allow-unsigned-events  Accept unsigned hook callbacks from older hook scripts (server)
+  --socket         Also listen on a Unix socket in the data directory (server)
+  --no-tcp         Don't listen on TCP; use with --socket (server)
+  --tls-cert <file>  TLS certificate (PEM) for HTTPS/WSS; needs --tls-key (server)
+  --tls-key <file>   TLS private key (PEM) (server)
+  --dashboard      Serve the web dashboard at / (server)
+  --capture-output Log session terminal output for streaming and attaching (server)
+  --no-control-mode  Poll tmux instead of keeping a control-mode connection (server)
+  --scopes <list>  Token scopes: read, control, hook-ingest (token create, default: read,control)
 
 ${c.bold}Examples:${c.reset}
   ${c.dim}# Install hooks for all agents${c.reset}
@@ -118,6 +142,9 @@ ${c.bold}Examples:${c.reset}
 
   ${c.dim}# Start server on custom port${c.reset}
   coding-agent-bridge server --port 5000
+
+  ${c.dim}# Require tokens, creating a read-only one for a dashboard${c.reset}
+  coding-agent-bridge token create dashboard --scopes read
 `)
 }
 
@@ -131,13 +158,7 @@ async function main() {
   try {
     // Dynamically import to allow for ES modules
     const { HookInstaller } = await import(join(packageDir, 'dist', 'HookInstaller.js'))
-    const { BridgeServer } = await import(join(packageDir, 'dist', 'Server.js'))
-    const { SessionManager } = await import(join(packageDir, 'dist', 'SessionManager.js'))
-    const { FileWatcher } = await import(join(packageDir, 'dist', 'FileWatcher.js'))
-    const { EventProcessor } = await import(join(packageDir, 'dist', 'EventProcessor.js'))
-    const { ClaudeAdapter } = await import(join(packageDir, 'dist', 'adapters', 'ClaudeAdapter.js'))
-    const { CodexAdapter } = await import(join(packageDir, 'dist', 'adapters', 'CodexAdapter.js'))
-    const { OpenClawAdapter } = await import(join(packageDir, 'dist', 'adapters', 'OpenClawAdapter.js'))
+    const { createBridge } = await import(join(packageDir, 'dist', 'Bridge.js'))
 
     const dataDir = options.dataDir || join(homedir(), '.coding-agent-bridge')
     const installer = new HookInstaller({ dataDir, debug: options.debug })
@@ -156,18 +177,15 @@ async function main() {
         break
 
       case 'server':
-        await runServer({
-          BridgeServer,
-          SessionManager,
-          FileWatcher,
-          EventProcessor,
-          ClaudeAdapter,
-          CodexAdapter,
-          OpenClawAdapter,
-          installer,
-          dataDir,
-        })
+        await runServer({ createBridge, dataDir })
+        break
+
+      case 'token': {
+        const { TokenStore } = await import(join(packageDir, 'dist', 'TokenStore.js'))
+        const store = new TokenStore({ file: join(dataDir, 'tokens.json'), debug: options.debug })
+        await runToken(store, installer)
         break
+      }
 
       default:
         error(`Unknown command: ${command}`)
@@ -327,123 +345,144 @@ async function runDoctor(installer) {
   }
 }
 
+async function runToken(store, installer) {
+  const action = args[1]
+  const target = args[2]
+
+  switch (action) {
+    case 'create': {
+      if (!target || target.startsWith('-')) {
+        throw new Error('Usage: coding-agent-bridge token create <name> [--scopes read,control]')
+      }
+      const scopes = (options.scopes || 'read,control').split(',').map(s => s.trim()).filter(Boolean)
+      await store.load()
+      const wasEnabled = store.isEnabled()
+      const { token, info: created } = await store.create(target, scopes)
+      // The hook script needs its own token once tokens are required
+      await store.ensureHookToken(installer.getHookTokenPath())
+
+      success(`Created token ${c.bold}${created.name}${c.reset} (${created.id}) with scopes: ${created.scopes.join(', ')}`)
+      log('')
+      log(`  ${token}`)
+      log('')
+      warn('Store it now - it is not shown again.')
+      if (!wasEnabled) {
+        info('The API now requires a token (Authorization: Bearer <token>).')
+      }
+      break
+    }
+
+    case 'list': {
+      await store.load()
+      const tokens = store.list()
+      if (tokens.length === 0) {
+        info('No tokens - the API does not require authentication.')
+        return
+      }
+      header('API tokens')
+      for (const token of tokens) {
+        const created = new Date(token.createdAt).toISOString().slice(0, 10)
+        log(`  ${token.id}  ${c.bold}${token.name}${c.reset}  ${token.scopes.join(', ')}  ${c.dim}created ${created}${c.reset}`)
+      }
+      break
+    }
+
+    case 'revoke': {
+      if (!target) {
+        throw new Error('Usage: coding-agent-bridge token revoke <id|name>')
+      }
+      const revoked = await store.revoke(target)
+      if (revoked.length === 0) {
+        throw new Error(`No token matches: ${target}`)
+      }
+      for (const token of revoked) {
+        success(`Revoked ${token.name} (${token.id})`)
+      }
+      if (!store.isEnabled()) {
+        info('No tokens left - the API no longer requires authentication.')
+      }
+      break
+    }
+
+    default:
+      error(`Unknown token command: ${action ?? '(none)'}`)
+      log('Usage: coding-agent-bridge token <create|list|revoke>')
+      process.exit(1)
+  }
+}
+
 async function runServer(ctx) {
-  const {
-    BridgeServer,
-    SessionManager,
-    FileWatcher,
-    EventProcessor,
-    ClaudeAdapter,
-    CodexAdapter,
-    OpenClawAdapter,
-    installer,
-    dataDir,
-  } = ctx
+  const { createBridge, dataDir } = ctx
 
   const port = parseInt(options.port || '4003', 10)
   const host = options.host || '127.0.0.1'
 
-  header('Starting coding-agent-bridge server')
-  log(`${c.dim}Port: ${port}, Host: ${host}${c.reset}`)
-
-  // Create session manager
-  const manager = new SessionManager({
-    sessionsFile: join(dataDir, 'data', 'sessions.json'),
-    defaultAgent: 'claude',
-    trackExternalSessions: true,
-    debug: options.debug,
-  })
-  manager.registerAdapter(ClaudeAdapter)
-  manager.registerAdapter(CodexAdapter)
-  manager.registerAdapter(OpenClawAdapter)
-
-  // Create event processor
-  const processor = new EventProcessor({ debug: options.debug })
+  if (Boolean(options.tlsCert) !== Boolean(options.tlsKey)) {
+    error('--tls-cert and --tls-key must be given together')
+    process.exit(1)
+  }
+  if (options.noTcp && !options.socket) {
+    error('--no-tcp needs --socket')
+    process.exit(1)
+  }
+  const tls = options.tlsCert ? { cert: options.tlsCert, key: options.tlsKey } : null
 
-  // Create file watcher
-  const eventsFile = installer.getEventsFilePath()
-  const watcher = new FileWatcher(eventsFile, {
-    processExisting: false,
-    debug: options.debug,
-  })
+  header('Starting coding-agent-bridge server')
+  if (!options.noTcp) {
+    log(`${c.dim}Port: ${port}, Host: ${host}${c.reset}`)
+  }
 
-  // Create server
-  const server = new BridgeServer({
+  const bridge = createBridge({
+    dataDir,
     port,
     host,
+    agents: ['claude', 'codex', 'openclaw'],
+    detectWaitingFromPane: options.detectWaiting,
+    approvalMode: options.approvals,
+    allowUnsignedEvents: options.allowUnsignedEvents,
+    socket: options.socket,
+    tcp: !options.noTcp,
+    tls,
+    dashboard: options.dashboard,
+    captureOutput: options.captureOutput,
+    tmuxControlMode: !options.noControlMode,
     debug: options.debug,
   })
-  server.setSessionManager(manager)
-
-  // Set up event processor for POST /event endpoint
-  // This transforms raw hook events to the standard AgentEvent format
-  server.setEventProcessor((rawEvent) => {
-    // Process the raw event (same as FileWatcher path)
-    const processed = processor.processLine(JSON.stringify(rawEvent))
-    return processed ? processed.event : null
-  })
-
-  // Wire up events
-  watcher.on('line', (line) => {
-    const processed = processor.processLine(line)
-    if (processed) {
-      // Find or create session (links agentSessionId to internal sessions)
-      const session = manager.findOrCreateSession(
-        processed.agentSessionId,
-        processed.event.agent || 'claude',
-        processed.event.cwd,
-        processed.terminal
-      )
-      if (session) {
-        // Enrich event with bridge session ID for client correlation
-        processed.event.sessionId = session.id
-
-        if (processed.event.type === 'stop' || processed.event.type === 'session_end') {
-          manager.updateSessionStatus(session, 'idle')
-        } else if (processed.event.type === 'pre_tool_use' || processed.event.type === 'user_prompt_submit') {
-          manager.updateSessionStatus(session, 'working')
-          if (processed.event.type === 'pre_tool_use') {
-            manager.updateSessionTool(session, processed.event.tool)
-          }
-        } else if (processed.event.type === 'post_tool_use') {
-          manager.updateSessionTool(session, undefined)
-        }
-      }
 
-      // Broadcast to clients
-      server.broadcast(processed)
+  bridge.on('error', (err) => {
+    if (options.debug) {
+      console.error('[bridge]', err)
     }
   })
 
-  // Subscribe to session events for broadcasting
-  manager.on('session:created', (session) => {
-    server.broadcastSessionUpdate(session, 'created')
-  })
-  manager.on('session:updated', (session) => {
-    server.broadcastSessionUpdate(session, 'updated')
-  })
-  manager.on('session:deleted', (session) => {
-    server.broadcastSessionUpdate(session, 'deleted')
-  })
-  manager.on('session:status', (session) => {
-    server.broadcastSessionUpdate(session, 'status')
-  })
-
-  // Start everything
-  await manager.load()
-  await manager.start()
-  await watcher.start()
-  await server.start()
+  // Start everything, and shut down again (removing the tmux control session)
+  // if the server can't listen, e.g. because the port is taken
+  await bridge.start()
+  try {
+    await bridge.listen()
+  } catch (err) {
+    await bridge.stop()
+    throw err
+  }
 
-  success(`Server running at http://${host}:${port}`)
+  if (!options.noTcp) {
+    success(`Server running at ${tls ? 'https' : 'http'}://${host}:${port}`)
+  }
+  if (options.dashboard && !options.noTcp) {
+    info(`Dashboard: ${tls ? 'https' : 'http'}://${host}:${port}/`)
+  }
+  if (options.socket) {
+    success(`Listening on ${bridge.config.paths.socketFile}`)
+  }
+  if (options.approvals) {
+    info('Approval mode: tool calls in bridge-created sessions wait for POST /approvals/:id')
+  }
   info('Press Ctrl+C to stop')
 
   // Handle shutdown
   const shutdown = async () => {
     log('\nShutting down...')
-    await server.stop()
-    await watcher.stop()
-    await manager.stop()
+    await bridge.stop()
     process.exit(0)
   }
 
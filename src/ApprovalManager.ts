@@ -0,0 +1,184 @@
+/**
+ * ApprovalManager - Pending tool approvals for approval mode
+ *
+ * In approval mode the hook script asks the bridge before each tool call and
+ * blocks until it answers. Each request becomes a pending approval that a
+ * client allows or denies; if nobody answers in time the configured timeout
+ * decision is applied so the agent never hangs.
+ */
+
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+import type {
+  AgentType,
+  ApprovalDecision,
+  ApprovalResolution,
+  PendingApproval,
+} from './types.js'
+
+/**
+ * Environment variable that makes the hook script check each tool call with
+ * the bridge before it runs. Set in internal sessions started in
+ * `approvalMode`, or with `enforcePolicy` when a tool policy applies to them.
+ */
+export const APPROVAL_MODE_ENV = 'CODING_AGENT_BRIDGE_APPROVALS'
+
+/**
+ * Timeout (seconds) agents give the blocking PreToolUse hook. Approval
+ * timeouts should stay below this so the bridge answers before the agent
+ * gives up on the hook.
+ */
+export const APPROVAL_HOOK_TIMEOUT_S = 600
+
+/**
+ * Time (seconds) the hook script waits for the bridge's answer: a little under
+ * the hook timeout, so the script still gets to print a deny when it gives up.
+ */
+export const APPROVAL_REQUEST_TIMEOUT_S = APPROVAL_HOOK_TIMEOUT_S - 10
+
+/**
+ * Longest approval timeout (ms). Longer values are clamped so the timeout
+ * decision reaches the hook script before its request gives up.
+ */
+export const MAX_APPROVAL_TIMEOUT_MS = (APPROVAL_REQUEST_TIMEOUT_S - 5) * 1000
+
+export interface ApprovalManagerOptions {
+  /** Time (ms) to wait for a client decision, at most MAX_APPROVAL_TIMEOUT_MS. Default: 120000 */
+  timeoutMs?: number
+  /** Decision applied on timeout. Default: 'deny' */
+  timeoutDecision?: ApprovalDecision
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+export interface ApprovalManagerEvents {
+  'approval:requested': (approval: PendingApproval) => void
+  'approval:resolved': (resolution: ApprovalResolution) => void
+}
+
+/**
+ * Details of a tool call needing approval.
+ */
+export interface ApprovalRequest {
+  sessionId: string
+  agent: AgentType
+  tool: string
+  toolInput: Record<string, unknown>
+  toolUseId?: string
+  cwd: string
+}
+
+interface PendingEntry {
+  approval: PendingApproval
+  timer: NodeJS.Timeout
+  resolve: (resolution: ApprovalResolution) => void
+}
+
+export class ApprovalManager extends EventEmitter {
+  private pending: Map<string, PendingEntry> = new Map()
+  private options: Required<ApprovalManagerOptions>
+
+  constructor(options: ApprovalManagerOptions = {}) {
+    super()
+    this.options = {
+      timeoutMs: Math.min(options.timeoutMs ?? 120000, MAX_APPROVAL_TIMEOUT_MS),
+      timeoutDecision: options.timeoutDecision ?? 'deny',
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Raise a pending approval and wait for its decision.
+   * Always resolves - with the timeout decision if no client answers.
+   */
+  request(request: ApprovalRequest): Promise<ApprovalResolution> {
+    const now = Date.now()
+    const approval: PendingApproval = {
+      id: randomUUID(),
+      ...request,
+      requestedAt: now,
+      expiresAt: now + this.options.timeoutMs,
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.settle(approval.id, this.options.timeoutDecision, 'Approval timed out', 'timeout')
+      }, this.options.timeoutMs)
+
+      this.pending.set(approval.id, { approval, timer, resolve })
+      this.debug('Approval requested:', approval.id, approval.tool)
+      this.emit('approval:requested', approval)
+    })
+  }
+
+  /**
+   * Allow or deny a pending approval.
+   * @returns The resolution, or undefined if the approval isn't pending
+   */
+  resolve(id: string, decision: ApprovalDecision, reason?: string): ApprovalResolution | undefined {
+    return this.settle(id, decision, reason, 'client')
+  }
+
+  /**
+   * Get a pending approval by ID.
+   */
+  get(id: string): PendingApproval | undefined {
+    return this.pending.get(id)?.approval
+  }
+
+  /**
+   * List pending approvals, oldest first.
+   */
+  list(sessionId?: string): PendingApproval[] {
+    const approvals = Array.from(this.pending.values()).map((entry) => entry.approval)
+    return sessionId ? approvals.filter((a) => a.sessionId === sessionId) : approvals
+  }
+
+  /**
+   * Deny everything still pending (e.g. on shutdown) so hooks don't hang.
+   */
+  clear(reason = 'Bridge stopped'): void {
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id, 'deny', reason, 'timeout')
+    }
+  }
+
+  private settle(
+    id: string,
+    decision: ApprovalDecision,
+    reason: string | undefined,
+    resolvedBy: ApprovalResolution['resolvedBy']
+  ): ApprovalResolution | undefined {
+    const entry = this.pending.get(id)
+    if (!entry) return undefined
+
+    clearTimeout(entry.timer)
+    this.pending.delete(id)
+
+    const resolution: ApprovalResolution = {
+      ...entry.approval,
+      decision,
+      ...(reason ? { reason } : {}),
+      resolvedBy,
+      resolvedAt: Date.now(),
+    }
+
+    this.debug('Approval resolved:', id, decision, `(${resolvedBy})`)
+    entry.resolve(resolution)
+    this.emit('approval:resolved', resolution)
+    return resolution
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[ApprovalManager]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new ApprovalManager instance.
+ */
+export function createApprovalManager(options?: ApprovalManagerOptions): ApprovalManager {
+  return new ApprovalManager(options)
+}
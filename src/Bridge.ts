@@ -0,0 +1,733 @@
+/**
+ * Bridge - Composed bridge implementation
+ *
+ * Wires SessionManager, EventProcessor, FileWatcher and BridgeServer together
+ * behind the `Bridge` interface. This is the single wiring path shared by the
+ * library (`createBridge()`) and the CLI server.
+ */
+
+import { EventEmitter } from 'events'
+import { homedir } from 'os'
+import { join, resolve } from 'path'
+import { randomUUID } from 'crypto'
+import type {
+  AgentAdapter,
+  AgentEvent,
+  AgentType,
+  ApprovalDecision,
+  ApprovalResolution,
+  Bridge,
+  BridgeConfig,
+  BridgeEvents,
+  CreateSessionOptions,
+  EventPage,
+  EventQuery,
+  ImageInput,
+  PendingApproval,
+  PolicyConfig,
+  PolicyRule,
+  PolicyDecision,
+  OutputChunk,
+  TerminalSnapshot,
+  PolicyDecisionEvent,
+  PreToolUseEvent,
+  PromptResult,
+  QueuedPrompt,
+  ResolvedConfig,
+  RunPromptOptions,
+  SendResult,
+  Session,
+  SessionFilter,
+} from './types.js'
+import { SessionManager } from './SessionManager.js'
+import { EventProcessor } from './EventProcessor.js'
+import type { EventRejectReason, ProcessedEvent } from './EventProcessor.js'
+import { FileWatcher } from './FileWatcher.js'
+import { BridgeServer } from './Server.js'
+import { DEFAULT_PROMPT_TIMEOUT_MS } from './PromptTracker.js'
+import { ApprovalManager, APPROVAL_MODE_ENV, MAX_APPROVAL_TIMEOUT_MS } from './ApprovalManager.js'
+import { PolicyEngine } from './PolicyEngine.js'
+import { EventStore } from './EventStore.js'
+import { TokenStore } from './TokenStore.js'
+import { HookVerifier, ensureHookSecret } from './HookVerifier.js'
+import { Metrics } from './Metrics.js'
+import { WebhookManager } from './WebhookManager.js'
+import { ClaudeAdapter } from './adapters/ClaudeAdapter.js'
+import { CodexAdapter } from './adapters/CodexAdapter.js'
+import { CursorAdapter } from './adapters/CursorAdapter.js'
+import { OpenClawAdapter } from './adapters/OpenClawAdapter.js'
+
+/**
+ * Built-in adapters, enabled via `BridgeConfig.agents`.
+ */
+const BUILTIN_ADAPTERS: Record<string, AgentAdapter> = {
+  claude: ClaudeAdapter,
+  codex: CodexAdapter,
+  cursor: CursorAdapter,
+  openclaw: OpenClawAdapter,
+}
+
+/**
+ * Number of recent event IDs remembered to drop hook events delivered twice
+ * (events file and POST /event).
+ */
+const SEEN_EVENT_IDS_LIMIT = 10000
+
+/**
+ * Expand a leading `~` to the user's home directory.
+ */
+function expandHome(path: string): string {
+  if (path === '~') return homedir()
+  if (path.startsWith('~/')) return join(homedir(), path.slice(2))
+  return path
+}
+
+/**
+ * Apply defaults to a bridge configuration.
+ */
+export function resolveConfig(config: BridgeConfig = {}): ResolvedConfig {
+  const dataDir = resolve(expandHome(config.dataDir ?? join(homedir(), '.coding-agent-bridge')))
+
+  return {
+    dataDir,
+    port: config.port ?? 4003,
+    host: config.host ?? '127.0.0.1',
+    defaultAgent: config.defaultAgent ?? 'claude',
+    agents: config.agents ?? ['claude', 'codex'],
+    trackExternalSessions: config.trackExternalSessions ?? true,
+    workingTimeoutMs: config.workingTimeoutMs ?? 120000,
+    readyTimeoutMs: config.readyTimeoutMs ?? 30000,
+    cleanupOfflineAfterMs: config.cleanupOfflineAfterMs ?? 7 * 24 * 60 * 60 * 1000,
+    maxEvents: config.maxEvents ?? 1000,
+    detectWaitingFromPane: config.detectWaitingFromPane ?? false,
+    approvalMode: config.approvalMode ?? false,
+    approvalTimeoutMs: Math.min(config.approvalTimeoutMs ?? 120000, MAX_APPROVAL_TIMEOUT_MS),
+    approvalTimeoutDecision: config.approvalTimeoutDecision ?? 'deny',
+    enforcePolicy: config.enforcePolicy ?? true,
+    allowUnsignedEvents: config.allowUnsignedEvents ?? false,
+    socket: config.socket ?? false,
+    tcp: config.tcp ?? true,
+    tls: config.tls ?? null,
+    dashboard: config.dashboard ?? false,
+    captureOutput: config.captureOutput ?? false,
+    tmuxControlMode: config.tmuxControlMode ?? true,
+    terminalBackend: config.terminalBackend ?? null,
+    webhooks: config.webhooks ?? [],
+    debug: config.debug ?? false,
+    paths: {
+      eventsFile: join(dataDir, 'data', 'events.jsonl'),
+      sessionsFile: join(dataDir, 'data', 'sessions.json'),
+      hooksDir: join(dataDir, 'hooks'),
+      imagesDir: join(dataDir, 'data', 'images'),
+      policyFile: join(dataDir, 'policy.json'),
+      historyDir: join(dataDir, 'data', 'history'),
+      tokensFile: join(dataDir, 'tokens.json'),
+      hookTokenFile: join(dataDir, 'hook-token'),
+      hookSecretFile: join(dataDir, 'hook-secret'),
+      socketFile: join(dataDir, 'bridge.sock'),
+      webhooksFile: join(dataDir, 'webhooks.json'),
+      webhookLogFile: join(dataDir, 'data', 'webhook-deliveries.json'),
+      outputDir: join(dataDir, 'data', 'output'),
+    },
+  }
+}
+
+export class CodingAgentBridge extends EventEmitter implements Bridge {
+  readonly config: ResolvedConfig
+  private manager: SessionManager
+  private processor: EventProcessor
+  private approvals: ApprovalManager
+  private policy: PolicyEngine
+  private history: EventStore
+  private tokens: TokenStore
+  private metrics: Metrics
+  private webhooks: WebhookManager
+  private watcher: FileWatcher | null = null
+  private server: BridgeServer | null = null
+  private running = false
+  /** IDs of recently ingested events, oldest first */
+  private seenEventIds: Set<string> = new Set()
+
+  constructor(config: BridgeConfig = {}) {
+    super()
+    this.config = resolveConfig(config)
+
+    this.metrics = new Metrics()
+
+    this.manager = new SessionManager({
+      sessionsFile: this.config.paths.sessionsFile,
+      defaultAgent: this.config.defaultAgent,
+      workingTimeoutMs: this.config.workingTimeoutMs,
+      readyTimeoutMs: this.config.readyTimeoutMs,
+      offlineCleanupMs: this.config.cleanupOfflineAfterMs,
+      staleCleanupMs: this.config.cleanupOfflineAfterMs,
+      trackExternalSessions: this.config.trackExternalSessions,
+      imagesDir: this.config.paths.imagesDir,
+      captureOutput: this.config.captureOutput,
+      outputDir: this.config.paths.outputDir,
+      tmuxControlMode: this.config.tmuxControlMode,
+      terminalBackend: this.config.terminalBackend ?? undefined,
+      detectWaitingFromPane: this.config.detectWaitingFromPane,
+      sessionEnv: (session) => (this.sessionChecksToolCalls(session.policy) ? { [APPROVAL_MODE_ENV]: '1' } : undefined),
+      onTmuxCommand: (command, durationMs, error) => this.metrics.recordTmuxCommand(command, durationMs, error),
+      debug: this.config.debug,
+    })
+
+    this.processor = new EventProcessor({ debug: this.config.debug })
+
+    this.policy = new PolicyEngine({ debug: this.config.debug })
+
+    this.history = new EventStore({
+      dir: this.config.paths.historyDir,
+      maxEvents: this.config.maxEvents,
+      debug: this.config.debug,
+    })
+
+    this.tokens = new TokenStore({
+      file: this.config.paths.tokensFile,
+      debug: this.config.debug,
+    })
+
+    this.webhooks = new WebhookManager({
+      webhooks: this.config.webhooks,
+      logFile: this.config.paths.webhookLogFile,
+      debug: this.config.debug,
+    })
+
+    this.approvals = new ApprovalManager({
+      timeoutMs: this.config.approvalTimeoutMs,
+      timeoutDecision: this.config.approvalTimeoutDecision,
+      debug: this.config.debug,
+    })
+
+    for (const agent of this.config.agents) {
+      const adapter = BUILTIN_ADAPTERS[agent]
+      if (adapter) {
+        this.registerAgent(adapter)
+      }
+    }
+
+    // Forward session manager events to bridge listeners, WebSocket clients and webhooks
+    this.manager.on('session:created', (session: Session) => {
+      this.emit('session:created', session)
+      this.server?.broadcastSessionUpdate(session, 'created')
+      this.webhooks.notify('session:created', { session })
+    })
+    this.manager.on('session:updated', (session: Session, changes: Partial<Session>) => {
+      this.emit('session:updated', session, changes)
+      this.server?.broadcastSessionUpdate(session, 'updated')
+      this.webhooks.notify('session:updated', { session, changes })
+    })
+    this.manager.on('session:deleted', (session: Session) => {
+      this.history.deleteSession(session.id).catch((err: Error) => this.emitError(err))
+      this.emit('session:deleted', session)
+      this.server?.broadcastSessionUpdate(session, 'deleted')
+      this.webhooks.notify('session:deleted', { session })
+    })
+    this.manager.on('session:status', (session: Session, from, to) => {
+      this.emit('session:status', session, from, to)
+      this.server?.broadcastSessionUpdate(session, 'status')
+      this.webhooks.notify('session:status', { session, from, to })
+    })
+    this.manager.on('session:queue', (session: Session, queue: QueuedPrompt[]) => {
+      this.emit('session:queue', session, queue)
+      this.server?.broadcastSessionUpdate(session, 'queue')
+      this.webhooks.notify('session:queue', { session, queue })
+    })
+    this.manager.on('session:output', (session: Session, chunk: OutputChunk) => {
+      this.emit('session:output', session, chunk)
+      this.server?.broadcastOutput(chunk)
+    })
+    // Transcript-derived events (assistant messages)
+    this.manager.on('event', (event: AgentEvent) => {
+      this.emitEvent(event)
+    })
+    this.manager.on('error', (err: Error) => {
+      this.emitError(err)
+    })
+    this.processor.on('error', (err: Error) => {
+      this.debug('Event processing error:', err.message)
+    })
+    this.processor.on('rejected', (reason: EventRejectReason) => {
+      this.metrics.recordParseFailure(reason)
+    })
+    this.history.on('error', (err: Error) => {
+      this.emitError(err)
+    })
+    this.webhooks.on('error', (err: Error) => {
+      this.emitError(err)
+    })
+    this.approvals.on('approval:requested', (approval: PendingApproval) => {
+      this.emit('approval:requested', approval)
+      this.server?.broadcastApproval('requested', approval)
+    })
+    this.approvals.on('approval:resolved', (resolution: ApprovalResolution) => {
+      this.emit('approval:resolved', resolution)
+      this.server?.broadcastApproval('resolved', resolution)
+    })
+  }
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  async start(): Promise<void> {
+    if (this.running) return
+
+    await this.policy.load(this.config.paths.policyFile)
+    await this.history.load()
+    await this.webhooks.load(this.config.paths.webhooksFile)
+    await this.tokens.load()
+    if (this.tokens.isEnabled()) {
+      await this.tokens.ensureHookToken(this.config.paths.hookTokenFile)
+    }
+    await this.manager.start()
+
+    try {
+      this.watcher = new FileWatcher(this.config.paths.eventsFile, {
+        processExisting: false,
+        debug: this.config.debug,
+      })
+      this.watcher.on('line', (line: string) => {
+        this.handleLine(line)
+      })
+      this.watcher.on('error', (err: Error) => {
+        this.emitError(err)
+      })
+      await this.watcher.start()
+    } catch (err) {
+      // Don't leave health checks or the tmux control session behind
+      await this.watcher?.stop()
+      this.watcher = null
+      await this.manager.stop()
+      throw err
+    }
+
+    this.running = true
+  }
+
+  async stop(): Promise<void> {
+    // Release any hooks still blocked on a decision
+    this.approvals.clear()
+    await this.close()
+
+    if (this.watcher) {
+      await this.watcher.stop()
+      this.watcher = null
+    }
+
+    if (this.running) {
+      await this.manager.stop()
+      await this.webhooks.stop()
+      await this.history.flush()
+      this.running = false
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running
+  }
+
+  // ===========================================================================
+  // Sessions
+  // ===========================================================================
+
+  createSession(options?: CreateSessionOptions): Promise<Session> {
+    return this.manager.createSession(options)
+  }
+
+  getSession(id: string): Session | undefined {
+    return this.manager.getSession(id)
+  }
+
+  listSessions(filter?: SessionFilter): Session[] {
+    return this.manager.listSessions(filter)
+  }
+
+  deleteSession(id: string): Promise<boolean> {
+    return this.manager.deleteSession(id)
+  }
+
+  updateSession(id: string, updates: Partial<Pick<Session, 'name' | 'policy'>>): Session | undefined {
+    return this.manager.updateSession(id, updates)
+  }
+
+  // ===========================================================================
+  // Session Control
+  // ===========================================================================
+
+  sendPrompt(id: string, prompt: string, images?: ImageInput[]): Promise<SendResult> {
+    return this.manager.sendPrompt(id, prompt, images)
+  }
+
+  async runPrompt(id: string, prompt: string, options: RunPromptOptions = {}): Promise<PromptResult> {
+    const result = await this.manager.sendPrompt(id, prompt, options.images)
+    if (!result.ok || !result.promptId) {
+      throw new Error(result.error ?? 'Failed to send prompt')
+    }
+    return this.manager.waitForPrompt(result.promptId, options.timeoutMs ?? DEFAULT_PROMPT_TIMEOUT_MS)
+  }
+
+  cancel(id: string): Promise<boolean> {
+    return this.manager.cancel(id)
+  }
+
+  async restart(id: string): Promise<Session> {
+    const session = await this.manager.restart(id)
+    if (!session) {
+      throw new Error(`Failed to restart session: ${id}`)
+    }
+    return session
+  }
+
+  // ===========================================================================
+  // Prompt Queue
+  // ===========================================================================
+
+  getQueue(id: string): QueuedPrompt[] | undefined {
+    return this.manager.getQueue(id)
+  }
+
+  reorderQueue(id: string, order: string[]): QueuedPrompt[] | undefined {
+    return this.manager.reorderQueue(id, order)
+  }
+
+  removeQueuedPrompt(id: string, promptId: string): Promise<boolean> {
+    return this.manager.removeQueuedPrompt(id, promptId)
+  }
+
+  // ===========================================================================
+  // Terminal Output
+  // ===========================================================================
+
+  readOutput(id: string, offset?: number, limit?: number): Promise<OutputChunk | undefined> {
+    return this.manager.readOutput(id, offset, limit)
+  }
+
+  getTerminalSnapshot(id: string): Promise<TerminalSnapshot | undefined> {
+    return this.manager.getTerminalSnapshot(id)
+  }
+
+  sendTerminalInput(id: string, data: string): Promise<boolean> {
+    return this.manager.sendTerminalInput(id, data)
+  }
+
+  resizeTerminal(id: string, cols: number, rows: number): Promise<boolean> {
+    return this.manager.resizeTerminal(id, cols, rows)
+  }
+
+  // ===========================================================================
+  // Event History
+  // ===========================================================================
+
+  getEvents(query?: EventQuery): Promise<EventPage> {
+    return this.history.query(query)
+  }
+
+  // ===========================================================================
+  // Tool Policy
+  // ===========================================================================
+
+  getPolicy(): PolicyConfig {
+    return this.policy.getPolicy()
+  }
+
+  reloadPolicy(): Promise<PolicyConfig> {
+    return this.policy.load(this.config.paths.policyFile)
+  }
+
+  // ===========================================================================
+  // Approvals
+  // ===========================================================================
+
+  listApprovals(sessionId?: string): PendingApproval[] {
+    return this.approvals.list(sessionId)
+  }
+
+  resolveApproval(id: string, decision: ApprovalDecision, reason?: string): ApprovalResolution | undefined {
+    return this.approvals.resolve(id, decision, reason)
+  }
+
+  // ===========================================================================
+  // Agents
+  // ===========================================================================
+
+  registerAgent(adapter: AgentAdapter): void {
+    this.manager.registerAdapter(adapter)
+    this.processor.registerAdapter(adapter)
+  }
+
+  getAgent(name: AgentType): AgentAdapter | undefined {
+    return this.manager.getAdapter(name)
+  }
+
+  listAgents(): AgentAdapter[] {
+    return this.manager.listAdapters()
+  }
+
+  // ===========================================================================
+  // Server
+  // ===========================================================================
+
+  async listen(port?: number): Promise<void> {
+    if (this.server) return
+
+    const server = new BridgeServer({
+      port: port ?? this.config.port,
+      host: this.config.host,
+      tcp: this.config.tcp,
+      socketPath: this.config.socket ? this.config.paths.socketFile : undefined,
+      tls: this.config.tls,
+      dashboard: this.config.dashboard,
+      debug: this.config.debug,
+    })
+    server.setSessionManager(this.manager)
+    server.setEventStore(this.history)
+    server.setTokenStore(this.tokens)
+    server.setMetrics(this.metrics)
+    server.setWebhookManager(this.webhooks)
+    if (!this.config.allowUnsignedEvents) {
+      const secret = await ensureHookSecret(this.config.paths.hookSecretFile)
+      server.setHookVerifier(new HookVerifier({ secret, debug: this.config.debug }))
+    }
+    server.setEventProcessor((rawEvent) => this.handleLine(JSON.stringify(rawEvent)))
+    if (this.checksToolCalls()) {
+      server.setApprovalManager(this.approvals, (rawEvent) => this.handleApprovalRequest(rawEvent))
+    }
+    server.on('error', (err: Error) => {
+      this.emitError(err)
+    })
+
+    await server.start()
+    this.server = server
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) return
+    const server = this.server
+    this.server = null
+    await server.stop()
+  }
+
+  // ===========================================================================
+  // Typed EventEmitter overrides
+  // ===========================================================================
+
+  override on<K extends keyof BridgeEvents>(event: K, handler: BridgeEvents[K]): this {
+    return super.on(event, handler)
+  }
+
+  override off<K extends keyof BridgeEvents>(event: K, handler: BridgeEvents[K]): this {
+    return super.off(event, handler)
+  }
+
+  override once<K extends keyof BridgeEvents>(event: K, handler: BridgeEvents[K]): this {
+    return super.once(event, handler)
+  }
+
+  // ===========================================================================
+  // Event Ingestion
+  // ===========================================================================
+
+  /**
+   * Handle a raw hook event from the events file or POST /event. Both carry
+   * the same hook-generated event ID, so whichever arrives second is dropped.
+   * @returns The ingested event, or null if it was invalid or a duplicate
+   */
+  private handleLine(line: string): AgentEvent | null {
+    const processed = this.processor.processLine(line)
+    if (!processed) return null
+
+    const session = this.ingest(processed)
+    if (!session) return null
+
+    // Tool calls that didn't go through the blocking check are recorded, not enforced
+    if (processed.event.type === 'pre_tool_use') {
+      this.checkPolicy(session, processed.event, false)
+    }
+    return processed.event
+  }
+
+  /**
+   * Handle a blocking PreToolUse hook request. The request carries the hook
+   * event, so it is ingested here rather than from the file (returns null for
+   * a duplicate, like for anything that isn't a tool call). The policy
+   * decides first; in approval mode anything it doesn't explicitly allow or
+   * deny waits for a client.
+   */
+  private async handleApprovalRequest(
+    rawEvent: unknown
+  ): Promise<Pick<ApprovalResolution, 'decision' | 'reason'> | null> {
+    const processed = this.processor.processLine(JSON.stringify(rawEvent))
+    if (!processed || processed.event.type !== 'pre_tool_use') {
+      return null
+    }
+
+    const event = processed.event
+    const session = this.ingest(processed)
+    if (!session) return null
+
+    const policy = this.checkPolicy(session, event, true)
+    if (policy?.action === 'deny') {
+      return { decision: 'deny', reason: policy.reason ?? 'Blocked by tool policy' }
+    }
+    const explicitlyAllowed = policy?.matched === true && policy.action === 'allow'
+    if (!this.config.approvalMode || explicitlyAllowed) {
+      return { decision: 'allow', ...(policy?.reason ? { reason: policy.reason } : {}) }
+    }
+
+    this.manager.markWaiting(session, 'permission')
+
+    const resolution = await this.approvals.request({
+      sessionId: session.id,
+      agent: event.agent,
+      tool: event.tool,
+      toolInput: event.toolInput,
+      toolUseId: event.toolUseId,
+      cwd: event.cwd,
+    })
+
+    // The agent carries on either way (a denied tool is reported back to it)
+    if (session.status === 'waiting') {
+      this.manager.updateSessionStatus(session, 'working')
+    }
+    return resolution
+  }
+
+  /**
+   * Check a tool call against the session and bridge policy and record the
+   * decision as a `policy_decision` event.
+   * @returns The decision, or undefined if no policy applies
+   */
+  private checkPolicy(session: Session, event: PreToolUseEvent, enforced: boolean): PolicyDecision | undefined {
+    if (!this.policy.isActive(session.policy)) return undefined
+
+    const decision = this.policy.evaluate(
+      { tool: event.tool, toolInput: event.toolInput, cwd: session.cwd },
+      session.policy
+    )
+
+    const decisionEvent: PolicyDecisionEvent = {
+      id: randomUUID(),
+      timestamp: Date.now(),
+      type: 'policy_decision',
+      sessionId: session.id,
+      agentSessionId: event.agentSessionId,
+      agent: event.agent,
+      cwd: event.cwd,
+      ...(event.promptId ? { promptId: event.promptId } : {}),
+      tool: event.tool,
+      toolInput: event.toolInput,
+      toolUseId: event.toolUseId,
+      action: decision.action,
+      ...(decision.ruleId ? { ruleId: decision.ruleId } : {}),
+      ...(decision.reason ? { reason: decision.reason } : {}),
+      enforced,
+    }
+    this.emitEvent(decisionEvent)
+
+    return decision
+  }
+
+  /**
+   * Whether internal sessions check tool calls with the bridge before running them.
+   */
+  private checksToolCalls(): boolean {
+    return this.config.approvalMode || this.config.enforcePolicy
+  }
+
+  /**
+   * Whether a session being started should check its tool calls: in approval
+   * mode, or when a policy applies to it. Otherwise its hook doesn't block on
+   * the bridge. The environment is fixed at start, so policies added later
+   * apply to sessions started (or restarted) after them.
+   */
+  private sessionChecksToolCalls(sessionRules?: PolicyRule[]): boolean {
+    return this.config.approvalMode || (this.config.enforcePolicy && this.policy.isActive(sessionRules))
+  }
+
+  /**
+   * Ingest a processed hook event once, whichever transport delivered it.
+   * @returns The event's session, or null if the event was already ingested
+   */
+  private ingest(processed: ProcessedEvent): Session | null {
+    const id = processed.event.id
+    if (this.seenEventIds.has(id)) {
+      this.debug('Dropping duplicate event:', id)
+      return null
+    }
+
+    this.seenEventIds.add(id)
+    if (this.seenEventIds.size > SEEN_EVENT_IDS_LIMIT) {
+      const oldest = this.seenEventIds.values().next().value
+      if (oldest !== undefined) this.seenEventIds.delete(oldest)
+    }
+
+    return this.handleProcessedEvent(processed)
+  }
+
+  /**
+   * Link a processed hook event to its session, apply it, and publish it.
+   */
+  private handleProcessedEvent(processed: ProcessedEvent): Session {
+    const session = this.manager.findOrCreateSession(
+      processed.agentSessionId,
+      processed.event.agent || 'claude',
+      processed.event.cwd,
+      processed.terminal,
+      processed.transcriptPath,
+      processed.bridgeSessionId
+    )
+
+    // Enrich event with bridge session ID for client correlation
+    processed.event.sessionId = session.id
+    processed.event.agentSessionId = processed.agentSessionId
+    this.manager.applyEvent(session, processed.event)
+
+    this.emitEvent(processed.event)
+    return session
+  }
+
+  private emitEvent(event: AgentEvent): void {
+    this.metrics.recordEvent(event)
+    this.history.append(event)
+    this.emit('event', event)
+    this.server?.broadcast(event)
+    this.webhooks.notify('event', { event })
+  }
+
+  /**
+   * Emit an error without throwing when nobody is listening.
+   */
+  private emitError(err: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err)
+    } else {
+      this.debug('Error:', err.message)
+    }
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.config.debug) {
+      console.log('[Bridge]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new bridge instance.
+ *
+ * @param config - Bridge configuration options
+ * @returns A new Bridge instance
+ *
+ * @example
+ * ```typescript
+ * const bridge = createBridge({
+ *   dataDir: '~/.cin-interface',
+ *   port: 4003,
+ * })
+ * ```
+ */
+export function createBridge(config?: BridgeConfig): CodingAgentBridge {
+  return new CodingAgentBridge(config)
+}
@@ -49,11 +49,25 @@ export interface ProcessedEvent {
   cwd?: string
   /** Path to the agent's transcript JSONL file */
   transcriptPath?: string
+  /** Bridge session ID forwarded from the agent's environment (internal sessions) */
+  bridgeSessionId?: string
 }
 
+/**
+ * Why a hook line didn't produce an event
+ */
+export type EventRejectReason =
+  | 'parse_error'
+  | 'unknown_agent'
+  | 'no_adapter'
+  | 'unknown_hook'
+  | 'invalid_event'
+  | 'missing_session_id'
+
 export interface EventProcessorEvents {
   event: [processed: ProcessedEvent]
   error: [error: Error, rawLine: string]
+  rejected: [reason: EventRejectReason, rawLine: string]
 }
 
 /**
@@ -65,6 +79,7 @@ interface RawHookEvent {
   type?: string
   hook_type?: string
   hook_event_name?: string  // Claude Code uses this field name
+  event_id?: string  // Set by the hook script; identical whichever way the event is delivered
   timestamp?: string
   cwd?: string
   working_directory?: string
@@ -72,6 +87,7 @@ interface RawHookEvent {
   // Session identifiers
   session_id?: string
   claude_session_id?: string
+  bridge_session_id?: string
 
   // Terminal info
   tmux_pane?: string
@@ -152,7 +168,7 @@ export class EventProcessor extends EventEmitter {
         this.trace('  FAILED: Could not detect agent type')
         this.trace('    Checked: agent field, claude_session_id, hook types, event structure')
         this.debug('Could not detect agent type for event:', line.substring(0, 100))
-        return null
+        return this.reject('unknown_agent', line)
       }
       this.trace('  Detected agent:', agent)
 
@@ -161,7 +177,7 @@ export class EventProcessor extends EventEmitter {
       if (!adapter) {
         this.trace('  FAILED: No adapter registered for agent:', agent)
         this.debug('No adapter for agent:', agent)
-        return null
+        return this.reject('no_adapter', line)
       }
 
       // Extract hook name for adapter
@@ -175,18 +191,18 @@ export class EventProcessor extends EventEmitter {
         this.trace('  FAILED: Adapter could not parse hook:', hookName)
         this.trace('    Known Claude hooks: PreToolUse, PostToolUse, Stop, SubagentStop, SessionStart, SessionEnd, UserPromptSubmit, Notification')
         this.debug('Adapter could not parse event:', line.substring(0, 100))
-        return null
+        return this.reject('unknown_hook', line)
       }
       this.trace('  Parsed event type:', partialEvent.type)
 
       // Validate and complete the event
-      const event = this.validateEvent(partialEvent)
+      const event = this.validateEvent(partialEvent, raw.event_id)
       if (!event) {
         this.trace('  FAILED: Invalid event (missing type or agent)')
         this.trace('    partial.type:', partialEvent.type)
         this.trace('    partial.agent:', partialEvent.agent)
         this.debug('Invalid event (missing required fields):', line.substring(0, 100))
-        return null
+        return this.reject('invalid_event', line)
       }
 
       // Extract session identifier from adapter or raw event
@@ -197,7 +213,7 @@ export class EventProcessor extends EventEmitter {
         this.trace('  FAILED: No session ID found')
         this.trace('    Checked: adapter.extractSessionId, claude_session_id, session_id, tmux_pane, tty')
         this.debug('No session ID in event:', line.substring(0, 100))
-        return null
+        return this.reject('missing_session_id', line)
       }
       this.trace('  Session ID:', agentSessionId)
 
@@ -213,6 +229,12 @@ export class EventProcessor extends EventEmitter {
       // Extract transcript path
       const transcriptPath = raw.transcript_path
 
+      // Bridge session ID injected into internal sessions' environment
+      const bridgeSessionId =
+        typeof raw.bridge_session_id === 'string' && raw.bridge_session_id
+          ? raw.bridge_session_id
+          : undefined
+
       const processed: ProcessedEvent = {
         event,
         agentSessionId,
@@ -220,6 +242,7 @@ export class EventProcessor extends EventEmitter {
         terminal,
         cwd,
         transcriptPath,
+        bridgeSessionId,
       }
 
       this.trace('  SUCCESS:', event.type, 'from', agent, 'session', agentSessionId)
@@ -232,10 +255,18 @@ export class EventProcessor extends EventEmitter {
         err instanceof Error ? err : new Error(String(err))
       this.trace('  ERROR:', error.message)
       this.emit('error', error, line)
-      return null
+      return this.reject('parse_error', line)
     }
   }
 
+  /**
+   * Report a line that didn't produce an event.
+   */
+  private reject(reason: EventRejectReason, line: string): null {
+    this.emit('rejected', reason, line)
+    return null
+  }
+
   /**
    * Process multiple lines (batch processing)
    */
@@ -254,8 +285,8 @@ export class EventProcessor extends EventEmitter {
    * Detect agent type from raw event
    */
   private detectAgent(raw: RawHookEvent): AgentType | null {
-    // Explicit agent field
-    if (raw.agent === 'claude' || raw.agent === 'codex') {
+    // Explicit agent field (any registered adapter)
+    if (raw.agent && this.adapters.has(raw.agent)) {
       return raw.agent
     }
 
@@ -344,16 +375,20 @@ export class EventProcessor extends EventEmitter {
   /**
    * Validate and complete a partial event to ensure required fields are present
    */
-  private validateEvent(partial: Partial<AgentEvent>): AgentEvent | null {
+  private validateEvent(partial: Partial<AgentEvent>, hookEventId?: unknown): AgentEvent | null {
     // Required fields for all events
     if (!partial.type || !partial.agent) {
       return null
     }
 
-    // Ensure we have id and timestamp
+    // Ensure we have id and timestamp. The hook script's ID wins so the same
+    // hook delivered via the events file and POST /event can be deduplicated.
     const event = {
       ...partial,
-      id: partial.id || `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      id:
+        (typeof hookEventId === 'string' && hookEventId) ||
+        partial.id ||
+        `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
       timestamp: partial.timestamp || Date.now(),
     } as AgentEvent
 
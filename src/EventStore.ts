@@ -0,0 +1,241 @@
+/**
+ * EventStore - Event history for late-joining clients
+ *
+ * Keeps the most recent events across all sessions in a bounded in-memory
+ * buffer and appends every event to a per-session JSONL file, so a session's
+ * full timeline survives restarts and can be replayed by clients that
+ * connect after the fact.
+ *
+ * Every event gets a sequence number when recorded, stored with it and
+ * increasing across sessions and restarts. Queries page on it (`cursor`):
+ * timestamps can repeat within a millisecond or arrive out of order.
+ */
+
+import { EventEmitter } from 'events'
+import { appendFile, mkdir, readdir, readFile, rm } from 'fs/promises'
+import { join } from 'path'
+import type { AgentEvent, EventPage, EventQuery } from './types.js'
+
+/**
+ * Default page size for history queries.
+ */
+export const DEFAULT_HISTORY_LIMIT = 100
+
+/**
+ * Largest page a single history query returns.
+ */
+export const MAX_HISTORY_LIMIT = 1000
+
+/**
+ * Session IDs are used as file names - only allow safe ones.
+ */
+const SAFE_SESSION_ID = /^[A-Za-z0-9_-]+$/
+
+export interface EventStoreOptions {
+  /** Directory for per-session history files */
+  dir: string
+  /** Number of recent events kept in memory. Default: 1000 */
+  maxEvents?: number
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+export interface EventStoreEvents {
+  error: (error: Error) => void
+}
+
+/**
+ * An event and its sequence number.
+ */
+interface StoredEvent {
+  seq: number
+  event: AgentEvent
+}
+
+export class EventStore extends EventEmitter {
+  private recent: StoredEvent[] = []
+  /** Sequence number of the last recorded event */
+  private seq = 0
+  /** Pending append per session, chained to keep file order */
+  private writes: Map<string, Promise<void>> = new Map()
+  private options: Required<EventStoreOptions>
+
+  constructor(options: EventStoreOptions) {
+    super()
+    this.options = {
+      dir: options.dir,
+      maxEvents: options.maxEvents ?? 1000,
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Fill the in-memory buffer with the most recent events from disk.
+   */
+  async load(): Promise<void> {
+    let files: string[]
+    try {
+      files = await readdir(this.options.dir)
+    } catch {
+      return // No history yet
+    }
+
+    const events: StoredEvent[] = []
+    for (const file of files) {
+      if (!file.endsWith('.jsonl')) continue
+      events.push(...(await this.readFile(join(this.options.dir, file))))
+    }
+
+    events.sort((a, b) => a.seq - b.seq)
+    this.seq = Math.max(this.seq, events[events.length - 1]?.seq ?? 0)
+    this.recent = events.slice(-this.options.maxEvents)
+    this.debug('Loaded', this.recent.length, 'events from', files.length, 'files')
+  }
+
+  /**
+   * Record an event.
+   */
+  append(event: AgentEvent): void {
+    const seq = ++this.seq
+    this.recent.push({ seq, event })
+    if (this.recent.length > this.options.maxEvents) {
+      this.recent.splice(0, this.recent.length - this.options.maxEvents)
+    }
+
+    const sessionId = event.sessionId
+    if (!sessionId || !SAFE_SESSION_ID.test(sessionId)) return
+
+    const previous = this.writes.get(sessionId) ?? Promise.resolve()
+    const write = previous.then(async () => {
+      try {
+        await mkdir(this.options.dir, { recursive: true })
+        await appendFile(this.sessionFile(sessionId), JSON.stringify({ seq, event }) + '\n', 'utf8')
+      } catch (err) {
+        this.emitError(err as Error)
+      }
+    })
+    this.writes.set(sessionId, write)
+    write.then(() => {
+      if (this.writes.get(sessionId) === write) {
+        this.writes.delete(sessionId)
+      }
+    })
+  }
+
+  /**
+   * Query event history, oldest first.
+   *
+   * Session queries read the session's full history from disk; otherwise only
+   * the in-memory buffer is searched. Without `cursor` (or `since`), or with
+   * `before`, the page is read from the end: the last `limit` events, with a
+   * `before` cursor for the previous page while older events remain. With
+   * `cursor` (or `since`) it is the first `limit` events after, and the page's
+   * `cursor` is the one to pass for the next page.
+   */
+  async query(query: EventQuery = {}): Promise<EventPage> {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT)
+
+    let events: StoredEvent[]
+    if (query.sessionId) {
+      events = SAFE_SESSION_ID.test(query.sessionId) ? await this.readSession(query.sessionId) : []
+    } else {
+      events = this.recent
+    }
+
+    const matching = events.filter(
+      ({ seq, event }) =>
+        (!query.type || event.type === query.type) &&
+        (query.cursor === undefined || seq > query.cursor) &&
+        (query.before === undefined || seq < query.before) &&
+        (query.since === undefined || event.timestamp > query.since)
+    )
+
+    const backward = query.before !== undefined || (query.cursor === undefined && query.since === undefined)
+    const page = backward ? matching.slice(-limit) : matching.slice(0, limit)
+    const result: EventPage = {
+      events: page.map((e) => e.event),
+      hasMore: matching.length > limit,
+      // Nothing new: stay put, or (first query) start after what exists now
+      cursor: page[page.length - 1]?.seq ?? query.cursor ?? this.seq,
+    }
+    if (backward && result.hasMore) {
+      result.before = page[0]!.seq
+    }
+    return result
+  }
+
+  /**
+   * Delete a session's history.
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    this.recent = this.recent.filter((e) => e.event.sessionId !== sessionId)
+    if (!SAFE_SESSION_ID.test(sessionId)) return
+
+    await this.writes.get(sessionId)
+    await rm(this.sessionFile(sessionId), { force: true })
+  }
+
+  /**
+   * Wait for pending writes to land.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.writes.values()))
+  }
+
+  private async readSession(sessionId: string): Promise<StoredEvent[]> {
+    await this.writes.get(sessionId)
+    return this.readFile(this.sessionFile(sessionId))
+  }
+
+  private async readFile(path: string): Promise<StoredEvent[]> {
+    let content: string
+    try {
+      content = await readFile(path, 'utf8')
+    } catch {
+      return []
+    }
+
+    const events: StoredEvent[] = []
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const stored = JSON.parse(line) as Partial<StoredEvent>
+        if (typeof stored.seq !== 'number' || !stored.event || typeof stored.event !== 'object') {
+          throw new Error('Not a stored event')
+        }
+        events.push(stored as StoredEvent)
+      } catch {
+        this.debug('Skipping invalid history line in', path)
+      }
+    }
+    return events
+  }
+
+  private sessionFile(sessionId: string): string {
+    return join(this.options.dir, `${sessionId}.jsonl`)
+  }
+
+  /**
+   * Emit an error without throwing when nobody is listening.
+   */
+  private emitError(err: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err)
+    } else {
+      this.debug('Error:', err.message)
+    }
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[EventStore]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new EventStore instance.
+ */
+export function createEventStore(options: EventStoreOptions): EventStore {
+  return new EventStore(options)
+}
@@ -13,6 +13,9 @@ import { join, dirname } from 'path'
 import { ClaudeAdapter } from './adapters/ClaudeAdapter.js'
 import { CodexAdapter } from './adapters/CodexAdapter.js'
 import type { AgentAdapter, AgentType } from './types.js'
+import { BRIDGE_SESSION_ENV } from './SessionManager.js'
+import { APPROVAL_MODE_ENV, APPROVAL_REQUEST_TIMEOUT_S } from './ApprovalManager.js'
+import { ensureHookSecret } from './HookVerifier.js'
 
 const execAsync = promisify(exec)
 
@@ -69,6 +72,9 @@ export class HookInstaller {
     // Check curl (used in hook scripts)
     checks.push(await this.checkCommand('curl', ['curl', '--version']))
 
+    // Check openssl (signs hook callbacks)
+    checks.push(await this.checkCommand('openssl', ['openssl', 'version']))
+
     return checks
   }
 
@@ -261,6 +267,27 @@ export class HookInstaller {
     return join(this.config.dataDir, 'data', 'events.jsonl')
   }
 
+  /**
+   * Get the path of the token the hook script sends once the API requires tokens
+   */
+  getHookTokenPath(): string {
+    return join(this.config.dataDir, 'hook-token')
+  }
+
+  /**
+   * Get the path of the secret the hook script signs callbacks with
+   */
+  getHookSecretPath(): string {
+    return join(this.config.dataDir, 'hook-secret')
+  }
+
+  /**
+   * Get the Unix socket the hook script prefers when the bridge listens on one
+   */
+  getSocketPath(): string {
+    return join(this.config.dataDir, 'bridge.sock')
+  }
+
   /**
    * Ensure the hook script is installed
    */
@@ -275,6 +302,9 @@ export class HookInstaller {
     const dataDir = join(this.config.dataDir, 'data')
     await mkdir(dataDir, { recursive: true })
 
+    // Per-install secret for signing callbacks to the bridge
+    await ensureHookSecret(this.getHookSecretPath())
+
     // Check if we have a source hook script in our package
     // For now, generate it inline
     const hookScript = this.generateHookScript()
@@ -297,6 +327,9 @@ export class HookInstaller {
    */
   private generateHookScript(): string {
     const eventsFile = this.getEventsFilePath()
+    const hookTokenFile = this.getHookTokenPath()
+    const hookSecretFile = this.getHookSecretPath()
+    const socketFile = this.getSocketPath()
 
     return `#!/bin/bash
 # coding-agent-hook.sh
@@ -307,9 +340,39 @@ set -e
 
 # Configuration
 EVENTS_FILE="${eventsFile}"
+HOOK_TOKEN_FILE="${hookTokenFile}"
+HOOK_SECRET_FILE="${hookSecretFile}"
+SOCKET_FILE="${socketFile}"
 SERVER_URL="\${CODING_AGENT_BRIDGE_URL:-http://127.0.0.1:4003}"
 DEBUG="\${CODING_AGENT_BRIDGE_DEBUG:-}"
 
+# Prefer the bridge's Unix socket unless a URL was set explicitly
+CURL_TARGET=()
+if [[ -z "\${CODING_AGENT_BRIDGE_URL:-}" && -S "\$SOCKET_FILE" ]]; then
+  SERVER_URL="http://localhost"
+  CURL_TARGET=(--unix-socket "\$SOCKET_FILE")
+fi
+
+# API token, once the bridge requires one (written by the bridge)
+AUTH_HEADER=()
+if [[ -r "\$HOOK_TOKEN_FILE" ]]; then
+  AUTH_HEADER=(-H "Authorization: Bearer \$(tr -d '[:space:]' < "\$HOOK_TOKEN_FILE")")
+fi
+
+# Sign a callback body: sets SIGN_HEADERS to the timestamp, nonce and
+# HMAC-SHA256 signature headers the bridge checks (empty without a secret)
+sign_body() {
+  SIGN_HEADERS=()
+  if [[ -r "\$HOOK_SECRET_FILE" ]] && command -v openssl &> /dev/null; then
+    local ts nonce sig
+    ts=\$(date +%s)
+    nonce=\$(openssl rand -hex 16)
+    sig=\$(printf '%s.%s.%s' "\$ts" "\$nonce" "\$1" \\
+      | openssl dgst -sha256 -hmac "\$(tr -d '[:space:]' < "\$HOOK_SECRET_FILE")" -hex | sed 's/^.* //')
+    SIGN_HEADERS=(-H "X-Bridge-Timestamp: \$ts" -H "X-Bridge-Nonce: \$nonce" -H "X-Bridge-Signature: sha256=\$sig")
+  fi
+}
+
 # Ensure events directory exists
 mkdir -p "\$(dirname "\$EVENTS_FILE")"
 
@@ -347,20 +410,31 @@ if [[ -n "\$TMUX" ]]; then
 fi
 TTY_DEVICE="\$(tty 2>/dev/null || echo '')"
 
+# Bridge session ID (set in sessions created by the bridge)
+BRIDGE_SESSION_ID="\${${BRIDGE_SESSION_ENV}:-}"
+
+# Unique ID for this hook call, so the bridge can drop the copy it receives
+# through the other transport (events file and POST /event)
+EVENT_ID="\$(date +%s)-\$\$-\$RANDOM\$RANDOM"
+
 # Build enriched event
 build_event() {
   local event
   event=\$(echo "\$INPUT" | jq -c --arg hook "\$HOOK_TYPE" --arg agent "\$AGENT" \\
+    --arg event_id "\$EVENT_ID" \\
     --arg tmux_pane "\$TMUX_PANE_ID" \\
     --arg tmux_socket "\$TMUX_SOCKET_PATH" \\
     --arg tty "\$TTY_DEVICE" \\
+    --arg bridge_session_id "\$BRIDGE_SESSION_ID" \\
     --arg ts "\$(date +%s)000" \\
     '. + {
+      event_id: \$event_id,
       hook_type: \$hook,
       agent: \$agent,
       tmux_pane: (if \$tmux_pane != "" then \$tmux_pane else null end),
       tmux_socket: (if \$tmux_socket != "" then \$tmux_socket else null end),
       tty: (if \$tty != "" then \$tty else null end),
+      bridge_session_id: (if \$bridge_session_id != "" then \$bridge_session_id else null end),
       received_at: (\$ts | tonumber)
     }')
   echo "\$event"
@@ -368,6 +442,52 @@ build_event() {
 
 EVENT=\$(build_event)
 
+# Approval mode: ask the bridge before the tool runs and block until a client
+# decides. The bridge ingests the event from this request, so on success it is
+# not written again below. The session is only in approval mode when the bridge
+# enforces approvals or a policy, so if no decision comes back (bridge down,
+# request rejected, timed out) the tool call is denied rather than let through.
+HOOK_EVENT_NAME=\$(echo "\$INPUT" | jq -r '.hook_event_name // empty' 2>/dev/null || true)
+if [[ -n "\${${APPROVAL_MODE_ENV}:-}" ]] \\
+  && [[ "\$HOOK_TYPE" == "PreToolUse" || "\$HOOK_EVENT_NAME" == "PreToolUse" ]]; then
+  if command -v curl &> /dev/null; then
+    sign_body "\$EVENT"
+    CURL_STATUS=0
+    RESPONSE=\$(curl -s -X POST "\${CURL_TARGET[@]}" -H "Content-Type: application/json" "\${AUTH_HEADER[@]}" "\${SIGN_HEADERS[@]}" \\
+      -d "\$EVENT" "\$SERVER_URL/approvals" -w '\\n%{http_code}' \\
+      --connect-timeout 1 --max-time ${APPROVAL_REQUEST_TIMEOUT_S}) || CURL_STATUS=\$?
+    HTTP_STATUS="\${RESPONSE##*\$'\\n'}"
+    DECISION="\${RESPONSE%\$'\\n'*}"
+    if [[ "\$CURL_STATUS" -eq 0 && "\$HTTP_STATUS" == 2* ]] \\
+      && echo "\$DECISION" | jq -e '.decision' > /dev/null 2>&1; then
+      echo "\$DECISION" | jq -c '{
+        hookSpecificOutput: {
+          hookEventName: "PreToolUse",
+          permissionDecision: .decision,
+          permissionDecisionReason: (.reason // "Decided via coding-agent-bridge")
+        }
+      }'
+      exit 0
+    elif [[ "\$CURL_STATUS" -ne 0 ]]; then
+      DENY_REASON="coding-agent-bridge did not answer the approval request (curl exit \$CURL_STATUS)"
+    else
+      DENY_REASON="coding-agent-bridge rejected the approval request (HTTP \$HTTP_STATUS)"
+    fi
+  else
+    DENY_REASON="curl is needed to ask coding-agent-bridge for approval"
+  fi
+
+  echo "\$EVENT" >> "\$EVENTS_FILE"
+  jq -nc --arg reason "\$DENY_REASON" '{
+    hookSpecificOutput: {
+      hookEventName: "PreToolUse",
+      permissionDecision: "deny",
+      permissionDecisionReason: \$reason
+    }
+  }'
+  exit 0
+fi
+
 # Append to events file
 echo "\$EVENT" >> "\$EVENTS_FILE"
 
@@ -378,7 +498,8 @@ fi
 
 # Try to POST to server (non-blocking, ignore failures)
 if command -v curl &> /dev/null; then
-  curl -s -X POST -H "Content-Type: application/json" \\
+  sign_body "\$EVENT"
+  curl -s -X POST "\${CURL_TARGET[@]}" -H "Content-Type: application/json" "\${AUTH_HEADER[@]}" "\${SIGN_HEADERS[@]}" \\
     -d "\$EVENT" "\$SERVER_URL/event" \\
     --connect-timeout 1 --max-time 2 > /dev/null 2>&1 &
 fi
@@ -0,0 +1,134 @@
+/**
+ * HookVerifier - Signed hook callbacks
+ *
+ * The hook script signs every payload it POSTs to the bridge with a
+ * per-install secret (HMAC-SHA256 over timestamp, nonce and body). The server
+ * rejects callbacks with a missing or wrong signature, a stale timestamp or a
+ * nonce it has already seen, so other local processes can't spoof agent
+ * events or replay captured ones.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import type { IncomingHttpHeaders } from 'http'
+
+/** Header carrying the signing time (seconds since epoch) */
+export const HOOK_TIMESTAMP_HEADER = 'x-bridge-timestamp'
+/** Header carrying a random per-request nonce */
+export const HOOK_NONCE_HEADER = 'x-bridge-nonce'
+/** Header carrying `sha256=<hex HMAC>` */
+export const HOOK_SIGNATURE_HEADER = 'x-bridge-signature'
+
+export interface HookVerifierOptions {
+  /** Shared secret (see HookInstaller.getHookSecretPath) */
+  secret: string
+  /** Largest accepted clock difference (ms). Default: 300000 */
+  maxSkewMs?: number
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+export type HookVerification = { ok: true } | { ok: false; error: string }
+
+/**
+ * Sign a hook payload.
+ * @returns The `x-bridge-signature` header value
+ */
+export function signHookPayload(
+  secret: string,
+  timestamp: number,
+  nonce: string,
+  body: string | Buffer
+): string {
+  const hmac = createHmac('sha256', secret).update(`${timestamp}.${nonce}.`).update(body).digest('hex')
+  return `sha256=${hmac}`
+}
+
+/**
+ * Read the hook secret, generating one first if the file doesn't exist.
+ */
+export async function ensureHookSecret(file: string): Promise<string> {
+  try {
+    const existing = (await readFile(file, 'utf8')).trim()
+    if (existing) return existing
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+  }
+
+  const secret = randomBytes(32).toString('hex')
+  await mkdir(dirname(file), { recursive: true })
+  await writeFile(file, secret + '\n', { mode: 0o600 })
+  return secret
+}
+
+export class HookVerifier {
+  /** Nonces seen within the skew window, with the time they expire */
+  private seen: Map<string, number> = new Map()
+  private options: Required<HookVerifierOptions>
+
+  constructor(options: HookVerifierOptions) {
+    this.options = {
+      secret: options.secret,
+      maxSkewMs: options.maxSkewMs ?? 300000,
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Check a hook callback's signature headers against its raw body bytes.
+   */
+  verify(headers: IncomingHttpHeaders, body: string | Buffer): HookVerification {
+    const timestamp = Number(headers[HOOK_TIMESTAMP_HEADER])
+    const nonce = headers[HOOK_NONCE_HEADER]
+    const signature = headers[HOOK_SIGNATURE_HEADER]
+
+    if (!Number.isFinite(timestamp) || typeof nonce !== 'string' || !nonce || typeof signature !== 'string') {
+      return this.reject('Missing event signature')
+    }
+
+    const now = Date.now()
+    if (Math.abs(now - timestamp * 1000) > this.options.maxSkewMs) {
+      return this.reject('Event timestamp outside the allowed window')
+    }
+
+    const expected = Buffer.from(signHookPayload(this.options.secret, timestamp, nonce, body))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return this.reject('Invalid event signature')
+    }
+
+    this.prune(now)
+    if (this.seen.has(nonce)) {
+      return this.reject('Replayed event')
+    }
+    // Anything older than the window is rejected by timestamp, so nonces can be forgotten then
+    this.seen.set(nonce, timestamp * 1000 + this.options.maxSkewMs)
+
+    return { ok: true }
+  }
+
+  private prune(now: number): void {
+    for (const [nonce, expiresAt] of this.seen) {
+      if (expiresAt < now) this.seen.delete(nonce)
+    }
+  }
+
+  private reject(error: string): HookVerification {
+    this.debug('Rejected hook callback:', error)
+    return { ok: false, error }
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[HookVerifier]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new HookVerifier instance.
+ */
+export function createHookVerifier(options: HookVerifierOptions): HookVerifier {
+  return new HookVerifier(options)
+}
@@ -0,0 +1,281 @@
+/**
+ * MemoryTerminalBackend - In-memory TerminalBackend for tests and demos
+ *
+ * Nothing runs: sessions record the input sent to them, and their screen is
+ * whatever the test prints with write(). Everything happens synchronously
+ * except writing to piped output files, so tests don't need timers or tmux.
+ */
+
+import { EventEmitter } from 'events'
+import { appendFile } from 'fs/promises'
+import {
+  validateEnvVar,
+  validatePaneId,
+  validatePath,
+  validateSessionName,
+  type CapturePaneOptions,
+  type CreateTerminalSessionOptions,
+  type PaneInfo,
+  type PasteBufferOptions,
+  type SendKeysOptions,
+} from './TmuxExecutor.js'
+import type { TerminalBackend, TerminalSessionInfo } from './TerminalBackend.js'
+
+/** Escape sequences (CSI), dropped from captures without `escapes` */
+const ESCAPE_SEQUENCE = /\x1b\[[0-9;?]*[A-Za-z]/g
+
+export type MemoryTerminalInput =
+  | { type: 'keys'; keys: string; literal: boolean }
+  | { type: 'paste'; text: string }
+
+export interface MemoryTerminalSession {
+  name: string
+  /** Pane ID, for targeting the session like an external pane */
+  paneId: string
+  cwd?: string
+  /** Command the session was created with */
+  command?: string
+  env: Record<string, string>
+  cols: number
+  rows: number
+  created: Date
+  /** Everything printed with write(), escape sequences included */
+  output: string
+  /** Input in the order it was sent */
+  input: MemoryTerminalInput[]
+  /** File output is appended to (pipePane) */
+  pipeFile?: string
+}
+
+export interface MemoryTerminalBackendOptions {
+  /** Size of new sessions. Default: 80x24 */
+  cols?: number
+  rows?: number
+  /** Clock for session creation times. Default: Date.now */
+  now?: () => number
+}
+
+export interface MemoryTerminalBackendEvents {
+  /** Input was sent to a session */
+  input: [name: string, input: MemoryTerminalInput]
+}
+
+export class MemoryTerminalBackend extends EventEmitter implements TerminalBackend {
+  onSessionsChanged?: () => void
+  private options: Required<MemoryTerminalBackendOptions>
+  private sessions: Map<string, MemoryTerminalSession> = new Map()
+  private paneCounter = 0
+
+  constructor(options: MemoryTerminalBackendOptions = {}) {
+    super()
+    this.options = {
+      cols: options.cols ?? 80,
+      rows: options.rows ?? 24,
+      now: options.now ?? Date.now,
+    }
+  }
+
+  // ===========================================================================
+  // Sessions
+  // ===========================================================================
+
+  async createSession(name: string, options: CreateTerminalSessionOptions = {}): Promise<void> {
+    validateSessionName(name)
+    if (options.cwd) {
+      validatePath(options.cwd)
+    }
+    for (const [key, value] of Object.entries(options.env ?? {})) {
+      validateEnvVar(key, value)
+    }
+    if (this.sessions.has(name)) {
+      throw new Error(`Session "${name}" already exists`)
+    }
+
+    this.sessions.set(name, {
+      name,
+      paneId: `%${this.paneCounter++}`,
+      cwd: options.cwd,
+      command: options.command,
+      env: { ...options.env },
+      cols: options.width && options.height ? options.width : this.options.cols,
+      rows: options.width && options.height ? options.height : this.options.rows,
+      created: new Date(this.options.now()),
+      output: '',
+      input: [],
+    })
+    this.onSessionsChanged?.()
+  }
+
+  async killSession(name: string): Promise<boolean> {
+    validateSessionName(name)
+    return this.exit(name)
+  }
+
+  async listSessions(): Promise<TerminalSessionInfo[]> {
+    return [...this.sessions.values()].map((session) => ({
+      name: session.name,
+      created: session.created,
+      attached: false,
+    }))
+  }
+
+  async sessionExists(name: string): Promise<boolean> {
+    return this.sessions.has(name)
+  }
+
+  /**
+   * Changes are reported as they happen.
+   */
+  reportsSessionChanges(): boolean {
+    return true
+  }
+
+  // ===========================================================================
+  // Input
+  // ===========================================================================
+
+  async pasteBuffer(options: PasteBufferOptions): Promise<void> {
+    const { target, text, isPaneId, sendEnter = true } = options
+    const session = this.resolve(target, isPaneId)
+
+    this.record(session, { type: 'paste', text })
+    if (sendEnter) {
+      this.record(session, { type: 'keys', keys: 'Enter', literal: false })
+    }
+  }
+
+  async sendKeys(options: SendKeysOptions): Promise<void> {
+    const { target, keys, literal = false, isPaneId } = options
+    this.record(this.resolve(target, isPaneId), { type: 'keys', keys, literal })
+  }
+
+  async sendCtrlC(target: string, isPaneId = false, socket?: string): Promise<void> {
+    await this.sendKeys({ target, keys: 'C-c', isPaneId, socket })
+  }
+
+  // ===========================================================================
+  // Screen
+  // ===========================================================================
+
+  /**
+   * Capture printed lines. The screen is the last `rows` lines; earlier ones
+   * are history (negative `start`). Lines don't wrap and only line breaks move
+   * the cursor.
+   */
+  async capturePane(target: string, options: CapturePaneOptions = {}): Promise<string> {
+    const { start = -100, end, escapes, isPaneId } = options
+    const session = this.resolve(target, isPaneId)
+
+    const lines = this.lines(session)
+    const top = Math.max(0, lines.length - session.rows)
+    const from = Math.max(0, top + start)
+    const to = end === undefined ? lines.length : Math.max(0, top + end + 1)
+
+    return lines
+      .slice(from, to)
+      .map((line) => (escapes ? line : line.replace(ESCAPE_SEQUENCE, '')) + '\n')
+      .join('')
+  }
+
+  async getPaneInfo(target: string): Promise<PaneInfo> {
+    const session = this.resolve(target)
+
+    const lines = this.lines(session)
+    const top = Math.max(0, lines.length - session.rows)
+    const last = lines[lines.length - 1] ?? ''
+    return {
+      width: session.cols,
+      height: session.rows,
+      cursorX: last.replace(ESCAPE_SEQUENCE, '').length,
+      cursorY: lines.length - 1 - top,
+    }
+  }
+
+  async resizeWindow(target: string, cols: number, rows: number): Promise<void> {
+    const session = this.resolve(target)
+    if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 1 || rows < 1) {
+      throw new Error(`Invalid size: ${cols}x${rows}`)
+    }
+
+    session.cols = cols
+    session.rows = rows
+  }
+
+  async pipePane(target: string, file: string): Promise<void> {
+    validatePath(file)
+    this.resolve(target).pipeFile = file
+  }
+
+  async stopPipePane(target: string): Promise<void> {
+    this.resolve(target).pipeFile = undefined
+  }
+
+  // ===========================================================================
+  // Driving Sessions
+  // ===========================================================================
+
+  /**
+   * Print to a session, as the program running in it would.
+   * Resolves once the output is appended to its pipe file, if any.
+   */
+  async write(name: string, data: string): Promise<void> {
+    const session = this.resolve(name)
+    session.output += data
+    if (session.pipeFile) {
+      await appendFile(session.pipeFile, data)
+    }
+  }
+
+  /**
+   * End a session, as when the program running in it exits.
+   * @returns Whether it existed
+   */
+  exit(name: string): boolean {
+    if (!this.sessions.delete(name)) return false
+    this.onSessionsChanged?.()
+    return true
+  }
+
+  /**
+   * Get a session's state (live, not a copy).
+   */
+  getSession(name: string): MemoryTerminalSession | undefined {
+    return this.sessions.get(name)
+  }
+
+  private resolve(target: string, isPaneId = false): MemoryTerminalSession {
+    if (isPaneId) {
+      validatePaneId(target)
+      for (const session of this.sessions.values()) {
+        if (session.paneId === target) return session
+      }
+      throw new Error(`Pane "${target}" not found`)
+    }
+
+    validateSessionName(target)
+    const session = this.sessions.get(target)
+    if (!session) {
+      throw new Error(`Session "${target}" not found`)
+    }
+    return session
+  }
+
+  private record(session: MemoryTerminalSession, input: MemoryTerminalInput): void {
+    session.input.push(input)
+    this.emit('input', session.name, input)
+  }
+
+  /**
+   * Printed lines; output ending in a line break leaves the cursor on an empty last line.
+   */
+  private lines(session: MemoryTerminalSession): string[] {
+    return session.output.replace(/\r/g, '').split('\n')
+  }
+}
+
+/**
+ * Create a new MemoryTerminalBackend instance.
+ */
+export function createMemoryTerminalBackend(options?: MemoryTerminalBackendOptions): MemoryTerminalBackend {
+  return new MemoryTerminalBackend(options)
+}
@@ -0,0 +1,204 @@
+/**
+ * Metrics - Prometheus-style metrics for the bridge
+ *
+ * Counts what flows through the bridge (events, hook parse failures, tmux
+ * commands, tool calls) and renders it, together with point-in-time gauges
+ * for sessions and WebSocket clients, in the Prometheus text exposition
+ * format served at GET /metrics.
+ */
+
+import type { AgentEvent, Session } from './types.js'
+
+export interface MetricsOptions {
+  /** Prefix for every metric name. Default: 'coding_agent_bridge' */
+  prefix?: string
+  /** Tool calls awaiting their post_tool_use before the oldest is dropped. Default: 1000 */
+  maxPendingTools?: number
+}
+
+/**
+ * Point-in-time values read when metrics are rendered.
+ */
+export interface MetricsSnapshot {
+  sessions: Session[]
+  websocketClients: number
+}
+
+type Labels = Record<string, string>
+
+/** Histogram buckets (seconds) for tmux commands */
+const TMUX_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+
+/** Histogram buckets (seconds) for tool calls */
+const TOOL_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600]
+
+// =============================================================================
+// Primitives
+// =============================================================================
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}`
+}
+
+class Counter {
+  protected values: Map<string, { labels: Labels; value: number }> = new Map()
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels)
+    const entry = this.values.get(key)
+    if (entry) {
+      entry.value += by
+    } else {
+      this.values.set(key, { labels, value: by })
+    }
+  }
+
+  render(name: string): string[] {
+    return Array.from(this.values.values(), ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`)
+  }
+}
+
+class Gauge extends Counter {
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value })
+  }
+}
+
+class Histogram {
+  private values: Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }> = new Map()
+
+  constructor(private bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels)
+    let entry = this.values.get(key)
+    if (!entry) {
+      entry = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 }
+      this.values.set(key, entry)
+    }
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry!.buckets[i]! += 1
+    })
+    entry.sum += value
+    entry.count += 1
+  }
+
+  render(name: string): string[] {
+    const lines: string[] = []
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`)
+      })
+      lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+export class Metrics {
+  private options: Required<MetricsOptions>
+  private events = new Counter()
+  private parseFailures = new Counter()
+  private tmuxCommands = new Histogram(TMUX_BUCKETS)
+  private tmuxFailures = new Counter()
+  private toolDurations = new Histogram(TOOL_BUCKETS)
+  /** pre_tool_use timestamps by tool use ID, oldest first */
+  private pendingTools: Map<string, number> = new Map()
+
+  constructor(options: MetricsOptions = {}) {
+    this.options = {
+      prefix: options.prefix ?? 'coding_agent_bridge',
+      maxPendingTools: options.maxPendingTools ?? 1000,
+    }
+  }
+
+  /**
+   * Count an ingested event. Tool call durations are taken from the
+   * pre_tool_use and post_tool_use timestamps of the same tool use ID.
+   */
+  recordEvent(event: AgentEvent): void {
+    this.events.inc({ type: event.type, agent: event.agent })
+
+    if (event.type === 'pre_tool_use' && event.toolUseId) {
+      this.pendingTools.set(event.toolUseId, event.timestamp)
+      if (this.pendingTools.size > this.options.maxPendingTools) {
+        const oldest = this.pendingTools.keys().next().value
+        if (oldest !== undefined) this.pendingTools.delete(oldest)
+      }
+    } else if (event.type === 'post_tool_use' && event.toolUseId) {
+      const startedAt = this.pendingTools.get(event.toolUseId)
+      if (startedAt === undefined) return
+      this.pendingTools.delete(event.toolUseId)
+      const seconds = Math.max(0, event.timestamp - startedAt) / 1000
+      this.toolDurations.observe({ agent: event.agent, tool: event.tool }, seconds)
+    }
+  }
+
+  /**
+   * Count a hook event the EventProcessor couldn't turn into an event.
+   */
+  recordParseFailure(reason: string): void {
+    this.parseFailures.inc({ reason })
+  }
+
+  /**
+   * Record a tmux command (e.g. `send-keys`) and whether it failed.
+   */
+  recordTmuxCommand(command: string, durationMs: number, error?: Error): void {
+    this.tmuxCommands.observe({ command }, durationMs / 1000)
+    if (error) {
+      this.tmuxFailures.inc({ command })
+    }
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format.
+   */
+  render(snapshot: MetricsSnapshot): string {
+    const sessions = new Gauge()
+    for (const session of snapshot.sessions) {
+      sessions.inc({ status: session.status, agent: session.agent, type: session.type })
+    }
+    const clients = new Gauge()
+    clients.set({}, snapshot.websocketClients)
+
+    const lines: string[] = []
+    const add = (name: string, type: string, help: string, metric: Counter | Histogram) => {
+      const fullName = `${this.options.prefix}_${name}`
+      lines.push(`# HELP ${fullName} ${help}`, `# TYPE ${fullName} ${type}`, ...metric.render(fullName))
+    }
+
+    add('sessions', 'gauge', 'Sessions by status, agent and type', sessions)
+    add('websocket_clients', 'gauge', 'Connected WebSocket clients', clients)
+    add('events_ingested_total', 'counter', 'Events ingested by type and agent', this.events)
+    add('hook_parse_failures_total', 'counter', 'Hook events that could not be parsed, by reason', this.parseFailures)
+    add('tmux_command_duration_seconds', 'histogram', 'tmux command latency by command', this.tmuxCommands)
+    add('tmux_command_failures_total', 'counter', 'Failed tmux commands by command', this.tmuxFailures)
+    add('tool_duration_seconds', 'histogram', 'Tool call duration from pre/post tool events', this.toolDurations)
+
+    return lines.join('\n') + '\n'
+  }
+}
+
+/**
+ * Create a new Metrics instance.
+ */
+export function createMetrics(options?: MetricsOptions): Metrics {
+  return new Metrics(options)
+}
@@ -0,0 +1,179 @@
+/**
+ * OutputWatcher - Tails a session's terminal output log
+ *
+ * Internal sessions' panes are piped (tmux pipe-pane) to a log file. The
+ * watcher polls the log and emits what was appended as chunks with byte
+ * offsets, so clients can resume from the last offset they saw. Unlike
+ * FileWatcher it works on raw bytes: output isn't line-based and may be
+ * mostly escape sequences.
+ */
+
+import { EventEmitter } from 'events'
+import { open, stat } from 'fs/promises'
+
+/** Default maximum bytes per chunk */
+export const DEFAULT_OUTPUT_CHUNK_BYTES = 64 * 1024
+
+export interface OutputWatcherOptions {
+  /** Polling interval in ms. Default: 250 */
+  pollIntervalMs?: number
+  /** Maximum bytes per emitted chunk. Default: 64 KiB */
+  maxChunkBytes?: number
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+/**
+ * Bytes read from an output log.
+ */
+export interface OutputSlice {
+  /** Byte offset of the first byte of `data` */
+  offset: number
+  /** Offset to continue reading from */
+  nextOffset: number
+  /** Log size (bytes) when it was read */
+  size: number
+  data: string
+}
+
+export interface OutputWatcherEvents {
+  data: [slice: OutputSlice]
+  error: [error: Error]
+}
+
+/**
+ * Length of `buffer` without a trailing incomplete UTF-8 sequence.
+ */
+function completeUtf8Length(buffer: Buffer, length: number): number {
+  // Find the lead byte of the last character (at most 3 continuation bytes back)
+  for (let i = length - 1; i >= Math.max(0, length - 4); i--) {
+    const byte = buffer[i]!
+    if ((byte & 0xc0) === 0x80) continue
+    const size = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1
+    return i + size > length ? i : length
+  }
+  return length
+}
+
+/**
+ * Read up to `limit` bytes of an output log from `offset`.
+ * @returns The slice, or null if the log doesn't exist
+ */
+export async function readOutputLog(file: string, offset: number, limit: number): Promise<OutputSlice | null> {
+  let handle
+  try {
+    handle = await open(file, 'r')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+
+  try {
+    const { size } = await handle.stat()
+    const start = Math.min(Math.max(0, offset), size)
+    // At least 4 bytes, so one multi-byte character always fits
+    const buffer = Buffer.alloc(Math.min(Math.max(limit, 4), size - start))
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, start)
+    const length = completeUtf8Length(buffer, bytesRead)
+
+    return {
+      offset: start,
+      nextOffset: start + length,
+      size,
+      data: buffer.toString('utf8', 0, length),
+    }
+  } finally {
+    await handle.close()
+  }
+}
+
+export class OutputWatcher extends EventEmitter {
+  readonly filePath: string
+  private options: Required<OutputWatcherOptions>
+  private position = 0
+  private pollTimer: NodeJS.Timeout | null = null
+  private reading = false
+  private closed = false
+
+  constructor(filePath: string, options: OutputWatcherOptions = {}) {
+    super()
+    this.filePath = filePath
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? 250,
+      maxChunkBytes: options.maxChunkBytes ?? DEFAULT_OUTPUT_CHUNK_BYTES,
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Start watching, from the end of the log (earlier output is read with `readOutputLog`).
+   */
+  async start(): Promise<void> {
+    if (this.pollTimer || this.closed) return
+
+    this.position = await stat(this.filePath).then((stats) => stats.size, () => 0)
+    this.debug('Watching', this.filePath, 'from', this.position)
+
+    this.pollTimer = setInterval(() => {
+      this.poll().catch((err: Error) => this.emit('error', err))
+    }, this.options.pollIntervalMs)
+  }
+
+  /**
+   * Stop watching.
+   */
+  stop(): void {
+    this.closed = true
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+  }
+
+  /**
+   * Get the offset the next chunk will start at.
+   */
+  getPosition(): number {
+    return this.position
+  }
+
+  /**
+   * Emit everything appended since the last poll.
+   */
+  async poll(): Promise<void> {
+    if (this.reading || this.closed) return
+    this.reading = true
+    try {
+      for (;;) {
+        const slice = await readOutputLog(this.filePath, this.position, this.options.maxChunkBytes)
+        if (!slice || this.closed) return
+
+        if (slice.size < this.position) {
+          // Log was truncated or replaced - start over
+          this.debug('Log truncated, resetting position')
+          this.position = 0
+          continue
+        }
+        if (slice.nextOffset === this.position) return
+
+        this.position = slice.nextOffset
+        this.emit('data', slice)
+      }
+    } finally {
+      this.reading = false
+    }
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[OutputWatcher]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new OutputWatcher instance.
+ */
+export function createOutputWatcher(filePath: string, options?: OutputWatcherOptions): OutputWatcher {
+  return new OutputWatcher(filePath, options)
+}
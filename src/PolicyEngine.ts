@@ -0,0 +1,272 @@
+/**
+ * PolicyEngine - Declarative allow/deny/flag rules for tool calls
+ *
+ * Rules come from a bridge-wide policy file and optionally from the session
+ * itself. Session rules are checked first, then bridge rules; the first rule
+ * whose conditions all match decides. Calls no rule matches get the policy's
+ * default action.
+ */
+
+import { readFile } from 'fs/promises'
+import { homedir } from 'os'
+import { isAbsolute, relative, resolve } from 'path'
+import type { PolicyAction, PolicyConfig, PolicyDecision, PolicyRule } from './types.js'
+
+const ACTIONS: PolicyAction[] = ['allow', 'deny', 'flag']
+
+/**
+ * Tool input keys that hold file paths (Read, Edit, Write, Glob, Grep, NotebookEdit).
+ */
+const PATH_KEYS = ['file_path', 'path', 'notebook_path']
+
+export interface PolicyEngineOptions {
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+/**
+ * A tool call to check against the policy.
+ */
+export interface PolicyCheck {
+  tool: string
+  toolInput: Record<string, unknown>
+  /** Session working directory */
+  cwd: string
+}
+
+/**
+ * Convert a glob to a regular expression.
+ * Supports `**` (any characters, including `/`), `*` (within a path segment) and `?`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const slash = glob[i + 2] === '/'
+        source += slash ? '(?:.*/)?' : '.*'
+        i += slash ? 2 : 1
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Validate a list of policy rules.
+ * @throws Error describing the first invalid rule
+ */
+export function validatePolicyRules(value: unknown): PolicyRule[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Policy rules must be an array')
+  }
+
+  return value.map((rule, index) => {
+    const where = `Policy rule ${index + 1}`
+    if (!rule || typeof rule !== 'object') {
+      throw new Error(`${where}: must be an object`)
+    }
+    const r = rule as Record<string, unknown>
+
+    if (!ACTIONS.includes(r.action as PolicyAction)) {
+      throw new Error(`${where}: action must be one of ${ACTIONS.join(', ')}`)
+    }
+    const tools = Array.isArray(r.tool) ? r.tool : [r.tool]
+    if (r.tool !== undefined && !tools.every((t) => typeof t === 'string')) {
+      throw new Error(`${where}: tool must be a string or an array of strings`)
+    }
+    if (r.command !== undefined) {
+      if (typeof r.command !== 'string') {
+        throw new Error(`${where}: command must be a string`)
+      }
+      try {
+        new RegExp(r.command)
+      } catch {
+        throw new Error(`${where}: invalid command pattern: ${r.command}`)
+      }
+    }
+    for (const key of ['id', 'path', 'reason'] as const) {
+      if (r[key] !== undefined && typeof r[key] !== 'string') {
+        throw new Error(`${where}: ${key} must be a string`)
+      }
+    }
+    if (r.outsideCwd !== undefined && typeof r.outsideCwd !== 'boolean') {
+      throw new Error(`${where}: outsideCwd must be a boolean`)
+    }
+
+    return r as unknown as PolicyRule
+  })
+}
+
+/**
+ * Validate the contents of a policy file.
+ * @throws Error describing what is invalid
+ */
+export function validatePolicy(value: unknown): PolicyConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Policy must be an object with a rules array')
+  }
+  const v = value as Record<string, unknown>
+
+  if (v.defaultAction !== undefined && !ACTIONS.includes(v.defaultAction as PolicyAction)) {
+    throw new Error(`Policy defaultAction must be one of ${ACTIONS.join(', ')}`)
+  }
+
+  return {
+    rules: validatePolicyRules(v.rules ?? []),
+    ...(v.defaultAction ? { defaultAction: v.defaultAction as PolicyAction } : {}),
+  }
+}
+
+export class PolicyEngine {
+  private policy: PolicyConfig = { rules: [] }
+  private options: Required<PolicyEngineOptions>
+
+  constructor(options: PolicyEngineOptions = {}) {
+    this.options = {
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Replace the bridge-wide policy.
+   * @throws Error if the policy is invalid
+   */
+  setPolicy(policy: PolicyConfig): void {
+    this.policy = validatePolicy(policy)
+  }
+
+  /**
+   * Get the bridge-wide policy.
+   */
+  getPolicy(): PolicyConfig {
+    return this.policy
+  }
+
+  /**
+   * Load the bridge-wide policy from a JSON file. A missing file means no rules.
+   * @throws Error if the file can't be parsed or the policy is invalid
+   */
+  async load(file: string): Promise<PolicyConfig> {
+    let content: string
+    try {
+      content = await readFile(file, 'utf8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.policy = { rules: [] }
+        return this.policy
+      }
+      throw err
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch {
+      throw new Error(`Invalid JSON in policy file: ${file}`)
+    }
+
+    this.policy = validatePolicy(parsed)
+    this.debug('Loaded', this.policy.rules.length, 'rules from', file)
+    return this.policy
+  }
+
+  /**
+   * Whether there is anything to check (rules or a non-allow default).
+   */
+  isActive(sessionRules?: PolicyRule[]): boolean {
+    return (
+      this.policy.rules.length > 0 ||
+      (this.policy.defaultAction ?? 'allow') !== 'allow' ||
+      (sessionRules?.length ?? 0) > 0
+    )
+  }
+
+  /**
+   * Check a tool call against session rules, then bridge rules.
+   */
+  evaluate(check: PolicyCheck, sessionRules: PolicyRule[] = []): PolicyDecision {
+    for (const rule of [...sessionRules, ...this.policy.rules]) {
+      if (this.matches(rule, check)) {
+        this.debug('Rule matched:', rule.id ?? '(unnamed)', rule.action, check.tool)
+        return {
+          action: rule.action,
+          ...(rule.id ? { ruleId: rule.id } : {}),
+          ...(rule.reason ? { reason: rule.reason } : {}),
+          matched: true,
+        }
+      }
+    }
+
+    return { action: this.policy.defaultAction ?? 'allow', matched: false }
+  }
+
+  private matches(rule: PolicyRule, check: PolicyCheck): boolean {
+    if (rule.tool !== undefined) {
+      const tools = Array.isArray(rule.tool) ? rule.tool : [rule.tool]
+      if (!tools.some((t) => globToRegExp(t).test(check.tool))) return false
+    }
+
+    if (rule.command !== undefined) {
+      const command = check.toolInput.command
+      if (typeof command !== 'string' || !new RegExp(rule.command).test(command)) return false
+    }
+
+    if (rule.path !== undefined || rule.outsideCwd) {
+      const paths = this.extractPaths(check)
+      if (paths.length === 0) return false
+
+      if (rule.path !== undefined) {
+        const pattern = globToRegExp(this.resolvePath(rule.path, check.cwd))
+        if (!paths.some((p) => pattern.test(p))) return false
+      }
+      if (rule.outsideCwd && !paths.some((p) => this.isOutside(p, check.cwd))) return false
+    }
+
+    return true
+  }
+
+  /**
+   * Absolute file paths referenced by the tool input.
+   */
+  private extractPaths(check: PolicyCheck): string[] {
+    return PATH_KEYS.map((key) => check.toolInput[key])
+      .filter((value): value is string => typeof value === 'string' && value !== '')
+      .map((value) => this.resolvePath(value, check.cwd))
+  }
+
+  /**
+   * Make a tool path or rule glob absolute and normalized, so `..` segments
+   * can't step around a rule.
+   */
+  private resolvePath(path: string, cwd: string): string {
+    if (path === '~') return homedir()
+    if (path.startsWith('~/')) return resolve(homedir(), path.slice(2))
+    return resolve(cwd, path)
+  }
+
+  private isOutside(path: string, cwd: string): boolean {
+    const rel = relative(resolve(cwd), resolve(path))
+    return rel === '..' || rel.startsWith('../') || isAbsolute(rel)
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[PolicyEngine]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new PolicyEngine instance.
+ */
+export function createPolicyEngine(options?: PolicyEngineOptions): PolicyEngine {
+  return new PolicyEngine(options)
+}
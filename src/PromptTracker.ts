@@ -0,0 +1,248 @@
+/**
+ * PromptTracker - Correlates bridge prompts with the turns they produce
+ *
+ * Each prompt sent through the bridge gets an ID. Once the prompt is pasted
+ * into the agent, events for that session are tagged with the prompt ID until
+ * the agent stops. Callers can wait for a prompt's turn to finish and get its
+ * final assistant text, tool calls and duration.
+ */
+
+import type { AgentEvent, PromptResult, PromptToolSummary } from './types.js'
+
+/**
+ * Default time (ms) to wait for a prompt's turn to finish.
+ */
+export const DEFAULT_PROMPT_TIMEOUT_MS = 10 * 60 * 1000
+
+export interface PromptTrackerOptions {
+  /**
+   * Time (ms) to keep collecting assistant messages after `stop`.
+   * Transcript lines can land shortly after the stop hook fires.
+   */
+  settleMs?: number
+  /** Number of finished results kept for late waiters */
+  maxCompleted?: number
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+interface Turn {
+  promptId: string
+  sessionId: string
+  startedAt?: number
+  stoppedAt?: number
+  text: string
+  tools: PromptToolSummary[]
+  settleTimer?: NodeJS.Timeout
+  waiters: Array<{ resolve: (result: PromptResult) => void; reject: (err: Error) => void }>
+}
+
+export class PromptTracker {
+  private turns: Map<string, Turn> = new Map()
+  /** Prompt ID of each session's running turn */
+  private runningBySession: Map<string, string> = new Map()
+  /** Prompt ID of each session's stopped turn still collecting late assistant messages */
+  private settlingBySession: Map<string, string> = new Map()
+  private completed: Map<string, PromptResult> = new Map()
+  private options: Required<PromptTrackerOptions>
+
+  constructor(options: PromptTrackerOptions = {}) {
+    this.options = {
+      settleMs: options.settleMs ?? 500,
+      maxCompleted: options.maxCompleted ?? 100,
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Register a prompt that has been accepted (sent or queued).
+   */
+  add(promptId: string, sessionId: string): void {
+    this.turns.set(promptId, {
+      promptId,
+      sessionId,
+      text: '',
+      tools: [],
+      waiters: [],
+    })
+  }
+
+  /**
+   * Mark a prompt as delivered to the agent - its turn starts now.
+   */
+  begin(promptId: string): void {
+    const turn = this.turns.get(promptId)
+    if (!turn) return
+
+    // A new turn supersedes a running one that never stopped
+    const previous = this.runningBySession.get(turn.sessionId)
+    if (previous && previous !== promptId) {
+      this.finish(previous)
+    }
+
+    turn.startedAt = Date.now()
+    this.runningBySession.set(turn.sessionId, promptId)
+    this.debug('Turn started:', promptId)
+  }
+
+  /**
+   * Tag an event with the prompt whose turn produced it and record it.
+   */
+  track(sessionId: string, event: AgentEvent): void {
+    // Late assistant messages belong to the turn that just stopped
+    const promptId =
+      (event.type === 'assistant_message' && this.settlingBySession.get(sessionId)) ||
+      this.runningBySession.get(sessionId)
+    const turn = promptId ? this.turns.get(promptId) : undefined
+    if (!turn) return
+
+    event.promptId = turn.promptId
+
+    switch (event.type) {
+      case 'pre_tool_use':
+        turn.tools.push({ tool: event.tool, toolUseId: event.toolUseId })
+        break
+      case 'post_tool_use': {
+        const call = turn.tools.find((t) => t.toolUseId === event.toolUseId)
+        if (call) {
+          call.success = event.success
+        } else {
+          turn.tools.push({ tool: event.tool, toolUseId: event.toolUseId, success: event.success })
+        }
+        break
+      }
+      case 'assistant_message': {
+        const text = event.content
+          .filter((b) => b.type === 'text' && b.text?.trim())
+          .map((b) => b.text)
+          .join('\n')
+        if (text) {
+          turn.text = text
+        }
+        break
+      }
+      case 'stop':
+      case 'session_end':
+        turn.stoppedAt = Date.now()
+        this.runningBySession.delete(sessionId)
+        this.settlingBySession.set(sessionId, turn.promptId)
+        turn.settleTimer = setTimeout(() => this.finish(turn.promptId), this.options.settleMs)
+        break
+    }
+  }
+
+  /**
+   * Drop a prompt that will never run (e.g. removed from the queue).
+   */
+  cancel(promptId: string, reason: string): void {
+    const turn = this.turns.get(promptId)
+    if (!turn) return
+
+    this.removeTurn(turn)
+    for (const waiter of turn.waiters) {
+      waiter.reject(new Error(reason))
+    }
+  }
+
+  /**
+   * Drop all of a session's prompts (e.g. the session was deleted).
+   */
+  cancelSession(sessionId: string, reason: string): void {
+    for (const turn of Array.from(this.turns.values())) {
+      if (turn.sessionId === sessionId) {
+        this.cancel(turn.promptId, reason)
+      }
+    }
+  }
+
+  /**
+   * Wait for a prompt's turn to finish.
+   * @throws Error if the prompt is unknown, cancelled, or the timeout elapses
+   */
+  wait(promptId: string, timeoutMs: number): Promise<PromptResult> {
+    const done = this.completed.get(promptId)
+    if (done) return Promise.resolve(done)
+
+    const turn = this.turns.get(promptId)
+    if (!turn) return Promise.reject(new Error(`Unknown prompt: ${promptId}`))
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        resolve: (result: PromptResult) => {
+          clearTimeout(timer)
+          resolve(result)
+        },
+        reject: (err: Error) => {
+          clearTimeout(timer)
+          reject(err)
+        },
+      }
+      const timer = setTimeout(() => {
+        turn.waiters = turn.waiters.filter((w) => w !== waiter)
+        reject(new Error(`Timed out waiting for prompt: ${promptId}`))
+      }, timeoutMs)
+
+      turn.waiters.push(waiter)
+    })
+  }
+
+  /**
+   * Cancel all pending prompts and timers.
+   */
+  clear(): void {
+    for (const turn of Array.from(this.turns.values())) {
+      this.cancel(turn.promptId, 'Prompt tracking stopped')
+    }
+    this.completed.clear()
+  }
+
+  private finish(promptId: string): void {
+    const turn = this.turns.get(promptId)
+    if (!turn) return
+
+    this.removeTurn(turn)
+
+    const result: PromptResult = {
+      promptId,
+      sessionId: turn.sessionId,
+      text: turn.text,
+      tools: turn.tools,
+      durationMs: (turn.stoppedAt ?? Date.now()) - (turn.startedAt ?? Date.now()),
+    }
+
+    this.completed.set(promptId, result)
+    if (this.completed.size > this.options.maxCompleted) {
+      const oldest = this.completed.keys().next().value
+      if (oldest !== undefined) this.completed.delete(oldest)
+    }
+
+    this.debug('Turn finished:', promptId)
+    for (const waiter of turn.waiters) {
+      waiter.resolve(result)
+    }
+  }
+
+  private removeTurn(turn: Turn): void {
+    clearTimeout(turn.settleTimer)
+    this.turns.delete(turn.promptId)
+    if (this.runningBySession.get(turn.sessionId) === turn.promptId) {
+      this.runningBySession.delete(turn.sessionId)
+    }
+    if (this.settlingBySession.get(turn.sessionId) === turn.promptId) {
+      this.settlingBySession.delete(turn.sessionId)
+    }
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[PromptTracker]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a PromptTracker instance.
+ */
+export function createPromptTracker(options?: PromptTrackerOptions): PromptTracker {
+  return new PromptTracker(options)
+}
@@ -6,18 +6,63 @@
 
 import { EventEmitter } from 'events'
 import { createServer as createHttpServer, IncomingMessage, ServerResponse, Server as HttpServer } from 'http'
+import { createServer as createHttpsServer } from 'https'
+import { connect } from 'net'
+import { existsSync } from 'fs'
+import { chmod, mkdir, readFile, rm } from 'fs/promises'
+import { dirname } from 'path'
+import { fileURLToPath } from 'url'
 import { WebSocketServer, WebSocket } from 'ws'
-import type { AgentEvent, Session, CreateSessionOptions, SessionFilter } from './types.js'
+import { randomUUID } from 'crypto'
+import type {
+  AgentEvent,
+  Session,
+  CreateSessionOptions,
+  SessionFilter,
+  ApprovalDecision,
+  ApprovalResolution,
+  PendingApproval,
+  EventPage,
+  EventQuery,
+  EventType,
+  ImageInput,
+  OutputChunk,
+  TlsOptions,
+  TokenScope,
+} from './types.js'
 import type { SessionManager } from './SessionManager.js'
+import type { ApprovalManager } from './ApprovalManager.js'
+import type { EventStore } from './EventStore.js'
+import { TOKEN_SCOPES } from './TokenStore.js'
+import type { TokenStore } from './TokenStore.js'
+import type { HookVerifier } from './HookVerifier.js'
+import type { Metrics } from './Metrics.js'
+import type { DeliveryQuery, WebhookManager } from './WebhookManager.js'
+import type { WSCommandType, WSSubscribeData } from './websocket-types.js'
 import type { ProcessedEvent } from './EventProcessor.js'
+import { DEFAULT_PROMPT_TIMEOUT_MS } from './PromptTracker.js'
+import { createOpenApiDocument, validate } from './openapi.js'
 
 export interface ServerConfig {
   /** Port to listen on. Default: 4003 */
   port?: number
   /** Host to bind to. Default: '127.0.0.1' */
   host?: string
+  /** Listen on TCP (`host`/`port`). Default: true */
+  tcp?: boolean
+  /**
+   * Also listen on this Unix domain socket (created with mode 0600). File
+   * permissions are its access control, so socket clients don't need tokens.
+   */
+  socketPath?: string
+  /** Serve HTTPS/WSS on the TCP listener */
+  tls?: TlsOptions | null
+  /** Serve the bundled web dashboard at `/`. Default: false */
+  dashboard?: boolean
   /** Allowed origins for CORS. Default: ['http://localhost:*', 'https://localhost:*'] */
   allowedOrigins?: string[]
+  /** Number of recent broadcasts kept for WebSocket `resume`. Default: 1000 */
+  replayBufferSize?: number
   /** Enable debug logging */
   debug?: boolean
 }
@@ -44,29 +89,54 @@ function sendError(res: ServerResponse, message: string, status = 400): void {
   sendJson(res, { error: message }, status)
 }
 
+/** Largest request body accepted */
+const MAX_BODY_BYTES = 10 * 1024 * 1024
+
 /**
- * Parse JSON body from request
+ * Read the raw request body (null if it exceeds 10MB or the request fails).
+ * Oversized requests are destroyed rather than read to the end.
  */
-async function parseBody<T>(req: IncomingMessage): Promise<T | null> {
+async function readBody(req: IncomingMessage): Promise<Buffer | null> {
   return new Promise((resolve) => {
-    let body = ''
-    req.on('data', (chunk) => {
-      body += chunk
-      // Limit body size to 10MB
-      if (body.length > 10 * 1024 * 1024) {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
         resolve(null)
+        req.destroy()
+        return
       }
+      chunks.push(chunk)
     })
     req.on('end', () => {
-      try {
-        resolve(JSON.parse(body) as T)
-      } catch {
-        resolve(null)
-      }
+      resolve(Buffer.concat(chunks))
+    })
+    req.on('error', () => {
+      resolve(null)
     })
   })
 }
 
+/**
+ * Parse a JSON body, or null if it isn't valid
+ */
+function parseJson<T>(raw: Buffer | null): T | null {
+  if (raw === null) return null
+  try {
+    return JSON.parse(raw.toString('utf8')) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse JSON body from request
+ */
+async function parseBody<T>(req: IncomingMessage): Promise<T | null> {
+  return parseJson<T>(await readBody(req))
+}
+
 /**
  * Match origin against allowed patterns
  */
@@ -87,28 +157,243 @@ function matchOrigin(origin: string, patterns: string[]): boolean {
   return false
 }
 
-/** Callback type for processing raw events from POST /event */
+/**
+ * Check whether an Origin header names the host the request was sent to
+ */
+function isSameOrigin(origin: string, host: string | undefined): boolean {
+  try {
+    return new URL(origin).host === host
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Remove a socket file left behind by a server that didn't shut down cleanly
+ * @throws Error if another server is still listening on it
+ */
+async function removeStaleSocket(path: string): Promise<void> {
+  if (!existsSync(path)) return
+
+  const inUse = await new Promise<boolean>((resolve) => {
+    const socket = connect(path)
+    socket.once('connect', () => {
+      socket.destroy()
+      resolve(true)
+    })
+    socket.once('error', () => resolve(false))
+  })
+  if (inUse) {
+    throw new Error(`Socket already in use: ${path}`)
+  }
+  await rm(path, { force: true })
+}
+
+/**
+ * Time (ms) a WebSocket client has to send `auth` when it connected without a token
+ */
+const WS_AUTH_TIMEOUT_MS = 10000
+
+/**
+ * Most output bytes one GET /sessions/:id/output request returns
+ */
+const MAX_OUTPUT_READ_BYTES = 1024 * 1024
+
+/**
+ * Largest terminal size `terminal_attach` and `terminal_resize` accept
+ */
+const MAX_TERMINAL_SIZE = 1000
+
+/**
+ * Most terminal input sent in one send-keys (tmux gets it as a single argument)
+ */
+const MAX_TERMINAL_INPUT_CHUNK = 16 * 1024
+
+/**
+ * Clients attached to a session's terminal with `terminal_attach`
+ */
+interface TerminalChannel {
+  viewers: Set<WebSocket>
+  /** The one viewer whose input and resizes are applied */
+  writer: WebSocket | null
+  /** Terminal size, as of the last snapshot or resize */
+  cols: number
+  rows: number
+  /** Input received while a send-keys is running, sent after it in one go */
+  pendingInput: string
+  sending: boolean
+}
+
+/**
+ * A client's `subscribe_output` stream for one session
+ */
+interface OutputStream {
+  /** Next byte offset to send */
+  cursor: number
+  /** Whether a catch-up read is in flight */
+  pumping: boolean
+  /** Output arrived during the catch-up read, so read again after it */
+  stale: boolean
+}
+
+/**
+ * Bundled dashboard page (`dashboard/` sits next to both `src/` and `dist/`)
+ */
+const DASHBOARD_FILE = fileURLToPath(new URL('../dashboard/index.html', import.meta.url))
+
+/**
+ * Scope a REST route requires (null for public routes)
+ */
+function requiredScope(method: string, pathname: string): TokenScope | null {
+  if (pathname === '/' || pathname === '/health' || pathname === '/openapi.json') return null
+  // Hook script callbacks
+  if (method === 'POST' && (pathname === '/event' || pathname === '/approvals')) {
+    return 'hook-ingest'
+  }
+  return method === 'GET' ? 'read' : 'control'
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+function bearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  return match?.[1]
+}
+
+/**
+ * What a broadcast message is about, for subscription filtering
+ */
+interface BroadcastTarget {
+  sessionId?: string
+  agent?: string
+  sessionType?: string
+  eventType?: string
+}
+
+/**
+ * Check a broadcast against a client's subscription (empty or missing lists match everything)
+ */
+function matchesSubscription(subscription: WSSubscribeData, target: BroadcastTarget): boolean {
+  const allows = (list: string[] | undefined, value: string | undefined): boolean =>
+    !list || list.length === 0 || (value !== undefined && list.includes(value))
+
+  return (
+    allows(subscription.sessions, target.sessionId) &&
+    allows(subscription.agents, target.agent) &&
+    allows(subscription.sessionTypes, target.sessionType) &&
+    // Event type filters only apply to agent events
+    (target.eventType === undefined || allows(subscription.eventTypes, target.eventType))
+  )
+}
+
+/**
+ * Normalize subscribe message data, dropping anything that isn't a string list
+ */
+function parseSubscription(data: unknown): WSSubscribeData {
+  const request = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>
+  const subscription: WSSubscribeData = {}
+  for (const key of ['sessions', 'eventTypes', 'agents', 'sessionTypes'] as const) {
+    const value = request[key]
+    if (Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'string')) {
+      ;(subscription as Record<string, string[]>)[key] = value
+    }
+  }
+  return subscription
+}
+
+/**
+ * Outcome of a session command. The same commands back the REST routes and
+ * WebSocket RPC messages; `status` is the HTTP status REST responds with.
+ */
+type CommandResult =
+  | { ok: true; data: unknown; status?: number }
+  | { ok: false; error: string; status: number }
+
+function commandError(error: string, status = 400): CommandResult {
+  return { ok: false, error, status }
+}
+
+/**
+ * Read a terminal size from `terminal_attach` or `terminal_resize`
+ */
+function parseTerminalSize(cols: unknown, rows: unknown): { cols: number; rows: number } | null {
+  const valid = (n: unknown): n is number => Number.isInteger(n) && (n as number) >= 1 && (n as number) <= MAX_TERMINAL_SIZE
+  return valid(cols) && valid(rows) ? { cols, rows } : null
+}
+
+/**
+ * Read a request body or WebSocket message data as an object
+ */
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null
+}
+
+/**
+ * Callback type for ingesting raw events from POST /event. The callback owns
+ * publishing (and broadcasting) the event; returns null if it was dropped.
+ */
 export type EventProcessorCallback = (rawEvent: unknown) => AgentEvent | null
 
+/**
+ * Callback type for blocking tool checks from POST /approvals (null if not a tool call).
+ * Resolves with the policy or client decision for the hook.
+ */
+export type ApprovalRequestCallback = (
+  rawEvent: unknown
+) => Promise<Pick<ApprovalResolution, 'decision' | 'reason'> | null>
+
 export class BridgeServer extends EventEmitter {
-  private config: Required<ServerConfig>
-  private httpServer: HttpServer | null = null
+  private config: Required<Omit<ServerConfig, 'socketPath'>> & Pick<ServerConfig, 'socketPath'>
+  /** TCP and Unix socket listeners */
+  private httpServers: HttpServer[] = []
   private wss: WebSocketServer | null = null
   private clients: Set<WebSocket> = new Set()
+  /** Scopes of each authenticated client */
+  private clientScopes: Map<WebSocket, TokenScope[]> = new Map()
+  /** Per-client subscription filters (clients without one receive everything) */
+  private subscriptions: Map<WebSocket, WSSubscribeData> = new Map()
+  /** Per-client terminal output streams, by session ID */
+  private outputStreams: Map<WebSocket, Map<string, OutputStream>> = new Map()
+  /** Attached terminal clients, by session ID */
+  private terminals: Map<string, TerminalChannel> = new Map()
+  /** Identifies this server run; sequence numbers restart with each epoch */
+  private readonly epoch = randomUUID()
+  /** Last sequence number assigned to a broadcast */
+  private seq = 0
+  /** Recent broadcasts for `resume`, oldest first */
+  private replay: Array<{ seq: number; message: string; target: BroadcastTarget }> = []
+  /** Highest sequence number evicted from the replay buffer */
+  private replayFloor = 0
   private sessionManager: SessionManager | null = null
   private eventProcessor: EventProcessorCallback | null = null
+  private approvalManager: ApprovalManager | null = null
+  private approvalRequestHandler: ApprovalRequestCallback | null = null
+  private eventStore: EventStore | null = null
+  private tokenStore: TokenStore | null = null
+  private hookVerifier: HookVerifier | null = null
+  private metrics: Metrics | null = null
+  private webhookManager: WebhookManager | null = null
+  private dashboardHtml: Promise<string> | null = null
 
   constructor(config: ServerConfig = {}) {
     super()
     this.config = {
       port: config.port ?? 4003,
       host: config.host ?? '127.0.0.1',
+      tcp: config.tcp ?? true,
+      socketPath: config.socketPath,
+      tls: config.tls ?? null,
+      dashboard: config.dashboard ?? false,
       allowedOrigins: config.allowedOrigins ?? [
         'http://localhost:*',
         'https://localhost:*',
         'http://127.0.0.1:*',
         'https://127.0.0.1:*',
       ],
+      replayBufferSize: config.replayBufferSize ?? 1000,
       debug: config.debug ?? false,
     }
   }
@@ -121,51 +406,133 @@ export class BridgeServer extends EventEmitter {
   }
 
   /**
-   * Set the event processor callback for transforming raw POST /event data
+   * Set the callback that ingests raw POST /event data
    */
   setEventProcessor(processor: EventProcessorCallback): void {
     this.eventProcessor = processor
   }
 
+  /**
+   * Set the event store backing GET /events and WebSocket `get_history`
+   */
+  setEventStore(store: EventStore): void {
+    this.eventStore = store
+  }
+
+  /**
+   * Require bearer tokens (once the store has any) for REST and WebSocket
+   */
+  setTokenStore(store: TokenStore): void {
+    this.tokenStore = store
+  }
+
+  /**
+   * Require hook callbacks (POST /event, POST /approvals) to be signed
+   */
+  setHookVerifier(verifier: HookVerifier | null): void {
+    this.hookVerifier = verifier
+  }
+
+  /**
+   * Serve GET /metrics from these metrics
+   */
+  setMetrics(metrics: Metrics): void {
+    this.metrics = metrics
+  }
+
+  /**
+   * Enable GET /webhooks and GET /webhooks/deliveries
+   */
+  setWebhookManager(manager: WebhookManager): void {
+    this.webhookManager = manager
+  }
+
+  /**
+   * Enable approval endpoints: the manager backs GET/POST /approvals/:id and
+   * the handler answers blocking hook requests to POST /approvals
+   */
+  setApprovalManager(manager: ApprovalManager, requestHandler: ApprovalRequestCallback): void {
+    this.approvalManager = manager
+    this.approvalRequestHandler = requestHandler
+  }
+
   /**
    * Start the server
    */
   async start(): Promise<void> {
-    if (this.httpServer) {
+    if (this.wss) {
       return
     }
+    if (!this.config.tcp && !this.config.socketPath) {
+      throw new Error('Server needs a TCP listener or a socketPath')
+    }
 
-    this.httpServer = createHttpServer((req, res) => {
-      this.handleRequest(req, res)
-    })
+    // One WebSocket server shared by all listeners
+    this.wss = new WebSocketServer({ noServer: true })
+
+    try {
+      if (this.config.tcp) {
+        const tls = this.config.tls
+        const server = tls
+          ? createHttpsServer({ cert: await readFile(tls.cert), key: await readFile(tls.key) })
+          : createHttpServer()
+        await this.listen(server, false, (done) => server.listen(this.config.port, this.config.host, done))
+        this.debug('Server listening on', this.config.host, ':', this.config.port, tls ? '(TLS)' : '')
+        this.emit('listening', this.config.port, this.config.host)
+      }
 
-    // Set up WebSocket server
-    this.wss = new WebSocketServer({ server: this.httpServer as HttpServer })
+      const socketPath = this.config.socketPath
+      if (socketPath) {
+        await mkdir(dirname(socketPath), { recursive: true })
+        await removeStaleSocket(socketPath)
+        const server = createHttpServer()
+        await this.listen(server, true, (done) => server.listen(socketPath, done))
+        await chmod(socketPath, 0o600)
+        this.debug('Server listening on', socketPath)
+      }
+    } catch (err) {
+      await this.stop()
+      throw err
+    }
+  }
 
-    this.wss.on('connection', (ws, req) => {
-      this.handleWebSocketConnection(ws, req)
+  /**
+   * Route a listener's requests and WebSocket upgrades, and start it.
+   * Requests from `local` (Unix socket) listeners skip token checks.
+   */
+  private async listen(server: HttpServer, local: boolean, listen: (done: () => void) => void): Promise<void> {
+    server.on('request', (req: IncomingMessage, res: ServerResponse) => {
+      this.handleRequest(req, res, local)
+    })
+    server.on('upgrade', (req: IncomingMessage, socket, head) => {
+      this.wss?.handleUpgrade(req, socket, head, (ws) => {
+        this.handleWebSocketConnection(ws, req, local)
+      })
     })
 
-    // Start listening
-    return new Promise((resolve, reject) => {
-      this.httpServer!.once('error', reject)
-      this.httpServer!.listen(this.config.port, this.config.host, () => {
-        this.debug('Server listening on', this.config.host, ':', this.config.port)
-        this.emit('listening', this.config.port, this.config.host)
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      listen(() => {
+        server.off('error', reject)
         resolve()
       })
     })
+    this.httpServers.push(server)
   }
 
   /**
    * Stop the server
    */
   async stop(): Promise<void> {
-    // Close all WebSocket connections
-    for (const client of this.clients) {
+    // Close all WebSocket connections, including ones still authenticating
+    for (const client of this.wss?.clients ?? []) {
       client.close()
     }
     this.clients.clear()
+    this.clientScopes.clear()
+    this.subscriptions.clear()
+    this.outputStreams.clear()
+    this.terminals.clear()
 
     // Close WebSocket server
     if (this.wss) {
@@ -173,15 +540,12 @@ export class BridgeServer extends EventEmitter {
       this.wss = null
     }
 
-    // Close HTTP server
-    if (this.httpServer) {
-      return new Promise((resolve) => {
-        this.httpServer!.close(() => {
-          this.httpServer = null
-          this.emit('close')
-          resolve()
-        })
-      })
+    // Close listeners (Unix socket files are removed on close)
+    const servers = this.httpServers
+    this.httpServers = []
+    if (servers.length > 0) {
+      await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))))
+      this.emit('close')
     }
   }
 
@@ -195,34 +559,127 @@ export class BridgeServer extends EventEmitter {
       ? (event as ProcessedEvent).event
       : event
 
-    const message = JSON.stringify({
-      type: 'event',
-      data: eventData,
+    this.sendToSubscribers({ type: 'event', data: eventData }, {
+      sessionId: eventData.sessionId,
+      agent: eventData.agent,
+      sessionType: this.sessionManager?.getSession(eventData.sessionId)?.type,
+      eventType: eventData.type,
     })
+  }
 
-    for (const client of this.clients) {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message)
+  /**
+   * Broadcast a session update to all connected clients
+   */
+  broadcastSessionUpdate(session: Session, updateType: 'created' | 'updated' | 'deleted' | 'status' | 'queue'): void {
+    if (updateType === 'deleted') {
+      for (const streams of this.outputStreams.values()) {
+        streams.delete(session.id)
       }
+      this.terminals.delete(session.id)
     }
+    this.sendToSubscribers({ type: `session:${updateType}`, data: session }, {
+      sessionId: session.id,
+      agent: session.agent,
+      sessionType: session.type,
+    })
   }
 
   /**
-   * Broadcast a session update to all connected clients
+   * Broadcast an approval request or decision to all connected clients
    */
-  broadcastSessionUpdate(session: Session, updateType: 'created' | 'updated' | 'deleted' | 'status'): void {
-    const message = JSON.stringify({
-      type: `session:${updateType}`,
-      data: session,
+  broadcastApproval(
+    updateType: 'requested' | 'resolved',
+    approval: PendingApproval | ApprovalResolution
+  ): void {
+    this.sendToSubscribers({ type: `approval:${updateType}`, data: approval }, {
+      sessionId: approval.sessionId,
+      agent: approval.agent,
+      sessionType: this.sessionManager?.getSession(approval.sessionId)?.type,
     })
+  }
 
-    for (const client of this.clients) {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message)
+  /**
+   * Send new terminal output to the clients streaming the session. Output
+   * isn't kept for `resume`; clients resubscribe from their last offset.
+   */
+  broadcastOutput(chunk: OutputChunk): void {
+    for (const [client, streams] of this.outputStreams) {
+      const stream = streams.get(chunk.sessionId)
+      if (!stream || stream.cursor >= chunk.nextOffset) continue
+
+      if (stream.pumping) {
+        stream.stale = true
+      } else if (stream.cursor === chunk.offset) {
+        stream.cursor = chunk.nextOffset
+        this.sendTo(client, { type: 'output', data: chunk })
+      } else {
+        // Behind (or mid-chunk) - read the gap from the log instead
+        this.pumpOutput(client, chunk.sessionId, stream)
       }
     }
   }
 
+  /**
+   * Send a client everything in the session's log from its cursor on
+   */
+  private pumpOutput(ws: WebSocket, sessionId: string, stream: OutputStream): void {
+    if (!this.sessionManager || stream.pumping) return
+    const manager = this.sessionManager
+    stream.pumping = true
+    stream.stale = false
+
+    const pump = async (): Promise<void> => {
+      for (;;) {
+        const chunk = await manager.readOutput(sessionId, stream.cursor)
+        // Stop once caught up, unsubscribed or disconnected
+        if (!chunk || chunk.nextOffset === stream.cursor) return
+        if (this.outputStreams.get(ws)?.get(sessionId) !== stream) return
+
+        stream.cursor = chunk.nextOffset
+        this.sendTo(ws, { type: 'output', data: chunk })
+      }
+    }
+
+    pump()
+      .catch((err) => this.debug('Failed to read output:', err))
+      .finally(() => {
+        stream.pumping = false
+        if (stream.stale) this.pumpOutput(ws, sessionId, stream)
+      })
+  }
+
+  /**
+   * Send a message to every open client whose subscription matches, and keep
+   * it for clients that resume later
+   */
+  private sendToSubscribers(payload: { type: string; data: unknown }, target: BroadcastTarget): void {
+    const seq = ++this.seq
+    const message = JSON.stringify({ ...payload, seq })
+
+    this.replay.push({ seq, message, target })
+    if (this.replay.length > this.config.replayBufferSize) {
+      this.replayFloor = this.replay.shift()!.seq
+    }
+
+    for (const client of this.clients) {
+      if (client.readyState !== WebSocket.OPEN) continue
+
+      const subscription = this.subscriptions.get(client)
+      if (subscription && !matchesSubscription(subscription, target)) continue
+
+      client.send(message)
+    }
+  }
+
+  /**
+   * Send a message to one client. Only broadcasts are numbered, so replies
+   * don't leave gaps in other clients' sequences.
+   */
+  private sendTo(ws: WebSocket, payload: { type: string; id?: string; data?: unknown; [field: string]: unknown }): void {
+    if (ws.readyState !== WebSocket.OPEN) return
+    ws.send(JSON.stringify(payload))
+  }
+
   /**
    * Get the number of connected clients
    */
@@ -233,7 +690,7 @@ export class BridgeServer extends EventEmitter {
   /**
    * Handle HTTP request
    */
-  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  private async handleRequest(req: IncomingMessage, res: ServerResponse, local = false): Promise<void> {
     const url = new URL(req.url || '/', `http://${req.headers.host}`)
     const method = req.method?.toUpperCase() || 'GET'
     const pathname = url.pathname
@@ -242,8 +699,8 @@ export class BridgeServer extends EventEmitter {
     const origin = req.headers.origin
     if (origin && matchOrigin(origin, this.config.allowedOrigins)) {
       res.setHeader('Access-Control-Allow-Origin', origin)
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS')
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
       res.setHeader('Access-Control-Max-Age', '86400')
     }
 
@@ -257,6 +714,18 @@ export class BridgeServer extends EventEmitter {
     this.debug(method, pathname)
 
     try {
+      const scope = requiredScope(method, pathname)
+      if (scope && !local) {
+        const scopes = await this.authenticate(bearerToken(req.headers.authorization))
+        if (!scopes) {
+          res.setHeader('WWW-Authenticate', 'Bearer')
+          return sendError(res, 'Unauthorized', 401)
+        }
+        if (!scopes.includes(scope)) {
+          return sendError(res, `Token lacks the '${scope}' scope`, 403)
+        }
+      }
+
       // Health check
       if (pathname === '/health' && method === 'GET') {
         return sendJson(res, {
@@ -266,6 +735,31 @@ export class BridgeServer extends EventEmitter {
         })
       }
 
+      // Web dashboard
+      if (pathname === '/' && method === 'GET' && this.config.dashboard) {
+        this.dashboardHtml ??= readFile(DASHBOARD_FILE, 'utf-8')
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-cache' })
+        res.end(await this.dashboardHtml)
+        return
+      }
+
+      // OpenAPI document
+      if (pathname === '/openapi.json' && method === 'GET') {
+        return sendJson(res, createOpenApiDocument())
+      }
+
+      // Prometheus metrics
+      if (pathname === '/metrics' && method === 'GET' && this.metrics) {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+        res.end(
+          this.metrics.render({
+            sessions: this.sessionManager?.listSessions() ?? [],
+            websocketClients: this.clients.size,
+          })
+        )
+        return
+      }
+
       // Sessions API
       if (pathname === '/sessions') {
         if (method === 'GET') {
@@ -298,7 +792,7 @@ export class BridgeServer extends EventEmitter {
         const action = actionMatch[2]
 
         if (action === 'prompt' && method === 'POST') {
-          return this.handleSendPrompt(req, res, sessionId)
+          return this.handleSendPrompt(req, res, sessionId, url)
         }
         if (action === 'cancel' && method === 'POST') {
           return this.handleCancelSession(res, sessionId)
@@ -306,6 +800,25 @@ export class BridgeServer extends EventEmitter {
         if (action === 'restart' && method === 'POST') {
           return this.handleRestartSession(res, sessionId)
         }
+        if (action === 'queue' && method === 'GET') {
+          return this.handleGetQueue(res, sessionId)
+        }
+        if (action === 'queue' && method === 'PUT') {
+          return this.handleReorderQueue(req, res, sessionId)
+        }
+        if (action === 'output' && method === 'GET') {
+          return this.handleGetOutput(res, sessionId, url)
+        }
+      }
+
+      // Queued prompt by ID
+      const queueItemMatch = pathname.match(/^\/sessions\/([^/]+)\/queue\/([^/]+)$/)
+      if (queueItemMatch && queueItemMatch[1] && queueItemMatch[2] && method === 'DELETE') {
+        return this.handleRemoveQueuedPrompt(
+          res,
+          decodeURIComponent(queueItemMatch[1]),
+          decodeURIComponent(queueItemMatch[2])
+        )
       }
 
       // Event endpoint (for hook callbacks)
@@ -313,6 +826,34 @@ export class BridgeServer extends EventEmitter {
         return this.handleEventPost(req, res)
       }
 
+      // Event history
+      if (pathname === '/events' && method === 'GET') {
+        return this.handleGetEvents(res, url)
+      }
+
+      // Approvals API
+      if (pathname === '/approvals') {
+        if (method === 'GET') {
+          return this.handleListApprovals(res, url)
+        }
+        if (method === 'POST') {
+          return this.handleApprovalRequest(req, res)
+        }
+      }
+
+      const approvalMatch = pathname.match(/^\/approvals\/([^/]+)$/)
+      if (approvalMatch && approvalMatch[1] && method === 'POST') {
+        return this.handleResolveApproval(req, res, decodeURIComponent(approvalMatch[1]))
+      }
+
+      // Webhooks API
+      if (pathname === '/webhooks' && method === 'GET') {
+        return this.handleListWebhooks(res)
+      }
+      if (pathname === '/webhooks/deliveries' && method === 'GET') {
+        return this.handleListDeliveries(res, url)
+      }
+
       // Not found
       sendError(res, 'Not found', 404)
     } catch (err) {
@@ -324,111 +865,750 @@ export class BridgeServer extends EventEmitter {
   /**
    * Handle WebSocket connection
    */
-  private handleWebSocketConnection(ws: WebSocket, req: IncomingMessage): void {
+  private handleWebSocketConnection(ws: WebSocket, req: IncomingMessage, local = false): void {
     // Validate origin
     const origin = req.headers.origin
-    if (origin && !matchOrigin(origin, this.config.allowedOrigins)) {
+    if (origin && !matchOrigin(origin, this.config.allowedOrigins) && !isSameOrigin(origin, req.headers.host)) {
       this.debug('Rejected WebSocket from origin:', origin)
       ws.close(4003, 'Origin not allowed')
       return
     }
 
-    this.debug('WebSocket connected')
-    this.clients.add(ws)
-    this.emit('connection', ws)
+    let authTimer: NodeJS.Timeout | undefined
+
+    // Messages are handled in order, after the connection is authenticated
+    const authenticated = local
+      ? Promise.resolve(TOKEN_SCOPES)
+      : this.authenticate(bearerToken(req.headers.authorization))
+    // Each step catches its own errors so a failure never stalls the chain
+    let pending = authenticated
+      .then((scopes) => {
+        if (scopes) {
+          this.admit(ws, scopes)
+        } else {
+          // No valid header token - the first message must be `auth`
+          authTimer = setTimeout(() => ws.close(4001, 'Authentication timeout'), WS_AUTH_TIMEOUT_MS)
+        }
+      })
+      .catch((err) => {
+        this.debug('Failed to authenticate WebSocket:', err)
+        ws.close(1011, 'Authentication failed')
+      })
 
-    // Send current sessions on connect (per WEBSOCKET_INTERFACE.md spec)
-    if (this.sessionManager) {
-      const sessions = this.sessionManager.listSessions()
-      ws.send(
-        JSON.stringify({
-          type: 'init',
-          data: { sessions },
-        })
-      )
+    const forget = () => {
+      clearTimeout(authTimer)
+      this.clients.delete(ws)
+      this.clientScopes.delete(ws)
+      this.subscriptions.delete(ws)
+      for (const [sessionId, channel] of this.terminals) {
+        if (channel.viewers.has(ws)) this.detachTerminal(ws, sessionId)
+      }
+      this.outputStreams.delete(ws)
     }
 
     ws.on('close', () => {
       this.debug('WebSocket disconnected')
-      this.clients.delete(ws)
+      forget()
     })
 
     ws.on('error', (err) => {
       this.debug('WebSocket error:', err)
-      this.clients.delete(ws)
+      forget()
     })
 
     ws.on('message', (data) => {
-      this.handleWebSocketMessage(ws, data)
+      pending = pending.then(async () => {
+        try {
+          if (this.clientScopes.has(ws)) {
+            this.handleWebSocketMessage(ws, data)
+          } else if (ws.readyState === WebSocket.OPEN) {
+            clearTimeout(authTimer)
+            await this.handleAuthMessage(ws, data)
+          }
+        } catch (err) {
+          this.debug('Failed to handle WebSocket message:', err)
+          this.sendTo(ws, { type: 'error', data: { error: 'Internal server error', status: 500 } })
+        }
+      })
     })
   }
 
   /**
-   * Handle WebSocket message
+   * Resolve the scopes a token grants: all of them while auth is off,
+   * null if auth is on and the token is missing or unknown
    */
-  private handleWebSocketMessage(ws: WebSocket, data: unknown): void {
-    try {
-      const message = JSON.parse(String(data)) as { type: string; [key: string]: unknown }
+  private async authenticate(token: string | undefined): Promise<TokenScope[] | null> {
+    if (!this.tokenStore) return TOKEN_SCOPES
 
-      // Handle ping
-      if (message.type === 'ping') {
-        ws.send(JSON.stringify({ type: 'pong' }))
-        return
-      }
+    await this.tokenStore.refresh()
+    if (!this.tokenStore.isEnabled()) return TOKEN_SCOPES
+    if (!token) return null
 
-      // Other message types can be added here
-      this.debug('Received WebSocket message:', message.type)
-    } catch (err) {
-      this.debug('Invalid WebSocket message:', err)
-    }
+    return this.tokenStore.verify(token)?.scopes ?? null
   }
 
-  // =========================================================================
-  // Session API handlers
-  // =========================================================================
-
-  private handleListSessions(req: IncomingMessage, res: ServerResponse, url: URL): void {
-    if (!this.sessionManager) {
-      return sendError(res, 'Session manager not configured', 500)
+  /**
+   * Authenticate a client from its first message (`auth`)
+   */
+  private async handleAuthMessage(ws: WebSocket, data: unknown): Promise<void> {
+    let token: unknown
+    try {
+      const message = JSON.parse(String(data)) as { type?: string; data?: { token?: unknown } }
+      token = message.type === 'auth' ? message.data?.token : undefined
+    } catch {
+      // Not JSON - rejected below
     }
 
-    const filter: SessionFilter = {}
-
-    const type = url.searchParams.get('type')
-    if (type === 'internal' || type === 'external') {
-      filter.type = type
+    const scopes = typeof token === 'string' ? await this.authenticate(token) : null
+    if (!scopes) {
+      this.debug('Rejected unauthenticated WebSocket')
+      ws.close(4001, 'Unauthorized')
+      return
     }
+    this.admit(ws, scopes)
+  }
 
-    const agent = url.searchParams.get('agent')
-    if (agent) {
-      filter.agent = agent as any
+  /**
+   * Start sending updates to an authenticated client
+   */
+  private admit(ws: WebSocket, scopes: TokenScope[]): void {
+    if (ws.readyState !== WebSocket.OPEN) return
+    if (!scopes.includes('read')) {
+      ws.close(4001, "Token lacks the 'read' scope")
+      return
     }
 
-    const status = url.searchParams.get('status')
-    if (status) {
-      filter.status = status as any
+    this.debug('WebSocket connected')
+    this.clients.add(ws)
+    this.clientScopes.set(ws, scopes)
+    this.emit('connection', ws)
+
+    // Send current sessions on connect (per WEBSOCKET_INTERFACE.md spec)
+    this.sendInit(ws)
+  }
+
+  /**
+   * Send the current state snapshot to a client
+   */
+  private sendInit(ws: WebSocket): void {
+    if (!this.sessionManager) return
+
+    const sessions = this.sessionManager.listSessions()
+    const approvals = this.approvalManager?.list()
+    this.sendTo(ws, {
+      type: 'init',
+      data: { sessions, ...(approvals ? { approvals } : {}), epoch: this.epoch, seq: this.seq },
+    })
+  }
+
+  /**
+   * Replay broadcasts a reconnecting client missed, or tell it to start over
+   * from a fresh `init` if they are no longer buffered (or the server restarted)
+   */
+  private handleResume(ws: WebSocket, data: unknown): void {
+    const request = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>
+    const lastSeq = request.lastSeq
+
+    if (typeof lastSeq !== 'number' || !Number.isInteger(lastSeq) || lastSeq < 0) {
+      return this.resync(ws, 'Invalid lastSeq')
+    }
+    if (request.epoch !== undefined && request.epoch !== this.epoch) {
+      return this.resync(ws, 'Server restarted')
+    }
+    if (lastSeq > this.seq) {
+      return this.resync(ws, 'Unknown sequence number')
+    }
+    if (lastSeq < this.replayFloor) {
+      return this.resync(ws, 'Missed messages are no longer buffered')
     }
 
-    const sessions = this.sessionManager.listSessions(filter)
-    sendJson(res, sessions)
+    const subscription = this.subscriptions.get(ws)
+    let replayed = 0
+    for (const entry of this.replay) {
+      if (entry.seq <= lastSeq) continue
+      if (subscription && !matchesSubscription(subscription, entry.target)) continue
+      ws.send(entry.message)
+      replayed++
+    }
+
+    this.debug('Resumed client from', lastSeq, `(${replayed} replayed)`)
+    this.sendTo(ws, { type: 'resumed', data: { lastSeq, replayed } })
   }
 
-  private async handleCreateSession(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  private resync(ws: WebSocket, reason: string): void {
+    this.debug('Resume failed:', reason)
+    this.sendTo(ws, { type: 'resync', data: { reason } })
+    this.sendInit(ws)
+  }
+
+  /**
+   * Handle WebSocket message
+   */
+  private handleWebSocketMessage(ws: WebSocket, data: unknown): void {
+    try {
+      const message = JSON.parse(String(data)) as { type: string; [key: string]: unknown }
+
+      // Handle ping
+      if (message.type === 'ping') {
+        this.sendTo(ws, { type: 'pong' })
+        return
+      }
+
+      if (message.type === 'resume') {
+        this.handleResume(ws, message.data)
+        return
+      }
+
+      // Replace the client's filters; an empty subscription receives everything again
+      if (message.type === 'subscribe') {
+        const subscription = parseSubscription(message.data)
+        if (Object.keys(subscription).length > 0) {
+          this.subscriptions.set(ws, subscription)
+        } else {
+          this.subscriptions.delete(ws)
+        }
+        this.sendTo(ws, { type: 'subscribed', data: subscription })
+        return
+      }
+
+      if (message.type === 'subscribe_output') {
+        this.handleSubscribeOutput(ws, message.data).catch((err) => {
+          this.debug('Failed to subscribe to output:', err)
+        })
+        return
+      }
+
+      if (message.type === 'unsubscribe_output') {
+        const sessionId = asObject(message.data)?.sessionId
+        if (typeof sessionId === 'string') {
+          this.outputStreams.get(ws)?.delete(sessionId)
+        }
+        return
+      }
+
+      if (message.type === 'terminal_attach') {
+        this.handleTerminalAttach(ws, message.data).catch((err) => {
+          this.debug('Failed to attach terminal:', err)
+        })
+        return
+      }
+
+      if (
+        message.type === 'terminal_input' ||
+        message.type === 'terminal_resize' ||
+        message.type === 'terminal_claim' ||
+        message.type === 'terminal_release' ||
+        message.type === 'terminal_detach'
+      ) {
+        this.handleTerminalMessage(ws, message.type, message.data)
+        return
+      }
+
+      if (message.type === 'get_history') {
+        this.handleGetHistory(ws, message.data).catch((err) => {
+          this.debug('Failed to load history:', err)
+        })
+        return
+      }
+
+      if (Object.hasOwn(this.commands, message.type)) {
+        this.handleCommand(ws, message.type as WSCommandType, message.id, message.data)
+        return
+      }
+
+      // Other message types can be added here
+      this.debug('Received WebSocket message:', message.type)
+    } catch (err) {
+      this.debug('Invalid WebSocket message:', err)
+    }
+  }
+
+  /**
+   * Start streaming a session's terminal output to a client
+   */
+  private async handleSubscribeOutput(ws: WebSocket, data: unknown): Promise<void> {
+    const request = asObject(data)
+    const sessionId = request?.sessionId
+    if (typeof sessionId !== 'string' || !this.sessionManager?.getSession(sessionId)) {
+      this.sendTo(ws, { type: 'error', data: { error: 'Session not found', status: 404 } })
+      return
+    }
+    const offset = request?.offset
+    if (offset !== undefined && (!Number.isInteger(offset) || (offset as number) < 0)) {
+      this.sendTo(ws, { type: 'error', data: { error: 'Invalid offset: expected a byte offset', status: 400 } })
+      return
+    }
+
+    // Reading from past the end returns just the log size
+    const log = await this.sessionManager.readOutput(sessionId, Number.MAX_SAFE_INTEGER)
+    if (!log) {
+      this.sendTo(ws, { type: 'error', data: { error: 'No output captured for this session', status: 404 } })
+      return
+    }
+
+    const stream = this.openOutputStream(ws, sessionId, Math.min((offset as number | undefined) ?? log.size, log.size))
+    this.sendTo(ws, { type: 'output_subscribed', data: { sessionId, offset: stream.cursor, size: log.size } })
+    this.pumpOutput(ws, sessionId, stream)
+  }
+
+  /**
+   * Register (or restart) a client's output stream for a session. Call
+   * `pumpOutput` once the client has been told where the stream starts.
+   */
+  private openOutputStream(ws: WebSocket, sessionId: string, cursor: number): OutputStream {
+    const stream: OutputStream = { cursor, pumping: false, stale: false }
+    let streams = this.outputStreams.get(ws)
+    if (!streams) {
+      streams = new Map()
+      this.outputStreams.set(ws, streams)
+    }
+    streams.set(sessionId, stream)
+    return stream
+  }
+
+  // =========================================================================
+  // Interactive terminal
+  // =========================================================================
+
+  /**
+   * Attach a client to a session's terminal: send it a snapshot of the screen,
+   * then stream output from there. With `write` the client becomes the
+   * writer, unless another client already is.
+   */
+  private async handleTerminalAttach(ws: WebSocket, data: unknown): Promise<void> {
+    const fail = (error: string, status: number) => this.sendTo(ws, { type: 'error', data: { error, status } })
+    const request = asObject(data)
+    const sessionId = request?.sessionId
+    const session = typeof sessionId === 'string' ? this.sessionManager?.getSession(sessionId) : undefined
+    if (!this.sessionManager || !session) {
+      return fail('Session not found', 404)
+    }
+    if (session.type !== 'internal') {
+      return fail('Only internal sessions have a terminal', 400)
+    }
+    if (session.status === 'offline') {
+      return fail('Session is offline', 409)
+    }
+
+    const sized = request?.cols !== undefined || request?.rows !== undefined
+    const size = sized ? parseTerminalSize(request?.cols, request?.rows) : null
+    if (sized && !size) {
+      return fail(`Invalid size: expected cols and rows from 1 to ${MAX_TERMINAL_SIZE}`, 400)
+    }
+    const write = request?.write === true
+    if (write && !this.clientScopes.get(ws)?.includes('control')) {
+      return fail("Token lacks the 'control' scope", 403)
+    }
+
+    // A new writer sizes the terminal to its own before the screen is captured
+    if (write && size && !this.terminals.get(session.id)?.writer) {
+      await this.sessionManager.resizeTerminal(session.id, size.cols, size.rows)
+    }
+    const snapshot = await this.sessionManager.getTerminalSnapshot(session.id)
+    if (!snapshot) {
+      return fail('No output captured for this session', 404)
+    }
+    if (!this.clients.has(ws)) return
+
+    let channel = this.terminals.get(session.id)
+    if (!channel) {
+      channel = { viewers: new Set(), writer: null, cols: 0, rows: 0, pendingInput: '', sending: false }
+      this.terminals.set(session.id, channel)
+    }
+    channel.viewers.add(ws)
+    channel.cols = snapshot.cols
+    channel.rows = snapshot.rows
+    if (write && !channel.writer) {
+      channel.writer = ws
+    }
+
+    const stream = this.openOutputStream(ws, session.id, snapshot.offset)
+    this.sendTo(ws, { type: 'terminal_attached', data: { ...snapshot, writer: channel.writer === ws } })
+    this.pumpOutput(ws, session.id, stream)
+    this.sendTerminalState(session.id)
+  }
+
+  /**
+   * Handle input, resizes and writer changes from an attached client
+   */
+  private handleTerminalMessage(ws: WebSocket, type: string, data: unknown): void {
+    const fail = (error: string, status: number) => this.sendTo(ws, { type: 'error', data: { error, status } })
+    const request = asObject(data)
+    const sessionId = request?.sessionId
+    const channel = typeof sessionId === 'string' ? this.terminals.get(sessionId) : undefined
+    if (typeof sessionId !== 'string' || !channel?.viewers.has(ws)) {
+      return fail('Not attached to this terminal', 400)
+    }
+
+    switch (type) {
+      case 'terminal_detach':
+        return this.detachTerminal(ws, sessionId)
+
+      case 'terminal_claim':
+        if (!this.clientScopes.get(ws)?.includes('control')) {
+          return fail("Token lacks the 'control' scope", 403)
+        }
+        if (channel.writer && channel.writer !== ws && request?.force !== true) {
+          return fail('Terminal already has a writer', 409)
+        }
+        channel.writer = ws
+        return this.sendTerminalState(sessionId)
+
+      case 'terminal_release':
+        if (channel.writer === ws) {
+          channel.writer = null
+          this.sendTerminalState(sessionId)
+        }
+        return
+    }
+
+    if (channel.writer !== ws) {
+      return fail('Not the terminal writer', 403)
+    }
+
+    if (type === 'terminal_input') {
+      if (typeof request?.data !== 'string') {
+        return fail('Invalid data: expected a string', 400)
+      }
+      return this.queueTerminalInput(sessionId, channel, request.data)
+    }
+
+    const size = parseTerminalSize(request?.cols, request?.rows)
+    if (!size) {
+      return fail(`Invalid size: expected cols and rows from 1 to ${MAX_TERMINAL_SIZE}`, 400)
+    }
+    this.sessionManager
+      ?.resizeTerminal(sessionId, size.cols, size.rows)
+      .then((resized) => {
+        if (!resized) return fail('Failed to resize terminal', 409)
+        channel.cols = size.cols
+        channel.rows = size.rows
+        this.sendTerminalState(sessionId)
+      })
+      .catch((err) => {
+        this.debug('Failed to resize terminal:', err)
+        fail('Failed to resize terminal', 500)
+      })
+  }
+
+  /**
+   * Send a writer's keystrokes in order. Input arriving while tmux is busy is
+   * batched into the next send-keys.
+   */
+  private queueTerminalInput(sessionId: string, channel: TerminalChannel, input: string): void {
+    channel.pendingInput += input
+    if (channel.sending || !this.sessionManager) return
+    const manager = this.sessionManager
+    channel.sending = true
+
+    const flush = async (): Promise<void> => {
+      while (channel.pendingInput) {
+        let end = Math.min(channel.pendingInput.length, MAX_TERMINAL_INPUT_CHUNK)
+        // Don't split a surrogate pair
+        const last = channel.pendingInput.charCodeAt(end - 1)
+        if (end < channel.pendingInput.length && last >= 0xd800 && last <= 0xdbff) {
+          end--
+        }
+        const chunk = channel.pendingInput.slice(0, end)
+        channel.pendingInput = channel.pendingInput.slice(end)
+
+        if (!(await manager.sendTerminalInput(sessionId, chunk))) {
+          channel.pendingInput = ''
+          if (channel.writer) {
+            this.sendTo(channel.writer, { type: 'error', data: { error: 'Failed to send terminal input', status: 409 } })
+          }
+        }
+      }
+    }
+
+    flush()
+      .catch((err) => this.debug('Failed to send terminal input:', err))
+      .finally(() => {
+        channel.sending = false
+      })
+  }
+
+  /**
+   * Detach a client from a session's terminal, ending its output stream
+   */
+  private detachTerminal(ws: WebSocket, sessionId: string): void {
+    const channel = this.terminals.get(sessionId)
+    if (!channel?.viewers.delete(ws)) return
+
+    this.outputStreams.get(ws)?.delete(sessionId)
+    if (channel.writer === ws) {
+      channel.writer = null
+    }
+    if (channel.viewers.size === 0) {
+      this.terminals.delete(sessionId)
+    } else {
+      this.sendTerminalState(sessionId)
+    }
+  }
+
+  /**
+   * Tell a terminal's viewers its size, who is attached and whether they are the writer
+   */
+  private sendTerminalState(sessionId: string): void {
+    const channel = this.terminals.get(sessionId)
+    if (!channel) return
+
+    for (const viewer of channel.viewers) {
+      this.sendTo(viewer, {
+        type: 'terminal_state',
+        data: {
+          sessionId,
+          cols: channel.cols,
+          rows: channel.rows,
+          viewers: channel.viewers.size,
+          writer: channel.writer === viewer,
+          hasWriter: channel.writer !== null,
+        },
+      })
+    }
+  }
+
+  /**
+   * Reply to a WebSocket `get_history` request
+   */
+  private async handleGetHistory(ws: WebSocket, data: unknown): Promise<void> {
+    const request = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>
+    const query: EventQuery = {
+      sessionId: typeof request.sessionId === 'string' ? request.sessionId : undefined,
+      type: typeof request.type === 'string' ? (request.type as EventType) : undefined,
+      cursor: typeof request.cursor === 'number' ? request.cursor : undefined,
+      before: typeof request.before === 'number' ? request.before : undefined,
+      since: typeof request.since === 'number' ? request.since : undefined,
+      limit: typeof request.limit === 'number' ? request.limit : undefined,
+    }
+
+    const page: EventPage = this.eventStore
+      ? await this.eventStore.query(query)
+      : { events: [], hasMore: false, cursor: query.cursor ?? 0 }
+    this.sendTo(ws, { type: 'history', data: page.events, cursor: page.cursor, hasMore: page.hasMore, before: page.before })
+  }
+
+  /**
+   * WebSocket RPC commands, keyed by message type
+   */
+  private readonly commands: Record<WSCommandType, (data: unknown) => Promise<CommandResult>> = {
+    create_session: (data) => this.createSession(data),
+    send_prompt: (data) => this.sendPrompt(asObject(data)?.sessionId, data),
+    cancel: (data) => this.cancelSession(asObject(data)?.sessionId),
+    restart: (data) => this.restartSession(asObject(data)?.sessionId),
+    delete: (data) => this.deleteSession(asObject(data)?.sessionId),
+    rename: (data) => {
+      const name = asObject(data)?.name
+      if (typeof name !== 'string' || !name.trim()) {
+        return Promise.resolve(commandError('Missing name'))
+      }
+      return this.updateSession(asObject(data)?.sessionId, { name })
+    },
+  }
+
+  /**
+   * Run a WebSocket RPC command and reply with `result` or `error`, echoing
+   * the client's request ID
+   */
+  private handleCommand(ws: WebSocket, type: WSCommandType, id: unknown, data: unknown): void {
+    if (typeof id !== 'string' || !id) {
+      this.sendTo(ws, { type: 'error', data: { error: 'Missing request id', status: 400 } })
+      return
+    }
+    if (!this.clientScopes.get(ws)?.includes('control')) {
+      this.sendTo(ws, { type: 'error', id, data: { error: "Token lacks the 'control' scope", status: 403 } })
+      return
+    }
+
+    this.commands[type](data)
+      .catch((err): CommandResult => {
+        this.debug('Command failed:', type, err)
+        return commandError('Internal server error', 500)
+      })
+      .then((result) => {
+        if (result.ok) {
+          this.sendTo(ws, { type: 'result', id, data: result.data })
+        } else {
+          this.sendTo(ws, { type: 'error', id, data: { error: result.error, status: result.status } })
+        }
+      })
+  }
+
+  // =========================================================================
+  // Session commands (shared by REST and WebSocket RPC)
+  // =========================================================================
+
+  private async createSession(body: unknown): Promise<CommandResult> {
     if (!this.sessionManager) {
-      return sendError(res, 'Session manager not configured', 500)
+      return commandError('Session manager not configured', 500)
     }
 
-    const body = await parseBody<CreateSessionOptions>(req)
-    if (!body) {
-      return sendError(res, 'Invalid request body')
+    const invalid = validate('CreateSessionOptions', body)
+    if (invalid) {
+      return commandError(invalid)
     }
 
     try {
-      const session = await this.sessionManager.createSession(body)
-      sendJson(res, session, 201)
+      const session = await this.sessionManager.createSession(body as CreateSessionOptions)
+      return { ok: true, data: session, status: 201 }
     } catch (err) {
-      sendError(res, (err as Error).message)
+      return commandError((err as Error).message)
+    }
+  }
+
+  private async updateSession(sessionId: unknown, body: unknown): Promise<CommandResult> {
+    if (!this.sessionManager) {
+      return commandError('Session manager not configured', 500)
+    }
+
+    const invalid = validate('SessionUpdate', body)
+    if (invalid) {
+      return commandError(invalid)
+    }
+    if (typeof sessionId !== 'string') {
+      return commandError('Missing sessionId')
+    }
+
+    let session: Session | undefined
+    try {
+      session = this.sessionManager.updateSession(sessionId, body as Pick<Session, 'name' | 'policy'>)
+    } catch (err) {
+      return commandError((err as Error).message)
+    }
+    if (!session) {
+      return commandError('Session not found', 404)
+    }
+
+    return { ok: true, data: session }
+  }
+
+  private async deleteSession(sessionId: unknown): Promise<CommandResult> {
+    if (!this.sessionManager) {
+      return commandError('Session manager not configured', 500)
     }
+    if (typeof sessionId !== 'string') {
+      return commandError('Missing sessionId')
+    }
+
+    const deleted = await this.sessionManager.deleteSession(sessionId)
+    if (!deleted) {
+      return commandError('Session not found', 404)
+    }
+
+    return { ok: true, data: { success: true } }
+  }
+
+  private async sendPrompt(sessionId: unknown, body: unknown): Promise<CommandResult> {
+    if (!this.sessionManager) {
+      return commandError('Session manager not configured', 500)
+    }
+    if (typeof sessionId !== 'string') {
+      return commandError('Missing sessionId')
+    }
+
+    // WebSocket RPC carries the session ID in the body
+    const { sessionId: _, ...request } = asObject(body) ?? {}
+    const invalid = validate('SendPromptRequest', asObject(body) ? request : body)
+    if (invalid) {
+      return commandError(invalid)
+    }
+
+    const { prompt = '', images } = request as { prompt?: string; images?: ImageInput[] }
+    if (!prompt && !images?.length) {
+      return commandError('Missing prompt in request body')
+    }
+
+    const result = await this.sessionManager.sendPrompt(sessionId, prompt, images)
+    if (!result.ok) {
+      return commandError(result.error || 'Failed to send prompt')
+    }
+
+    return {
+      ok: true,
+      data: {
+        success: true,
+        promptId: result.promptId,
+        ...(result.queued ? { queued: true } : {}),
+        ...(result.imagePaths ? { imagePaths: result.imagePaths } : {}),
+      },
+    }
+  }
+
+  private async cancelSession(sessionId: unknown): Promise<CommandResult> {
+    if (!this.sessionManager) {
+      return commandError('Session manager not configured', 500)
+    }
+    if (typeof sessionId !== 'string') {
+      return commandError('Missing sessionId')
+    }
+
+    const cancelled = await this.sessionManager.cancel(sessionId)
+    if (!cancelled) {
+      return commandError('Failed to cancel session')
+    }
+
+    return { ok: true, data: { success: true } }
+  }
+
+  private async restartSession(sessionId: unknown): Promise<CommandResult> {
+    if (!this.sessionManager) {
+      return commandError('Session manager not configured', 500)
+    }
+    if (typeof sessionId !== 'string') {
+      return commandError('Missing sessionId')
+    }
+
+    const session = await this.sessionManager.restart(sessionId)
+    if (!session) {
+      return commandError('Failed to restart session')
+    }
+
+    return { ok: true, data: session }
+  }
+
+  /**
+   * Respond to a REST request with a command's result
+   */
+  private sendCommandResult(res: ServerResponse, result: CommandResult): void {
+    if (result.ok) {
+      sendJson(res, result.data, result.status)
+    } else {
+      sendError(res, result.error, result.status)
+    }
+  }
+
+  // =========================================================================
+  // Session API handlers
+  // =========================================================================
+
+  private handleListSessions(req: IncomingMessage, res: ServerResponse, url: URL): void {
+    if (!this.sessionManager) {
+      return sendError(res, 'Session manager not configured', 500)
+    }
+
+    const filter: SessionFilter = {}
+
+    const type = url.searchParams.get('type')
+    if (type === 'internal' || type === 'external') {
+      filter.type = type
+    }
+
+    const agent = url.searchParams.get('agent')
+    if (agent) {
+      filter.agent = agent as any
+    }
+
+    const status = url.searchParams.get('status')
+    if (status) {
+      filter.status = status as any
+    }
+
+    const sessions = this.sessionManager.listSessions(filter)
+    sendJson(res, sessions)
+  }
+
+  private async handleCreateSession(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    this.sendCommandResult(res, await this.createSession(await parseBody(req)))
   }
 
   private handleGetSession(res: ServerResponse, sessionId: string): void {
@@ -449,37 +1629,51 @@ export class BridgeServer extends EventEmitter {
     res: ServerResponse,
     sessionId: string
   ): Promise<void> {
-    if (!this.sessionManager) {
-      return sendError(res, 'Session manager not configured', 500)
-    }
+    this.sendCommandResult(res, await this.updateSession(sessionId, await parseBody(req)))
+  }
 
-    const body = await parseBody<{ name?: string }>(req)
-    if (!body) {
-      return sendError(res, 'Invalid request body')
-    }
+  private async handleDeleteSession(res: ServerResponse, sessionId: string): Promise<void> {
+    this.sendCommandResult(res, await this.deleteSession(sessionId))
+  }
 
-    const session = this.sessionManager.updateSession(sessionId, body)
-    if (!session) {
-      return sendError(res, 'Session not found', 404)
+  private async handleSendPrompt(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string,
+    url: URL
+  ): Promise<void> {
+    const result = await this.sendPrompt(sessionId, await parseBody(req))
+    const promptId = result.ok ? (result.data as { promptId?: string }).promptId : undefined
+
+    // wait=true holds the request open until the agent finishes the turn
+    if (result.ok && promptId && url.searchParams.get('wait') === 'true' && this.sessionManager) {
+      const timeout = Number(url.searchParams.get('timeout'))
+      const timeoutMs = Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_PROMPT_TIMEOUT_MS
+      try {
+        const turn = await this.sessionManager.waitForPrompt(promptId, timeoutMs)
+        return sendJson(res, { ...(result.data as object), result: turn })
+      } catch (err) {
+        return sendJson(res, { error: (err as Error).message, promptId }, 504)
+      }
     }
 
-    sendJson(res, session)
+    this.sendCommandResult(res, result)
   }
 
-  private async handleDeleteSession(res: ServerResponse, sessionId: string): Promise<void> {
+  private handleGetQueue(res: ServerResponse, sessionId: string): void {
     if (!this.sessionManager) {
       return sendError(res, 'Session manager not configured', 500)
     }
 
-    const deleted = await this.sessionManager.deleteSession(sessionId)
-    if (!deleted) {
+    const queue = this.sessionManager.getQueue(sessionId)
+    if (!queue) {
       return sendError(res, 'Session not found', 404)
     }
 
-    sendJson(res, { success: true })
+    sendJson(res, queue)
   }
 
-  private async handleSendPrompt(
+  private async handleReorderQueue(
     req: IncomingMessage,
     res: ServerResponse,
     sessionId: string
@@ -488,60 +1682,60 @@ export class BridgeServer extends EventEmitter {
       return sendError(res, 'Session manager not configured', 500)
     }
 
-    const body = await parseBody<{ prompt: string }>(req)
-    if (!body || !body.prompt) {
-      return sendError(res, 'Missing prompt in request body')
+    const body = await parseBody<{ order: string[] }>(req)
+    const invalid = validate('QueueOrder', body)
+    if (invalid || !body) {
+      return sendError(res, invalid ?? 'Invalid request body')
     }
 
-    // Note: Image support can be added later when SessionManager supports it
-    const result = await this.sessionManager.sendPrompt(sessionId, body.prompt)
-    if (!result.ok) {
-      return sendError(res, result.error || 'Failed to send prompt')
+    let queue
+    try {
+      queue = this.sessionManager.reorderQueue(sessionId, body.order)
+    } catch (err) {
+      return sendError(res, (err as Error).message)
+    }
+    if (!queue) {
+      return sendError(res, 'Session not found', 404)
     }
 
-    sendJson(res, { success: true })
+    sendJson(res, queue)
   }
 
-  private async handleCancelSession(res: ServerResponse, sessionId: string): Promise<void> {
+  private async handleRemoveQueuedPrompt(
+    res: ServerResponse,
+    sessionId: string,
+    promptId: string
+  ): Promise<void> {
     if (!this.sessionManager) {
       return sendError(res, 'Session manager not configured', 500)
     }
 
-    const cancelled = await this.sessionManager.cancel(sessionId)
-    if (!cancelled) {
-      return sendError(res, 'Failed to cancel session')
+    const removed = await this.sessionManager.removeQueuedPrompt(sessionId, promptId)
+    if (!removed) {
+      return sendError(res, 'Queued prompt not found', 404)
     }
 
     sendJson(res, { success: true })
   }
 
-  private async handleRestartSession(res: ServerResponse, sessionId: string): Promise<void> {
-    if (!this.sessionManager) {
-      return sendError(res, 'Session manager not configured', 500)
-    }
-
-    const session = await this.sessionManager.restart(sessionId)
-    if (!session) {
-      return sendError(res, 'Failed to restart session')
-    }
+  private async handleCancelSession(res: ServerResponse, sessionId: string): Promise<void> {
+    this.sendCommandResult(res, await this.cancelSession(sessionId))
+  }
 
-    sendJson(res, session)
+  private async handleRestartSession(res: ServerResponse, sessionId: string): Promise<void> {
+    this.sendCommandResult(res, await this.restartSession(sessionId))
   }
 
   private async handleEventPost(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    const body = await parseBody<Record<string, unknown>>(req)
-    if (!body) {
-      return sendError(res, 'Invalid event data')
-    }
+    const body = await this.readHookBody(req, res)
+    if (!body) return
 
-    // If we have an event processor, transform the raw event
+    // If we have an event processor it ingests (and broadcasts) the event
     // Otherwise broadcast the raw data as-is
     if (this.eventProcessor) {
       const processed = this.eventProcessor(body)
-      if (processed) {
-        this.broadcast(processed)
-      } else {
-        this.debug('Event processor returned null for:', JSON.stringify(body).substring(0, 100))
+      if (!processed) {
+        this.debug('Event processor dropped:', JSON.stringify(body).substring(0, 100))
       }
     } else {
       // Broadcast raw event (legacy behavior)
@@ -551,6 +1745,184 @@ export class BridgeServer extends EventEmitter {
     sendJson(res, { success: true })
   }
 
+  /**
+   * Read a hook callback's event, checking its signature when required.
+   * Responds with an error and returns null if it is rejected.
+   */
+  private async readHookBody(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<Record<string, unknown> | null> {
+    const raw = await readBody(req)
+
+    if (this.hookVerifier && raw !== null) {
+      const verification = this.hookVerifier.verify(req.headers, raw)
+      if (!verification.ok) {
+        sendError(res, verification.error, 401)
+        return null
+      }
+    }
+
+    const body = parseJson<Record<string, unknown>>(raw)
+    if (!body) {
+      sendError(res, 'Invalid event data')
+      return null
+    }
+    return body
+  }
+
+  private async handleGetOutput(res: ServerResponse, sessionId: string, url: URL): Promise<void> {
+    if (!this.sessionManager) {
+      return sendError(res, 'Session manager not configured', 500)
+    }
+    if (!this.sessionManager.getSession(sessionId)) {
+      return sendError(res, 'Session not found', 404)
+    }
+
+    const offset = Number(url.searchParams.get('offset') ?? 0)
+    if (!Number.isInteger(offset) || offset < 0) {
+      return sendError(res, 'Invalid offset: expected a byte offset')
+    }
+    const limit = Number(url.searchParams.get('limit') ?? MAX_OUTPUT_READ_BYTES)
+    if (!Number.isInteger(limit) || limit < 1) {
+      return sendError(res, 'Invalid limit: expected a positive integer')
+    }
+
+    const chunk = await this.sessionManager.readOutput(sessionId, offset, Math.min(limit, MAX_OUTPUT_READ_BYTES))
+    if (!chunk) {
+      return sendError(res, 'No output captured for this session', 404)
+    }
+
+    sendJson(res, chunk)
+  }
+
+  private async handleGetEvents(res: ServerResponse, url: URL): Promise<void> {
+    if (!this.eventStore) {
+      return sendError(res, 'Event history not enabled', 404)
+    }
+
+    const query: EventQuery = {}
+    const sessionId = url.searchParams.get('sessionId')
+    if (sessionId) query.sessionId = sessionId
+    const type = url.searchParams.get('type')
+    if (type) query.type = type as EventType
+
+    const cursor = url.searchParams.get('cursor')
+    if (cursor !== null) {
+      query.cursor = Number(cursor)
+      if (!Number.isInteger(query.cursor) || query.cursor < 0) {
+        return sendError(res, 'Invalid cursor: expected a non-negative integer')
+      }
+    }
+    const before = url.searchParams.get('before')
+    if (before !== null) {
+      query.before = Number(before)
+      if (!Number.isInteger(query.before) || query.before < 1) {
+        return sendError(res, 'Invalid before: expected a positive integer')
+      }
+    }
+    const since = url.searchParams.get('since')
+    if (since !== null) {
+      query.since = Number(since)
+      if (!Number.isFinite(query.since)) {
+        return sendError(res, 'Invalid since: expected a timestamp in ms')
+      }
+    }
+    const limit = url.searchParams.get('limit')
+    if (limit !== null) {
+      query.limit = Number(limit)
+      if (!Number.isInteger(query.limit) || query.limit < 1) {
+        return sendError(res, 'Invalid limit: expected a positive integer')
+      }
+    }
+
+    sendJson(res, await this.eventStore.query(query))
+  }
+
+  private handleListApprovals(res: ServerResponse, url: URL): void {
+    if (!this.approvalManager) {
+      return sendError(res, 'Approval mode not enabled', 404)
+    }
+
+    const sessionId = url.searchParams.get('sessionId') ?? undefined
+    sendJson(res, this.approvalManager.list(sessionId))
+  }
+
+  /**
+   * Blocking request from the PreToolUse hook - responds once a client decides
+   * (or the approval times out).
+   */
+  private async handleApprovalRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!this.approvalRequestHandler) {
+      return sendError(res, 'Approval mode not enabled', 404)
+    }
+
+    const body = await this.readHookBody(req, res)
+    if (!body) return
+
+    const resolution = await this.approvalRequestHandler(body)
+    if (!resolution) {
+      return sendError(res, 'Not a tool approval request')
+    }
+
+    sendJson(res, resolution)
+  }
+
+  private async handleResolveApproval(
+    req: IncomingMessage,
+    res: ServerResponse,
+    approvalId: string
+  ): Promise<void> {
+    if (!this.approvalManager) {
+      return sendError(res, 'Approval mode not enabled', 404)
+    }
+
+    const body = await parseBody<{ decision: ApprovalDecision; reason?: string }>(req)
+    const invalid = validate('ApprovalDecisionRequest', body)
+    if (invalid || !body) {
+      return sendError(res, invalid ?? 'Invalid request body')
+    }
+
+    const resolution = this.approvalManager.resolve(approvalId, body.decision, body.reason)
+    if (!resolution) {
+      return sendError(res, 'Approval not found', 404)
+    }
+
+    sendJson(res, resolution)
+  }
+
+  private handleListWebhooks(res: ServerResponse): void {
+    if (!this.webhookManager) {
+      return sendError(res, 'Webhooks not enabled', 404)
+    }
+
+    sendJson(res, this.webhookManager.list())
+  }
+
+  private handleListDeliveries(res: ServerResponse, url: URL): void {
+    if (!this.webhookManager) {
+      return sendError(res, 'Webhooks not enabled', 404)
+    }
+
+    const query: DeliveryQuery = {}
+    const status = url.searchParams.get('status')
+    if (status !== null) {
+      if (status !== 'pending' && status !== 'delivered' && status !== 'failed') {
+        return sendError(res, "Invalid status: expected 'pending', 'delivered' or 'failed'")
+      }
+      query.status = status
+    }
+    const limit = url.searchParams.get('limit')
+    if (limit !== null) {
+      query.limit = Number(limit)
+      if (!Number.isInteger(query.limit) || query.limit < 1) {
+        return sendError(res, 'Invalid limit: expected a positive integer')
+      }
+    }
+
+    sendJson(res, this.webhookManager.listDeliveries(query))
+  }
+
   private debug(...args: unknown[]): void {
     if (this.config.debug) {
       console.log('[BridgeServer]', ...args)
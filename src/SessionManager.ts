@@ -7,9 +7,9 @@
  */
 
 import { EventEmitter } from 'events'
-import { readFile, writeFile, mkdir, realpath } from 'fs/promises'
+import { readFile, writeFile, mkdir, realpath, rm } from 'fs/promises'
 import { realpathSync } from 'fs'
-import { dirname, basename } from 'path'
+import { dirname, basename, join } from 'path'
 import { randomUUID } from 'crypto'
 import type {
   Session,
@@ -22,9 +22,21 @@ import type {
   AssistantMessageEvent,
   TerminalInfo,
   AgentAdapter,
+  ImageInput,
+  SendResult,
+  QueuedPrompt,
+  PromptResult,
+  WaitingReason,
+  OutputChunk,
+  TerminalSnapshot,
+  PolicyRule,
 } from './types.js'
-import { TmuxExecutor } from './TmuxExecutor.js'
+import { TmuxExecutor, type TmuxExecutorOptions } from './TmuxExecutor.js'
+import type { TerminalBackend } from './TerminalBackend.js'
 import { TranscriptWatcher } from './TranscriptWatcher.js'
+import { OutputWatcher, readOutputLog, DEFAULT_OUTPUT_CHUNK_BYTES } from './OutputWatcher.js'
+import { PromptTracker } from './PromptTracker.js'
+import { validatePolicyRules } from './PolicyEngine.js'
 
 // =============================================================================
 // Types
@@ -47,6 +59,47 @@ export interface SessionManagerConfig {
   debug?: boolean
   /** Spawn visible terminal windows by default (Linux only) */
   spawnTerminalByDefault?: boolean
+  /** Directory for prompt image attachments. Default: `images/` next to sessionsFile */
+  imagesDir?: string
+  /** Detect permission dialogs by matching adapters' `waitingPatterns` against panes */
+  detectWaitingFromPane?: boolean
+  /** Interval (ms) between pane checks when detectWaitingFromPane is enabled. Default: 3000 */
+  paneCheckIntervalMs?: number
+  /**
+   * Extra environment variables set in internal sessions' tmux environment,
+   * or a function returning them per session (called on create and restart)
+   */
+  sessionEnv?: Record<string, string> | ((session: SessionEnvContext) => Record<string, string> | undefined)
+  /** Called after each tmux command with its duration and error, if any (metrics) */
+  onTmuxCommand?: TmuxExecutorOptions['onCommand']
+  /**
+   * Terminals to run internal sessions in, e.g. a MemoryTerminalBackend in
+   * tests. Default: tmux (a TmuxExecutor reporting to onTmuxCommand)
+   */
+  terminalBackend?: TerminalBackend
+  /** Pipe internal sessions' pane output to per-session logs (see readOutput). Default: false */
+  captureOutput?: boolean
+  /** Directory for terminal output logs. Default: `output/` next to sessionsFile */
+  outputDir?: string
+  /**
+   * Talk to tmux over a control-mode connection: sessions that die go offline
+   * at once instead of at the next 10s poll. Default: false
+   */
+  tmuxControlMode?: boolean
+  /**
+   * How long (ms) prompts to a started session wait for its adapter's
+   * `readySignals` before they fail. Default: 30000
+   */
+  readyTimeoutMs?: number
+}
+
+/**
+ * What a `sessionEnv` callback knows about the session being started.
+ */
+export interface SessionEnvContext {
+  id: string
+  agent: AgentType
+  policy?: PolicyRule[]
 }
 
 export interface SessionManagerEvents {
@@ -54,10 +107,42 @@ export interface SessionManagerEvents {
   'session:updated': (session: Session, changes: Partial<Session>) => void
   'session:deleted': (session: Session) => void
   'session:status': (session: Session, from: SessionStatus, to: SessionStatus) => void
+  'session:queue': (session: Session, queue: QueuedPrompt[]) => void
+  'session:output': (session: Session, chunk: OutputChunk) => void
   event: (event: AgentEvent) => void
   error: (error: Error) => void
 }
 
+/**
+ * Environment variable carrying the bridge session ID into internal sessions.
+ * Hook scripts forward it as `bridge_session_id` so events link deterministically.
+ */
+export const BRIDGE_SESSION_ENV = 'CODING_AGENT_BRIDGE_SESSION_ID'
+
+/**
+ * File extensions for supported image attachment types.
+ */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+}
+
+/** Default for SessionManagerConfig.readyTimeoutMs */
+const DEFAULT_READY_TIMEOUT_MS = 30000
+
+/** Interval (ms) between screen checks for adapters' ready patterns */
+const READY_CHECK_INTERVAL_MS = 500
+
+/**
+ * A started session waiting for its agent's ready signal.
+ */
+interface Startup {
+  timeout: NodeJS.Timeout
+  poll?: NodeJS.Timeout
+}
+
 interface PersistedState {
   sessions: Session[]
   agentToManagedMap: [string, string][]
@@ -72,19 +157,34 @@ export class SessionManager extends EventEmitter {
   private sessions: Map<string, Session> = new Map()
   private agentToManagedMap: Map<string, string> = new Map()
   private transcriptWatchers: Map<string, TranscriptWatcher> = new Map()
+  private outputWatchers: Map<string, OutputWatcher> = new Map()
   private sessionCounter = 0
   private adapters: Map<string, AgentAdapter> = new Map()
-  private tmux: TmuxExecutor
+  private terminal: TerminalBackend
+  private prompts: PromptTracker
   private config: SessionManagerConfig
   private healthCheckInterval?: NodeJS.Timeout
   private workingTimeoutInterval?: NodeJS.Timeout
   private cleanupInterval?: NodeJS.Timeout
+  private paneCheckInterval?: NodeJS.Timeout
+  /** Sessions whose 'waiting' status came from a pane match (cleared when it disappears) */
+  private paneWaiting: Set<string> = new Set()
+  /** Running tmux health check, and whether another was requested meanwhile */
+  private tmuxHealthCheck: Promise<void> | null = null
+  private tmuxHealthRecheck = false
+  /** Started sessions whose prompts are held until the agent is ready */
+  private startups: Map<string, Startup> = new Map()
   private dirty = false
 
   constructor(config: SessionManagerConfig) {
     super()
     this.config = config
-    this.tmux = new TmuxExecutor({ debug: config.debug })
+    this.terminal = config.terminalBackend ?? new TmuxExecutor({
+      debug: config.debug,
+      onCommand: config.onTmuxCommand,
+    })
+    this.terminal.onSessionsChanged = () => this.requestTmuxHealthCheck()
+    this.prompts = new PromptTracker({ debug: config.debug })
   }
 
   // ===========================================================================
@@ -96,7 +196,20 @@ export class SessionManager extends EventEmitter {
    */
   async start(): Promise<void> {
     await this.load()
+    if (this.config.tmuxControlMode) {
+      await this.terminal.startControlMode?.()
+    }
     this.startHealthChecks()
+
+    // Re-open pipes for sessions that predate capture (harmless for the rest)
+    if (this.config.captureOutput) {
+      for (const session of this.sessions.values()) {
+        if (session.type !== 'internal' || session.status === 'offline') continue
+        this.startOutputCapture(session).catch(() => {
+          // The tmux session is gone - the health check marks it offline
+        })
+      }
+    }
   }
 
   /**
@@ -104,6 +217,10 @@ export class SessionManager extends EventEmitter {
    */
   async stop(): Promise<void> {
     this.stopHealthChecks()
+    this.prompts.clear()
+    for (const id of Array.from(this.startups.keys())) {
+      this.clearStartup(id)
+    }
 
     // Stop all transcript watchers
     for (const [sessionId, watcher] of this.transcriptWatchers) {
@@ -111,6 +228,13 @@ export class SessionManager extends EventEmitter {
       this.transcriptWatchers.delete(sessionId)
     }
 
+    // Output pipes stay open in tmux; the log is picked up again on start
+    for (const watcher of this.outputWatchers.values()) {
+      watcher.stop()
+    }
+    this.outputWatchers.clear()
+
+    await this.terminal.stopControlMode?.()
     await this.save()
   }
 
@@ -128,6 +252,13 @@ export class SessionManager extends EventEmitter {
     return this.adapters.get(name)
   }
 
+  /**
+   * List all registered agent adapters.
+   */
+  listAdapters(): AgentAdapter[] {
+    return Array.from(this.adapters.values())
+  }
+
   // ===========================================================================
   // Session CRUD
   // ===========================================================================
@@ -143,6 +274,8 @@ export class SessionManager extends EventEmitter {
       throw new Error(`No adapter registered for agent: ${agent}`)
     }
 
+    const policy = options.policy ? validatePolicyRules(options.policy) : undefined
+
     // Generate IDs
     const id = randomUUID()
     const shortId = id.slice(0, 8)
@@ -159,16 +292,17 @@ export class SessionManager extends EventEmitter {
     const command = adapter.buildCommand(options)
 
     // Create the tmux session
-    await this.tmux.createSession(tmuxSessionName, {
+    await this.terminal.createSession(tmuxSessionName, {
       cwd,
       command,
+      env: this.getSessionEnv({ id, agent, policy }),
     })
 
     // Spawn visible terminal if requested
     const shouldSpawnTerminal = options.spawnTerminal ?? this.config.spawnTerminalByDefault ?? false
     if (shouldSpawnTerminal && process.platform === 'linux') {
       try {
-        await this.tmux.spawnVisibleTerminal(tmuxSessionName)
+        await this.terminal.spawnVisibleTerminal?.(tmuxSessionName)
       } catch (err) {
         // Log error but don't fail session creation
         if (this.config.debug) {
@@ -188,11 +322,17 @@ export class SessionManager extends EventEmitter {
       createdAt: Date.now(),
       lastActivity: Date.now(),
       tmuxSession: tmuxSessionName,
+      ...(policy?.length ? { policy } : {}),
     }
 
     // Store the session
     this.sessions.set(id, session)
     this.markDirty()
+    this.watchStartup(session)
+
+    if (this.config.captureOutput) {
+      await this.startOutputCapture(session).catch((err: Error) => this.emit('error', err))
+    }
 
     // Emit event
     this.emit('session:created', session)
@@ -200,6 +340,16 @@ export class SessionManager extends EventEmitter {
     return session
   }
 
+  /**
+   * Environment for a session's terminal: `sessionEnv` plus the bridge session ID.
+   */
+  private getSessionEnv(session: SessionEnvContext): Record<string, string> {
+    const extra = typeof this.config.sessionEnv === 'function'
+      ? this.config.sessionEnv(session)
+      : this.config.sessionEnv
+    return { ...extra, [BRIDGE_SESSION_ENV]: session.id }
+  }
+
   /**
    * Get a session by ID.
    */
@@ -233,8 +383,9 @@ export class SessionManager extends EventEmitter {
 
   /**
    * Update a session's properties.
+   * @throws Error if the policy rules are invalid
    */
-  updateSession(id: string, updates: Partial<Pick<Session, 'name'>>): Session | undefined {
+  updateSession(id: string, updates: Partial<Pick<Session, 'name' | 'policy'>>): Session | undefined {
     const session = this.sessions.get(id)
     if (!session) return undefined
 
@@ -245,6 +396,17 @@ export class SessionManager extends EventEmitter {
       session.name = updates.name
     }
 
+    // An empty rule list clears the session policy
+    if (updates.policy !== undefined) {
+      const policy = validatePolicyRules(updates.policy)
+      changes.policy = policy
+      if (policy.length > 0) {
+        session.policy = policy
+      } else {
+        delete session.policy
+      }
+    }
+
     if (Object.keys(changes).length > 0) {
       this.markDirty()
       this.emit('session:updated', session, changes)
@@ -260,9 +422,15 @@ export class SessionManager extends EventEmitter {
     const session = this.sessions.get(id)
     if (!session) return false
 
+    // Remove first, so a health check prompted by the kill doesn't report it offline
+    this.sessions.delete(id)
+    this.clearStartup(id)
+
+    await this.stopOutputCapture(session)
+
     // Kill tmux session if internal
     if (session.type === 'internal' && session.tmuxSession) {
-      await this.tmux.killSession(session.tmuxSession).catch(() => {
+      await this.terminal.killSession(session.tmuxSession).catch(() => {
         // Ignore errors - session may already be dead
       })
     }
@@ -270,8 +438,11 @@ export class SessionManager extends EventEmitter {
     // Stop transcript watcher
     await this.stopTranscriptWatcher(id)
 
-    // Remove from maps
-    this.sessions.delete(id)
+    // Remove saved image attachments and the output log
+    await rm(this.getSessionImagesDir(id), { recursive: true, force: true }).catch(() => {})
+    await rm(this.getSessionOutputFile(id), { force: true }).catch(() => {})
+
+    this.prompts.cancelSession(id, 'Session deleted')
 
     // Remove from agent mapping
     for (const [agentId, managedId] of this.agentToManagedMap) {
@@ -291,12 +462,17 @@ export class SessionManager extends EventEmitter {
   // ===========================================================================
 
   /**
-   * Send a prompt to a session (internal sessions only).
+   * Send a prompt to a session, optionally with image attachments.
+   *
+   * Images are saved under the session's images directory and referenced in
+   * the prompt text in the form the agent's adapter expects. Prompts sent while
+   * the agent is mid-turn are queued and dispatched when it stops.
    */
   async sendPrompt(
     id: string,
-    prompt: string
-  ): Promise<{ ok: boolean; error?: string }> {
+    prompt: string,
+    images: ImageInput[] = []
+  ): Promise<SendResult> {
     const session = this.sessions.get(id)
 
     if (!session) {
@@ -304,36 +480,189 @@ export class SessionManager extends EventEmitter {
     }
 
     if (session.type === 'external') {
-      // For external sessions, check if we have terminal info
-      if (session.terminal?.tmuxPane && session.terminal?.tmuxSocket) {
-        await this.tmux.pasteBuffer({
-          target: session.terminal.tmuxPane,
-          text: prompt,
+      if (!session.terminal?.tmuxPane || !session.terminal?.tmuxSocket) {
+        return { ok: false, error: 'External session has no terminal info' }
+      }
+    } else {
+      if (!session.tmuxSession) {
+        return { ok: false, error: 'Session has no tmux session' }
+      }
+      if (session.status === 'offline') {
+        return { ok: false, error: 'Session is offline' }
+      }
+      if (session.status === 'error') {
+        return { ok: false, error: session.error ?? 'Agent failed to start' }
+      }
+    }
+
+    let imagePaths: string[] = []
+    if (images.length > 0) {
+      try {
+        imagePaths = await this.saveImages(session, images)
+      } catch (err) {
+        return { ok: false, error: (err as Error).message }
+      }
+    }
+    const imageResult = imagePaths.length > 0 ? { imagePaths } : {}
+
+    const promptId = randomUUID()
+    this.prompts.add(promptId, session.id)
+
+    // Queue while the agent is starting or busy (or earlier prompts are still
+    // waiting) so input isn't lost or interleaved with the current turn
+    if (session.status === 'working' || this.startups.has(session.id) || (session.queue?.length ?? 0) > 0) {
+      const item: QueuedPrompt = {
+        id: promptId,
+        prompt,
+        ...imageResult,
+        queuedAt: Date.now(),
+      }
+      this.setQueue(session, [...(session.queue ?? []), item])
+      return { ok: true, queued: true, promptId, ...imageResult }
+    }
+
+    try {
+      await this.deliverPrompt(session, promptId, prompt, imagePaths)
+    } catch (err) {
+      this.prompts.cancel(promptId, 'Failed to send prompt')
+      throw err
+    }
+
+    return { ok: true, promptId, ...imageResult }
+  }
+
+  /**
+   * Wait for a prompt's turn to finish (the agent stops).
+   * @throws Error if the prompt is unknown, removed, or the timeout elapses
+   */
+  waitForPrompt(promptId: string, timeoutMs: number): Promise<PromptResult> {
+    return this.prompts.wait(promptId, timeoutMs)
+  }
+
+  /**
+   * Paste a prompt into the session's terminal and start its turn.
+   */
+  private async deliverPrompt(
+    session: Session,
+    promptId: string,
+    prompt: string,
+    imagePaths: string[] = []
+  ): Promise<void> {
+    const text = imagePaths.length > 0 ? this.formatPromptWithImages(session, prompt, imagePaths) : prompt
+
+    // Mark working before pasting so concurrent sends queue behind this one,
+    // and put the old status back if the agent never gets the prompt
+    const previousStatus = session.status
+    this.updateSessionStatus(session, 'working')
+
+    try {
+      // For external sessions, paste via the captured terminal info
+      if (session.type === 'external') {
+        await this.terminal.pasteBuffer({
+          target: session.terminal!.tmuxPane!,
+          text,
           isPaneId: true,
-          socket: session.terminal.tmuxSocket,
+          socket: session.terminal!.tmuxSocket,
+        })
+      } else {
+        await this.terminal.pasteBuffer({
+          target: session.tmuxSession!,
+          text,
         })
-        return { ok: true }
       }
-      return { ok: false, error: 'External session has no terminal info' }
+    } catch (err) {
+      if (session.status === 'working') {
+        this.updateSessionStatus(session, previousStatus)
+      }
+      throw err
     }
 
-    if (!session.tmuxSession) {
-      return { ok: false, error: 'Session has no tmux session' }
+    this.prompts.begin(promptId)
+  }
+
+  // ===========================================================================
+  // Prompt Queue
+  // ===========================================================================
+
+  /**
+   * Get the prompts queued for a session (oldest first).
+   */
+  getQueue(id: string): QueuedPrompt[] | undefined {
+    const session = this.sessions.get(id)
+    if (!session) return undefined
+    return session.queue ?? []
+  }
+
+  /**
+   * Reorder a session's queue.
+   * @throws Error if `order` is not a permutation of the queued prompt IDs
+   */
+  reorderQueue(id: string, order: string[]): QueuedPrompt[] | undefined {
+    const session = this.sessions.get(id)
+    if (!session) return undefined
+
+    const queue = session.queue ?? []
+    const byId = new Map(queue.map((item) => [item.id, item]))
+    if (order.length !== queue.length || new Set(order).size !== order.length || !order.every((i) => byId.has(i))) {
+      throw new Error('Order must list every queued prompt ID exactly once')
     }
 
-    if (session.status === 'offline') {
-      return { ok: false, error: 'Session is offline' }
+    const reordered = order.map((itemId) => byId.get(itemId)!)
+    this.setQueue(session, reordered)
+    return reordered
+  }
+
+  /**
+   * Remove a prompt from a session's queue (and its saved images).
+   */
+  async removeQueuedPrompt(id: string, promptId: string): Promise<boolean> {
+    const session = this.sessions.get(id)
+    const item = session?.queue?.find((q) => q.id === promptId)
+    if (!session || !item) return false
+
+    this.setQueue(session, session.queue!.filter((q) => q.id !== promptId))
+    this.prompts.cancel(promptId, 'Prompt removed from queue')
+
+    for (const path of item.imagePaths ?? []) {
+      await rm(path, { force: true }).catch(() => {})
     }
 
-    await this.tmux.pasteBuffer({
-      target: session.tmuxSession,
-      text: prompt,
-    })
+    return true
+  }
 
-    // Update activity and status
-    this.updateSessionStatus(session, 'working')
+  /**
+   * Send the next queued prompt if the session is ready for input.
+   */
+  private async dispatchQueue(session: Session): Promise<void> {
+    if (session.status !== 'idle' || this.startups.has(session.id)) return
+    const [next, ...rest] = session.queue ?? []
+    if (!next) return
 
-    return { ok: true }
+    this.setQueue(session, rest)
+
+    try {
+      await this.deliverPrompt(session, next.id, next.prompt, next.imagePaths)
+    } catch (err) {
+      // Put the prompt back so it isn't lost
+      this.setQueue(session, [next, ...(session.queue ?? [])])
+      throw err
+    }
+  }
+
+  /**
+   * Dispatch the next queued prompt in the background.
+   */
+  private scheduleDispatch(session: Session): void {
+    if (!session.queue?.length) return
+    this.dispatchQueue(session).catch((err) => {
+      this.emit('error', err instanceof Error ? err : new Error(String(err)))
+    })
+  }
+
+  private setQueue(session: Session, queue: QueuedPrompt[]): void {
+    session.queue = queue
+    this.markDirty()
+    this.emit('session:queue', session, queue)
   }
 
   /**
@@ -346,26 +675,26 @@ export class SessionManager extends EventEmitter {
     if (session.type === 'external') return false
     if (!session.tmuxSession) return false
 
-    await this.tmux.sendCtrlC(session.tmuxSession)
+    await this.terminal.sendCtrlC(session.tmuxSession)
     return true
   }
 
   /**
-   * Restart an offline session.
+   * Restart an offline session, or one whose agent failed to start.
    */
   async restart(id: string): Promise<Session | undefined> {
     const session = this.sessions.get(id)
 
     if (!session) return undefined
     if (session.type === 'external') return undefined
-    if (session.status !== 'offline') return undefined
+    if (session.status !== 'offline' && session.status !== 'error') return undefined
 
     const adapter = this.adapters.get(session.agent)
     if (!adapter) return undefined
 
     // Kill old tmux session if it somehow still exists
     if (session.tmuxSession) {
-      await this.tmux.killSession(session.tmuxSession).catch(() => {})
+      await this.terminal.killSession(session.tmuxSession).catch(() => {})
     }
 
     // Generate new tmux session name
@@ -376,15 +705,22 @@ export class SessionManager extends EventEmitter {
     const command = adapter.buildCommand()
 
     // Create new tmux session
-    await this.tmux.createSession(tmuxSessionName, {
+    await this.terminal.createSession(tmuxSessionName, {
       cwd: session.cwd,
       command,
+      env: this.getSessionEnv(session),
     })
 
     // Update session
     session.tmuxSession = tmuxSessionName
     session.agentSessionId = undefined // Clear old agent session ID
     this.updateSessionStatus(session, 'working')
+    this.watchStartup(session)
+
+    // Output from the new tmux session continues the same log
+    if (this.config.captureOutput) {
+      await this.startOutputCapture(session).catch((err: Error) => this.emit('error', err))
+    }
 
     // Clear old agent mapping
     for (const [agentId, managedId] of this.agentToManagedMap) {
@@ -398,6 +734,109 @@ export class SessionManager extends EventEmitter {
     return session
   }
 
+  // ===========================================================================
+  // Readiness
+  // ===========================================================================
+
+  /**
+   * Hold prompts to a just-started session until its adapter's ready signal
+   * (see AgentAdapter.readySignals), failing them after readyTimeoutMs.
+   */
+  private watchStartup(session: Session): void {
+    const signals = this.adapters.get(session.agent)?.readySignals
+    if (!signals?.sessionStart && !signals?.patterns?.length) return
+
+    this.clearStartup(session.id)
+    const timeoutMs = this.config.readyTimeoutMs ?? DEFAULT_READY_TIMEOUT_MS
+    const startup: Startup = {
+      timeout: setTimeout(() => this.failStartup(session, timeoutMs), timeoutMs),
+    }
+    startup.timeout.unref()
+
+    const patterns = signals.patterns
+    if (patterns?.length) {
+      let checking = false
+      startup.poll = setInterval(() => {
+        if (checking) return
+        checking = true
+        this.screenMatches(session, patterns)
+          .then((matched) => {
+            if (matched && this.startups.get(session.id) === startup) {
+              this.markReady(session)
+            }
+          })
+          .finally(() => {
+            checking = false
+          })
+      }, READY_CHECK_INTERVAL_MS)
+      startup.poll.unref()
+    }
+
+    this.startups.set(session.id, startup)
+  }
+
+  /**
+   * Whether a session's screen matches any of the patterns.
+   */
+  private async screenMatches(session: Session, patterns: RegExp[]): Promise<boolean> {
+    if (!session.tmuxSession) return false
+    try {
+      const screen = await this.terminal.capturePane(session.tmuxSession, { start: 0 })
+      return patterns.some((pattern) => pattern.test(screen))
+    } catch {
+      // The session may be gone - the health check marks it offline
+      return false
+    }
+  }
+
+  /**
+   * The agent is ready: send held prompts.
+   */
+  private markReady(session: Session): void {
+    this.clearStartup(session.id)
+    if (this.config.debug) {
+      console.error('[SessionManager] Agent ready:', session.id)
+    }
+    if (session.status === 'working') {
+      this.updateSessionStatus(session, 'idle')
+    }
+    this.scheduleDispatch(session)
+  }
+
+  /**
+   * The agent didn't become ready in time: fail the held prompts and put the
+   * session in the 'error' status, where prompts are refused until it is
+   * restarted (or a hook event shows the agent is running after all).
+   */
+  private failStartup(session: Session, timeoutMs: number): void {
+    this.clearStartup(session.id)
+    const reason = `Agent did not become ready within ${timeoutMs}ms`
+
+    const held = session.queue ?? []
+    if (held.length > 0) {
+      this.setQueue(session, [])
+      for (const item of held) {
+        this.prompts.cancel(item.id, reason)
+        for (const path of item.imagePaths ?? []) {
+          rm(path, { force: true }).catch(() => {})
+        }
+      }
+    }
+
+    session.error = reason
+    this.updateSessionStatus(session, 'error')
+    this.emit('error', new Error(`Session ${session.id}: ${reason}`))
+  }
+
+  private clearStartup(id: string): void {
+    const startup = this.startups.get(id)
+    if (!startup) return
+
+    clearTimeout(startup.timeout)
+    clearInterval(startup.poll)
+    this.startups.delete(id)
+  }
+
   // ===========================================================================
   // Session Linking
   // ===========================================================================
@@ -405,13 +844,18 @@ export class SessionManager extends EventEmitter {
   /**
    * Find or create a session for an agent session ID.
    * Used when processing events from hooks.
+   *
+   * Internal sessions are matched by the bridge session ID injected into their
+   * tmux environment; the cwd heuristic is only a fallback for hooks that don't
+   * forward it.
    */
   findOrCreateSession(
     agentSessionId: string,
     agent: AgentType,
     cwd: string,
     terminal?: TerminalInfo,
-    transcriptPath?: string
+    transcriptPath?: string,
+    bridgeSessionId?: string
   ): Session {
     // Resolve symlinks for consistent CWD matching (e.g., /tmp -> /private/tmp on macOS)
     try { cwd = realpathSync(cwd) } catch { /* use original if resolve fails */ }
@@ -434,7 +878,16 @@ export class SessionManager extends EventEmitter {
       }
     }
 
-    // Try to find an internal session with matching cwd that was recently created
+    // Internal session identified by the injected bridge session ID
+    if (bridgeSessionId) {
+      const session = this.sessions.get(bridgeSessionId)
+      if (session?.type === 'internal') {
+        this.linkSession(session, agentSessionId, terminal, transcriptPath)
+        return session
+      }
+    }
+
+    // Fallback: find an internal session with matching cwd that was recently created
     // and doesn't have an agent session ID yet. Window is generous (5 min) because
     // agents can take a while to initialize before firing their first event.
     const recentThreshold = Date.now() - 300000
@@ -445,17 +898,7 @@ export class SessionManager extends EventEmitter {
         session.cwd === cwd &&
         session.createdAt > recentThreshold
       ) {
-        // Link this session
-        session.agentSessionId = agentSessionId
-        this.agentToManagedMap.set(agentSessionId, session.id)
-        if (terminal) {
-          session.terminal = terminal
-        }
-        if (transcriptPath) {
-          session.transcriptPath = transcriptPath
-          this.startTranscriptWatcher(session)
-        }
-        this.markDirty()
+        this.linkSession(session, agentSessionId, terminal, transcriptPath)
         return session
       }
     }
@@ -521,6 +964,27 @@ export class SessionManager extends EventEmitter {
     return undefined
   }
 
+  /**
+   * Link an internal session to the agent session reporting events for it.
+   */
+  private linkSession(
+    session: Session,
+    agentSessionId: string,
+    terminal?: TerminalInfo,
+    transcriptPath?: string
+  ): void {
+    session.agentSessionId = agentSessionId
+    this.agentToManagedMap.set(agentSessionId, session.id)
+    if (terminal) {
+      session.terminal = terminal
+    }
+    if (transcriptPath) {
+      session.transcriptPath = transcriptPath
+      this.startTranscriptWatcher(session)
+    }
+    this.markDirty()
+  }
+
   // ===========================================================================
   // Status Updates
   // ===========================================================================
@@ -538,14 +1002,33 @@ export class SessionManager extends EventEmitter {
     session.status = newStatus
     session.lastActivity = Date.now()
 
-    if (newStatus !== 'working') {
+    // Keep the tool while waiting - it's usually what needs permission
+    if (newStatus !== 'working' && newStatus !== 'waiting') {
       session.currentTool = undefined
     }
+    if (newStatus !== 'waiting') {
+      session.waitingFor = undefined
+      this.paneWaiting.delete(session.id)
+    }
+    if (newStatus !== 'error') {
+      session.error = undefined
+    }
 
     this.markDirty()
     this.emit('session:status', session, oldStatus, newStatus)
   }
 
+  /**
+   * Mark a session as blocked on the user.
+   */
+  markWaiting(session: Session, reason: WaitingReason): void {
+    if (session.waitingFor !== reason) {
+      session.waitingFor = reason
+      this.markDirty()
+    }
+    this.updateSessionStatus(session, 'waiting')
+  }
+
   /**
    * Update a session's current tool.
    */
@@ -555,6 +1038,110 @@ export class SessionManager extends EventEmitter {
     this.markDirty()
   }
 
+  /**
+   * Apply a hook event to a session's status and current tool, and tag it with its prompt.
+   */
+  applyEvent(session: Session, event: AgentEvent): void {
+    // Tag the event with the prompt that started this turn (before the queue moves on)
+    this.prompts.track(session.id, event)
+
+    switch (event.type) {
+      case 'stop':
+      case 'session_start':
+        if (event.type === 'session_start' && this.adapters.get(session.agent)?.readySignals?.sessionStart) {
+          this.clearStartup(session.id)
+        }
+        // Agent is ready for input - send the next queued prompt, if any
+        this.updateSessionStatus(session, 'idle')
+        this.scheduleDispatch(session)
+        break
+      case 'session_end':
+        this.updateSessionStatus(session, 'idle')
+        break
+      case 'user_prompt_submit':
+        this.updateSessionStatus(session, 'working')
+        break
+      case 'pre_tool_use':
+        this.updateSessionStatus(session, 'working')
+        this.updateSessionTool(session, event.tool)
+        break
+      case 'post_tool_use':
+        // The tool ran, so any permission request was answered
+        if (session.status === 'waiting') {
+          this.updateSessionStatus(session, 'working')
+        }
+        this.updateSessionTool(session, undefined)
+        break
+      case 'notification':
+        if (event.waitingFor) {
+          this.markWaiting(session, event.waitingFor)
+        }
+        break
+    }
+  }
+
+  // ===========================================================================
+  // Image Attachments
+  // ===========================================================================
+
+  /**
+   * Get the directory holding a session's image attachments.
+   */
+  getSessionImagesDir(sessionId: string): string {
+    const imagesDir = this.config.imagesDir ?? join(dirname(this.config.sessionsFile), 'images')
+    return join(imagesDir, sessionId)
+  }
+
+  /**
+   * Decode and save image attachments for a session.
+   * @returns Absolute paths to the saved files
+   */
+  private async saveImages(session: Session, images: ImageInput[]): Promise<string[]> {
+    const dir = this.getSessionImagesDir(session.id)
+    const decoded: { data: Buffer; ext: string; name: string }[] = []
+
+    // Validate everything before writing anything
+    for (const [index, image] of images.entries()) {
+      const ext = IMAGE_EXTENSIONS[image.mediaType]
+      if (!ext) {
+        throw new Error(`Unsupported image type: ${image.mediaType}`)
+      }
+      const data = Buffer.from(image.data, 'base64')
+      if (data.length === 0) {
+        throw new Error(`Image ${index + 1} has no data`)
+      }
+      // Keep only safe filename characters so paths can be pasted verbatim
+      const baseName = (image.name ?? `image-${index + 1}`)
+        .replace(/\.[^.]*$/, '')
+        .replace(/[^a-zA-Z0-9_-]/g, '_')
+        .slice(0, 64)
+      decoded.push({ data, ext, name: baseName || `image-${index + 1}` })
+    }
+
+    await mkdir(dir, { recursive: true })
+
+    const stamp = Date.now()
+    const paths: string[] = []
+    for (const [index, image] of decoded.entries()) {
+      const path = join(dir, `${stamp}-${index + 1}-${image.name}.${image.ext}`)
+      await writeFile(path, image.data)
+      paths.push(path)
+    }
+
+    return paths
+  }
+
+  /**
+   * Build the prompt text referencing saved images for the session's agent.
+   */
+  private formatPromptWithImages(session: Session, prompt: string, imagePaths: string[]): string {
+    const adapter = this.adapters.get(session.agent)
+    if (adapter?.formatPromptWithImages) {
+      return adapter.formatPromptWithImages(prompt, imagePaths)
+    }
+    return [prompt, '', ...imagePaths.map((p) => `Image: ${p}`)].join('\n')
+  }
+
   // ===========================================================================
   // Transcript Watchers
   // ===========================================================================
@@ -589,6 +1176,7 @@ export class SessionManager extends EventEmitter {
       }
 
       session.lastActivity = Date.now()
+      this.prompts.track(session.id, event)
       this.emit('event', event)
     })
 
@@ -613,16 +1201,173 @@ export class SessionManager extends EventEmitter {
     }
   }
 
+  // ===========================================================================
+  // Terminal Output
+  // ===========================================================================
+
+  /**
+   * Get the file an internal session's pane output is piped to.
+   */
+  getSessionOutputFile(sessionId: string): string {
+    const outputDir = this.config.outputDir ?? join(dirname(this.config.sessionsFile), 'output')
+    return join(outputDir, `${sessionId}.log`)
+  }
+
+  /**
+   * Read a session's captured terminal output.
+   * @returns The chunk, or undefined if the session doesn't exist or has no output log
+   */
+  async readOutput(
+    id: string,
+    offset = 0,
+    limit = DEFAULT_OUTPUT_CHUNK_BYTES
+  ): Promise<OutputChunk | undefined> {
+    const session = this.sessions.get(id)
+    if (!session || session.type !== 'internal') return undefined
+
+    const slice = await readOutputLog(this.getSessionOutputFile(id), offset, limit)
+    return slice ? { sessionId: id, ...slice } : undefined
+  }
+
+  /**
+   * Pipe a session's pane to its output log and start tailing the log.
+   */
+  private async startOutputCapture(session: Session): Promise<void> {
+    if (!session.tmuxSession || !this.terminal.pipePane) return
+
+    const file = this.getSessionOutputFile(session.id)
+    await mkdir(dirname(file), { recursive: true })
+    await this.terminal.pipePane(session.tmuxSession, file)
+
+    if (this.outputWatchers.has(session.id)) return
+
+    const watcher = new OutputWatcher(file, { debug: this.config.debug })
+    watcher.on('data', (slice) => {
+      this.emit('session:output', session, { sessionId: session.id, ...slice })
+    })
+    watcher.on('error', (err: Error) => {
+      this.emit('error', err)
+    })
+    this.outputWatchers.set(session.id, watcher)
+    await watcher.start()
+  }
+
+  /**
+   * Stop tailing a session's output log and close its pipe.
+   */
+  private async stopOutputCapture(session: Session): Promise<void> {
+    const watcher = this.outputWatchers.get(session.id)
+    if (!watcher) return
+
+    watcher.stop()
+    this.outputWatchers.delete(session.id)
+    if (session.tmuxSession) {
+      await this.terminal.stopPipePane?.(session.tmuxSession).catch(() => {
+        // Ignore errors - the tmux session may already be gone
+      })
+    }
+  }
+
+  // ===========================================================================
+  // Terminal
+  // ===========================================================================
+
+  /**
+   * Capture an internal session's screen for attaching a terminal emulator.
+   * Output printed after `offset` is streamed from the output log.
+   * @returns The snapshot or undefined if the session isn't running or has no output log
+   */
+  async getTerminalSnapshot(id: string): Promise<TerminalSnapshot | undefined> {
+    const target = this.getTerminalTarget(id)
+    const getPaneInfo = this.terminal.getPaneInfo?.bind(this.terminal)
+    if (!target || !getPaneInfo) return undefined
+
+    // Take the log size first: output printed meanwhile is drawn twice rather than lost
+    const log = await readOutputLog(this.getSessionOutputFile(id), Number.MAX_SAFE_INTEGER, 0)
+    if (!log) return undefined
+
+    try {
+      const [screen, pane] = await Promise.all([
+        this.terminal.capturePane(target, { start: 0, escapes: true }),
+        getPaneInfo(target),
+      ])
+      const lines = screen.split('\n')
+      if (lines[lines.length - 1] === '') lines.pop()
+
+      return {
+        sessionId: id,
+        cols: pane.width,
+        rows: pane.height,
+        offset: log.size,
+        // Clear, redraw line by line, reset attributes and restore the cursor
+        data: `\x1b[H\x1b[2J${lines.join('\r\n')}\x1b[0m\x1b[${pane.cursorY + 1};${pane.cursorX + 1}H`,
+      }
+    } catch (err) {
+      if (this.config.debug) {
+        console.error('[SessionManager] Failed to capture terminal:', err)
+      }
+      return undefined
+    }
+  }
+
+  /**
+   * Type raw terminal input (e.g. xterm.js `onData`) into an internal session.
+   * @returns Whether the input was sent
+   */
+  async sendTerminalInput(id: string, data: string): Promise<boolean> {
+    const target = this.getTerminalTarget(id)
+    if (!target) return false
+    if (!data) return true
+
+    try {
+      await this.terminal.sendKeys({ target, keys: data, literal: true })
+      return true
+    } catch (err) {
+      if (this.config.debug) {
+        console.error('[SessionManager] Failed to send terminal input:', err)
+      }
+      return false
+    }
+  }
+
+  /**
+   * Resize an internal session's terminal.
+   * @returns Whether the terminal was resized
+   */
+  async resizeTerminal(id: string, cols: number, rows: number): Promise<boolean> {
+    const target = this.getTerminalTarget(id)
+    if (!target || !this.terminal.resizeWindow) return false
+
+    try {
+      await this.terminal.resizeWindow(target, cols, rows)
+      return true
+    } catch (err) {
+      if (this.config.debug) {
+        console.error('[SessionManager] Failed to resize terminal:', err)
+      }
+      return false
+    }
+  }
+
+  /**
+   * Get the tmux session of a running internal session.
+   */
+  private getTerminalTarget(id: string): string | undefined {
+    const session = this.sessions.get(id)
+    if (!session || session.type !== 'internal' || session.status === 'offline') return undefined
+    return session.tmuxSession
+  }
+
   // ===========================================================================
   // Health Checks
   // ===========================================================================
 
   private startHealthChecks(): void {
-    // Check tmux session health every 10 seconds
+    // Check tmux session health every 10 seconds, unless control mode pushes changes
     this.healthCheckInterval = setInterval(() => {
-      this.checkTmuxHealth().catch((err) => {
-        this.emit('error', err)
-      })
+      if (!this.terminal.reportsSessionChanges?.()) {
+        this.requestTmuxHealthCheck()
+      }
     }, 10000)
 
     // Check working timeout every 10 seconds
@@ -636,6 +1381,14 @@ export class SessionManager extends EventEmitter {
         this.emit('error', err)
       })
     }, 60000)
+
+    if (this.config.detectWaitingFromPane) {
+      this.paneCheckInterval = setInterval(() => {
+        this.checkPaneWaiting().catch((err) => {
+          this.emit('error', err)
+        })
+      }, this.config.paneCheckIntervalMs ?? 3000)
+    }
   }
 
   private stopHealthChecks(): void {
@@ -651,22 +1404,56 @@ export class SessionManager extends EventEmitter {
       clearInterval(this.cleanupInterval)
       this.cleanupInterval = undefined
     }
+    if (this.paneCheckInterval) {
+      clearInterval(this.paneCheckInterval)
+      this.paneCheckInterval = undefined
+    }
+  }
+
+  /**
+   * Run a tmux health check, or another one after the running one (changes
+   * are often reported in bursts).
+   */
+  private requestTmuxHealthCheck(): void {
+    if (this.tmuxHealthCheck) {
+      this.tmuxHealthRecheck = true
+      return
+    }
+
+    this.tmuxHealthCheck = this.checkTmuxHealth()
+      .catch((err) => {
+        this.emit('error', err)
+      })
+      .finally(() => {
+        this.tmuxHealthCheck = null
+        if (this.tmuxHealthRecheck) {
+          this.tmuxHealthRecheck = false
+          this.requestTmuxHealthCheck()
+        }
+      })
   }
 
   /**
    * Check if tmux sessions are still alive.
    */
   private async checkTmuxHealth(): Promise<void> {
-    const tmuxSessions = await this.tmux.listSessions()
+    // Sessions and their tmux session as of the listing
+    const targets = [...this.sessions.values()]
+      .filter((session) => session.type === 'internal' && session.tmuxSession)
+      .map((session) => [session, session.tmuxSession] as const)
+    const tmuxSessions = await this.terminal.listSessions()
     const tmuxNames = new Set(tmuxSessions.map((s) => s.name))
 
-    for (const session of this.sessions.values()) {
-      if (session.type !== 'internal') continue
-      if (!session.tmuxSession) continue
+    for (const [session, tmuxSession] of targets) {
+      // Deleted or restarted in the meantime
+      if (this.sessions.get(session.id) !== session || session.tmuxSession !== tmuxSession) continue
 
-      const isAlive = tmuxNames.has(session.tmuxSession)
+      const isAlive = tmuxNames.has(tmuxSession!)
 
       if (!isAlive && session.status !== 'offline') {
+        // The pipe ended with the pane; keep the log for readOutput
+        await this.stopOutputCapture(session)
+        this.clearStartup(session.id)
         this.updateSessionStatus(session, 'offline')
       } else if (isAlive && session.status === 'offline') {
         this.updateSessionStatus(session, 'idle')
@@ -674,6 +1461,45 @@ export class SessionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Detect permission dialogs in working sessions' panes.
+   */
+  private async checkPaneWaiting(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      const fromPane = this.paneWaiting.has(session.id)
+      if (session.status !== 'working' && !fromPane) continue
+
+      const patterns = this.adapters.get(session.agent)?.waitingPatterns
+      if (!patterns?.length) continue
+
+      let content: string
+      try {
+        if (session.type === 'internal' && session.tmuxSession) {
+          content = await this.terminal.capturePane(session.tmuxSession, { start: -20 })
+        } else if (session.terminal?.tmuxPane) {
+          content = await this.terminal.capturePane(session.terminal.tmuxPane, {
+            start: -20,
+            isPaneId: true,
+            socket: session.terminal.tmuxSocket,
+          })
+        } else {
+          continue
+        }
+      } catch {
+        // Pane may be gone - health checks handle that
+        continue
+      }
+
+      const matched = patterns.some((pattern) => pattern.test(content))
+      if (matched && session.status === 'working') {
+        this.markWaiting(session, 'permission')
+        this.paneWaiting.add(session.id)
+      } else if (!matched && fromPane) {
+        this.updateSessionStatus(session, 'working')
+      }
+    }
+  }
+
   /**
    * Check for sessions stuck in working state.
    */
@@ -685,6 +1511,8 @@ export class SessionManager extends EventEmitter {
       if (session.status === 'working') {
         const elapsed = now - session.lastActivity
         if (elapsed > timeout) {
+          // No hook events for a while, but the turn may still be running (a
+          // long tool call): queued prompts wait for a stop event
           this.updateSessionStatus(session, 'idle')
         }
       }
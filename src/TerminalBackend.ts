@@ -0,0 +1,85 @@
+/**
+ * TerminalBackend - What SessionManager needs from the terminals agents run in
+ *
+ * TmuxExecutor is the default implementation; MemoryTerminalBackend is an
+ * in-memory fake for tests and demos. Sessions are named terminals running a
+ * shell; external sessions are addressed by pane ID (`isPaneId`) instead.
+ */
+
+import type {
+  CapturePaneOptions,
+  CreateTerminalSessionOptions,
+  PaneInfo,
+  PasteBufferOptions,
+  SendKeysOptions,
+} from './TmuxExecutor.js'
+
+export interface TerminalSessionInfo {
+  name: string
+  created: Date
+  attached: boolean
+}
+
+export interface TerminalBackend {
+  /**
+   * Called when sessions are created or end, for backends that can tell.
+   * SessionManager sets it; backends that never call it are polled.
+   */
+  onSessionsChanged?: () => void
+
+  /**
+   * Create a session and type `options.command` into it.
+   * @throws Error if the name is invalid or taken
+   */
+  createSession(name: string, options?: CreateTerminalSessionOptions): Promise<void>
+
+  /**
+   * Kill a session.
+   * @returns Whether it existed
+   */
+  killSession(name: string): Promise<boolean>
+
+  /** List running sessions */
+  listSessions(): Promise<TerminalSessionInfo[]>
+
+  /** Check whether a session is running */
+  sessionExists(name: string): Promise<boolean>
+
+  /** Paste text (e.g. a prompt) into a session or pane, optionally followed by Enter */
+  pasteBuffer(options: PasteBufferOptions): Promise<void>
+
+  /** Send key names (e.g. `Enter`), or literal text with `literal` */
+  sendKeys(options: SendKeysOptions): Promise<void>
+
+  /** Send Ctrl+C */
+  sendCtrlC(target: string, isPaneId?: boolean, socket?: string): Promise<void>
+
+  /** Capture screen (and history) lines, newline-terminated */
+  capturePane(target: string, options?: CapturePaneOptions): Promise<string>
+
+  // Optional capabilities: SessionManager skips the features a backend lacks
+
+  /** Start pushing session changes (tmux control mode). @returns Whether it's pushing */
+  startControlMode?(): Promise<boolean>
+
+  /** Stop pushing session changes */
+  stopControlMode?(): Promise<void>
+
+  /** Whether session changes currently arrive through onSessionsChanged (no polling needed) */
+  reportsSessionChanges?(): boolean
+
+  /** Append everything a session prints to a file (output streaming) */
+  pipePane?(target: string, file: string): Promise<void>
+
+  /** Stop appending a session's output to its file */
+  stopPipePane?(target: string): Promise<void>
+
+  /** Get a session's size and cursor position (interactive terminal) */
+  getPaneInfo?(target: string): Promise<PaneInfo>
+
+  /** Resize a session (interactive terminal) */
+  resizeWindow?(target: string, cols: number, rows: number): Promise<void>
+
+  /** Show a session in a terminal window on the desktop */
+  spawnVisibleTerminal?(name: string): Promise<void>
+}
@@ -0,0 +1,257 @@
+/**
+ * TmuxControl - A long-lived tmux control-mode connection (`tmux -C`)
+ *
+ * Commands written to a control client are answered in order with
+ * %begin/%end (or %error) blocks, and the tmux server pushes notifications
+ * such as %sessions-changed and %exit between them. One connection replaces
+ * forking a tmux process per command and polling for session changes.
+ */
+
+import { EventEmitter } from 'events'
+import { spawn, type ChildProcess } from 'child_process'
+import { createInterface } from 'readline'
+
+/** Session the control client attaches to (a control client needs one) */
+export const DEFAULT_CONTROL_SESSION = 'coding-agent-bridge-control'
+
+/** How long to wait for the control client to attach */
+const CONNECT_TIMEOUT_MS = 5000
+
+/** How long to wait for the control client to exit on close */
+const CLOSE_TIMEOUT_MS = 2000
+
+export interface TmuxControlOptions {
+  /** Session to attach to, created if missing. Default: 'coding-agent-bridge-control' */
+  session?: string
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+export interface TmuxControlEvents {
+  /** A session was created, destroyed or renamed */
+  'sessions-changed': []
+  /** The connection ended (tmux server exited, session killed, or close()) */
+  exit: [reason: string | undefined]
+}
+
+/**
+ * The control connection can't run a command: it isn't connected, closed
+ * while the command was pending, or the command can't be sent over it.
+ * Unlike a command tmux rejects, running it another way may work.
+ */
+export class TmuxControlUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TmuxControlUnavailableError'
+  }
+}
+
+interface PendingCommand {
+  resolve: (output: string) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Quote an argument for tmux's command parser. Nothing is expanded inside
+ * single quotes; a single quote itself is closed, escaped and reopened.
+ */
+function quoteArg(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`
+}
+
+export class TmuxControl extends EventEmitter {
+  private options: Required<TmuxControlOptions>
+  private proc: ChildProcess | null = null
+  private connected = false
+  private closing = false
+  private exitReason: string | undefined
+  /** Commands written to tmux, oldest first; replies come in the same order */
+  private pending: PendingCommand[] = []
+  /** Reply block being read */
+  private block: { number: string; fromClient: boolean; lines: string[] } | null = null
+
+  constructor(options: TmuxControlOptions = {}) {
+    super()
+    this.options = {
+      session: options.session ?? DEFAULT_CONTROL_SESSION,
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Start the control client, creating its session if needed.
+   * Resolves once tmux has attached it.
+   */
+  connect(): Promise<void> {
+    if (this.proc) {
+      return Promise.reject(new Error('Control client already started'))
+    }
+
+    return new Promise((resolve, reject) => {
+      // `cat` keeps the session's only pane alive without starting a shell
+      const proc = spawn('tmux', ['-C', 'new-session', '-A', '-s', this.options.session, 'cat'], {
+        stdio: ['pipe', 'pipe', 'ignore'],
+      })
+      this.proc = proc
+
+      const timer = setTimeout(() => {
+        this.debug('Timed out attaching')
+        proc.kill()
+      }, CONNECT_TIMEOUT_MS)
+
+      const onAttached = () => {
+        clearTimeout(timer)
+        this.connected = true
+        this.debug('Attached to', this.options.session)
+        resolve()
+      }
+
+      proc.on('error', (err) => {
+        clearTimeout(timer)
+        this.debug('Failed to start:', err.message)
+        if (!this.connected) reject(new Error(`Failed to execute tmux: ${err.message}`))
+      })
+
+      proc.on('close', () => {
+        clearTimeout(timer)
+        const wasConnected = this.connected
+        this.connected = false
+        this.proc = null
+        this.block = null
+        for (const command of this.pending.splice(0)) {
+          command.reject(new TmuxControlUnavailableError('tmux control connection closed'))
+        }
+
+        if (wasConnected) {
+          this.debug('Exited:', this.exitReason ?? '(no reason)')
+          this.emit('exit', this.exitReason)
+        } else {
+          reject(new Error(`tmux control client exited before attaching${this.exitReason ? `: ${this.exitReason}` : ''}`))
+        }
+      })
+
+      const lines = createInterface({ input: proc.stdout! })
+      lines.on('line', (line) => this.handleLine(line, onAttached))
+    })
+  }
+
+  /**
+   * Whether commands can be sent.
+   */
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  /**
+   * Run a tmux command (e.g. `['list-sessions', '-F', '#{session_name}']`).
+   * @returns The command's output
+   * @throws TmuxControlUnavailableError if it couldn't be run over the connection
+   * @throws Error if tmux rejected the command
+   */
+  run(args: string[]): Promise<string> {
+    if (!this.connected || !this.proc?.stdin?.writable) {
+      return Promise.reject(new TmuxControlUnavailableError('tmux control connection not open'))
+    }
+    // Commands are newline-terminated
+    if (args.some((arg) => /[\n\0]/.test(arg))) {
+      return Promise.reject(new TmuxControlUnavailableError('Command contains a newline'))
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+      this.proc!.stdin!.write(`${args.map(quoteArg).join(' ')}\n`)
+    })
+  }
+
+  /**
+   * Disconnect. Kills the control session unless another client is attached to it.
+   */
+  async close(): Promise<void> {
+    const proc = this.proc
+    if (!proc || this.closing) return
+    this.closing = true
+
+    const exited = new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        proc.kill()
+        resolve()
+      }, CLOSE_TIMEOUT_MS)
+      proc.once('close', () => {
+        clearTimeout(timer)
+        resolve()
+      })
+    })
+
+    try {
+      const attached = await this.run(['display-message', '-p', '-t', this.options.session, '#{session_attached}'])
+      if (attached.trim() === '1') {
+        await this.run(['kill-session', '-t', this.options.session]).catch(() => {
+          // The session exiting ends the client; it may not get to reply
+        })
+      }
+    } catch {
+      // Already disconnected
+    }
+    proc.stdin?.end()
+
+    await exited
+    this.closing = false
+  }
+
+  /**
+   * Handle a line from the control client: part of a reply block, or a notification.
+   */
+  private handleLine(line: string, onAttached: () => void): void {
+    if (this.block) {
+      const [tag, , number] = line.split(' ')
+      if ((tag === '%end' || tag === '%error') && number === this.block.number) {
+        const { fromClient, lines } = this.block
+        this.block = null
+        if (fromClient) {
+          this.finishCommand(tag === '%end', lines)
+        } else if (!this.connected && tag === '%end') {
+          // The reply to new-session itself: attached
+          onAttached()
+        }
+      } else {
+        this.block.lines.push(line)
+      }
+      return
+    }
+
+    if (line.startsWith('%begin ')) {
+      // %begin <time> <command number> <flags>; flags are 1 for commands this client sent
+      const [, , number = '', flags] = line.split(' ')
+      this.block = { number, fromClient: flags === '1', lines: [] }
+    } else if (line === '%sessions-changed') {
+      this.emit('sessions-changed')
+    } else if (line === '%exit' || line.startsWith('%exit ')) {
+      this.exitReason = line.slice(6) || undefined
+    }
+  }
+
+  private finishCommand(ok: boolean, lines: string[]): void {
+    const command = this.pending.shift()
+    if (!command) return
+
+    const output = lines.length > 0 ? `${lines.join('\n')}\n` : ''
+    if (ok) {
+      command.resolve(output)
+    } else {
+      command.reject(new Error(`tmux error: ${output.trim()}`))
+    }
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[TmuxControl]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new TmuxControl instance.
+ */
+export function createTmuxControl(options?: TmuxControlOptions): TmuxControl {
+  return new TmuxControl(options)
+}
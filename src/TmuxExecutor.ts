@@ -11,6 +11,8 @@ import { writeFile, unlink, mkdtemp, rmdir } from 'fs/promises'
 import { tmpdir } from 'os'
 import { join } from 'path'
 import { randomBytes } from 'crypto'
+import { TmuxControl, TmuxControlUnavailableError } from './TmuxControl.js'
+import type { TerminalBackend } from './TerminalBackend.js'
 
 const execAsync = promisify(exec)
 
@@ -33,6 +35,11 @@ const VALID_SESSION_NAME = /^[a-zA-Z0-9_-]+$/
  */
 const VALID_PANE_ID = /^%\d+$/
 
+/**
+ * Valid environment variable name pattern.
+ */
+const VALID_ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
 /**
  * Validate a tmux session name.
  * @throws Error if the name contains invalid characters
@@ -72,6 +79,19 @@ export function validatePaneId(paneId: string): void {
   }
 }
 
+/**
+ * Validate an environment variable for a tmux session.
+ * @throws Error if the name is invalid or the value spans lines
+ */
+export function validateEnvVar(name: string, value: string): void {
+  if (!VALID_ENV_NAME.test(name)) {
+    throw new Error(`Invalid environment variable name: "${name}"`)
+  }
+  if (/[\n\r]/.test(value)) {
+    throw new Error(`Invalid value for environment variable "${name}": must be a single line`)
+  }
+}
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -90,19 +110,83 @@ export interface TmuxExecutorOptions {
   logger?: (message: string) => void
   /** Default terminal emulator for spawning visible terminals (auto-detect if not specified) */
   terminalEmulator?: string
+  /** Called after each tmux command (e.g. `send-keys`) with its duration and error, if any */
+  onCommand?: (command: string, durationMs: number, error?: Error) => void
+  /** Session the control-mode client attaches to (see startControlMode) */
+  controlSession?: string
+  /**
+   * Called in control mode when tmux sessions are created or destroyed, and
+   * when the control connection drops or comes back (sessions may have changed)
+   */
+  onSessionsChanged?: () => void
 }
 
+/** First delay before reconnecting a dropped control connection; doubles up to the max */
+const CONTROL_RETRY_MS = 1000
+const CONTROL_RETRY_MAX_MS = 30000
+
+/** How long a new session's shell gets to draw its prompt before the command is typed anyway */
+const SHELL_READY_TIMEOUT_MS = 2000
+const SHELL_READY_POLL_MS = 25
+
+/**
+ * Delay between pasting and pressing Enter. Agent TUIs take in a paste
+ * asynchronously and show nothing that marks the end of it (Claude Code
+ * collapses long pastes to a placeholder), so there is no screen state to
+ * wait for; an Enter sent too early is swallowed or submits a partial prompt.
+ */
+const PASTE_SETTLE_MS = 500
+
 export interface SendKeysOptions {
   /** Target session or pane */
   target: string
   /** Keys to send */
   keys: string
+  /** Send the keys as literal text instead of key names (e.g. raw terminal input) */
+  literal?: boolean
   /** Whether target is a pane ID (requires socket) */
   isPaneId?: boolean
   /** tmux socket path (required for pane IDs) */
   socket?: string
 }
 
+export interface CreateTerminalSessionOptions {
+  /** Working directory */
+  cwd?: string
+  /** Command typed into the session's shell */
+  command?: string
+  /** Initial width in columns (with height) */
+  width?: number
+  /** Initial height in rows (with width) */
+  height?: number
+  /** Environment variables set in the session */
+  env?: Record<string, string>
+}
+
+export interface CapturePaneOptions {
+  /** First line to capture: 0 is the top of the screen, negative lines are history. Default: -100 */
+  start?: number
+  /** Last line to capture. Default: the bottom of the screen */
+  end?: number
+  /** Include colors and attributes as escape sequences */
+  escapes?: boolean
+  /** Whether target is a pane ID */
+  isPaneId?: boolean
+  /** tmux socket path (required for pane IDs) */
+  socket?: string
+}
+
+export interface PaneInfo {
+  /** Width in columns */
+  width: number
+  /** Height in rows */
+  height: number
+  /** Cursor column (zero-based) */
+  cursorX: number
+  /** Cursor row (zero-based) */
+  cursorY: number
+}
+
 export interface PasteBufferOptions {
   /** Target session or pane */
   target: string
@@ -123,15 +207,123 @@ export interface PasteBufferOptions {
 /**
  * Safe executor for tmux commands.
  */
-export class TmuxExecutor {
+export class TmuxExecutor implements TerminalBackend {
   private debug: boolean
   private log: (message: string) => void
   private terminalEmulator?: string
+  private onCommand?: TmuxExecutorOptions['onCommand']
+  private controlSession?: string
+  /** See TmuxExecutorOptions.onSessionsChanged */
+  onSessionsChanged?: TmuxExecutorOptions['onSessionsChanged']
+  /** Connected control-mode client, if any */
+  private control: TmuxControl | null = null
+  private controlEnabled = false
+  private controlRetryTimer?: NodeJS.Timeout
+  private controlRetryMs = CONTROL_RETRY_MS
 
   constructor(options: TmuxExecutorOptions = {}) {
     this.debug = options.debug ?? false
     this.log = options.logger ?? ((msg) => console.log(`[TmuxExecutor] ${msg}`))
     this.terminalEmulator = options.terminalEmulator
+    this.onCommand = options.onCommand
+    this.controlSession = options.controlSession
+    this.onSessionsChanged = options.onSessionsChanged
+  }
+
+  // ===========================================================================
+  // Control Mode
+  // ===========================================================================
+
+  /**
+   * Run commands over a long-lived control-mode connection (`tmux -C`) instead
+   * of forking tmux for each, and report session changes as they happen
+   * (`onSessionsChanged`). Commands fall back to forking while the connection
+   * is down, and a dropped connection is reopened with backoff.
+   * @returns Whether the connection is up
+   */
+  async startControlMode(): Promise<boolean> {
+    if (this.controlEnabled) return this.control !== null
+    if (!(await this.isAvailable())) return false
+
+    this.controlEnabled = true
+    return this.connectControl()
+  }
+
+  /**
+   * Close the control-mode connection and go back to forking tmux.
+   */
+  async stopControlMode(): Promise<void> {
+    this.controlEnabled = false
+    clearTimeout(this.controlRetryTimer)
+    this.controlRetryTimer = undefined
+
+    const control = this.control
+    this.control = null
+    await control?.close()
+  }
+
+  /**
+   * Whether commands currently go over the control-mode connection.
+   */
+  isControlModeConnected(): boolean {
+    return this.control?.isConnected() ?? false
+  }
+
+  /**
+   * Whether session changes are pushed to onSessionsChanged (control mode is connected).
+   */
+  reportsSessionChanges(): boolean {
+    return this.isControlModeConnected()
+  }
+
+  private async connectControl(): Promise<boolean> {
+    const control = new TmuxControl({ session: this.controlSession, debug: this.debug })
+    control.on('sessions-changed', () => this.onSessionsChanged?.())
+    control.on('exit', (reason) => {
+      if (this.control !== control) return
+      this.control = null
+      if (this.debug) {
+        this.log(`Control connection closed: ${reason ?? 'unknown reason'}`)
+      }
+      // The tmux server may have exited with every session
+      this.onSessionsChanged?.()
+      this.scheduleControlReconnect()
+    })
+
+    try {
+      await control.connect()
+    } catch (error) {
+      if (this.debug) {
+        this.log(`Control mode unavailable: ${error}`)
+      }
+      this.scheduleControlReconnect()
+      return false
+    }
+
+    if (!this.controlEnabled) {
+      // Stopped while connecting
+      await control.close()
+      return false
+    }
+    this.control = control
+    this.controlRetryMs = CONTROL_RETRY_MS
+    return true
+  }
+
+  private scheduleControlReconnect(): void {
+    if (!this.controlEnabled || this.controlRetryTimer) return
+
+    const delay = this.controlRetryMs
+    this.controlRetryMs = Math.min(delay * 2, CONTROL_RETRY_MAX_MS)
+    this.controlRetryTimer = setTimeout(() => {
+      this.controlRetryTimer = undefined
+      this.connectControl()
+        .then((connected) => {
+          if (connected) this.onSessionsChanged?.()
+        })
+        .catch(() => {})
+    }, delay)
+    this.controlRetryTimer.unref()
   }
 
   /**
@@ -151,8 +343,10 @@ export class TmuxExecutor {
    */
   async listSessions(): Promise<TmuxSession[]> {
     try {
-      const { stdout } = await execAsync(
-        'tmux list-sessions -F "#{session_name}|#{session_windows}|#{session_created}|#{session_attached}"'
+      // Not reported to onCommand: no server running is an empty list, not a failure
+      const { stdout } = await this.runTmux(
+        ['list-sessions', '-F', '#{session_name}|#{session_windows}|#{session_created}|#{session_attached}'],
+        true
       )
 
       return stdout
@@ -183,7 +377,7 @@ export class TmuxExecutor {
   async sessionExists(name: string): Promise<boolean> {
     validateSessionName(name)
     try {
-      await execAsync(`tmux has-session -t ${name}`)
+      await this.runTmux(['has-session', '-t', name], false)
       return true
     } catch {
       return false
@@ -199,19 +393,14 @@ export class TmuxExecutor {
    *
    * This keeps the session alive even if the command exits.
    */
-  async createSession(
-    name: string,
-    options: {
-      cwd?: string
-      command?: string
-      width?: number
-      height?: number
-    } = {}
-  ): Promise<void> {
+  async createSession(name: string, options: CreateTerminalSessionOptions = {}): Promise<void> {
     validateSessionName(name)
     if (options.cwd) {
       validatePath(options.cwd)
     }
+    for (const [key, value] of Object.entries(options.env ?? {})) {
+      validateEnvVar(key, value)
+    }
 
     // Check if session already exists
     if (await this.sessionExists(name)) {
@@ -229,6 +418,10 @@ export class TmuxExecutor {
       args.push('-x', String(options.width), '-y', String(options.height))
     }
 
+    for (const [key, value] of Object.entries(options.env ?? {})) {
+      args.push('-e', `${key}=${value}`)
+    }
+
     if (this.debug) {
       this.log(`Creating session: tmux ${args.join(' ')}`)
     }
@@ -238,13 +431,12 @@ export class TmuxExecutor {
 
     // If a command was provided, send it
     if (options.command) {
-      // Small delay to ensure session is ready
-      await this.sleep(100)
+      await this.waitForShellPrompt(name)
       // Unset CLAUDECODE to prevent nested-session detection errors
-      // when the bridge itself runs inside a Claude Code session
+      // when the bridge itself runs inside a Claude Code session. The shell
+      // reads typed lines one at a time, so the command can follow at once.
       await this.sendKeys({ target: name, keys: 'unset CLAUDECODE' })
       await this.sendKeys({ target: name, keys: 'Enter' })
-      await this.sleep(100)
       await this.sendKeys({
         target: name,
         keys: options.command,
@@ -281,7 +473,7 @@ export class TmuxExecutor {
    * Send keys to a session or pane.
    */
   async sendKeys(options: SendKeysOptions): Promise<void> {
-    const { target, keys, isPaneId, socket } = options
+    const { target, keys, literal, isPaneId, socket } = options
 
     if (isPaneId) {
       validatePaneId(target)
@@ -298,7 +490,12 @@ export class TmuxExecutor {
       args.push('-S', socket)
     }
 
-    args.push('send-keys', '-t', target, keys)
+    args.push('send-keys', '-t', target)
+    if (literal) {
+      // `--` so input starting with '-' isn't read as a flag
+      args.push('-l', '--')
+    }
+    args.push(keys)
 
     if (this.debug) {
       this.log(`Sending keys: tmux ${args.join(' ')}`)
@@ -361,10 +558,7 @@ export class TmuxExecutor {
 
       // Send Enter if requested
       if (sendEnter) {
-        // Wait longer for Claude Code to process the paste, especially for long prompts
-        // 100ms was too short and caused race conditions where Enter was sent before
-        // the terminal processed the pasted text
-        await this.sleep(500)
+        await this.sleep(PASTE_SETTLE_MS)
         await this.sendKeys({
           target,
           keys: 'Enter',
@@ -399,16 +593,8 @@ export class TmuxExecutor {
   /**
    * Capture pane content.
    */
-  async capturePane(
-    target: string,
-    options: {
-      start?: number
-      end?: number
-      isPaneId?: boolean
-      socket?: string
-    } = {}
-  ): Promise<string> {
-    const { start = -100, end, isPaneId, socket } = options
+  async capturePane(target: string, options: CapturePaneOptions = {}): Promise<string> {
+    const { start = -100, end, escapes, isPaneId, socket } = options
 
     if (isPaneId) {
       validatePaneId(target)
@@ -427,17 +613,115 @@ export class TmuxExecutor {
     if (end !== undefined) {
       args.push('-E', String(end))
     }
+    if (escapes) {
+      args.push('-e')
+    }
 
     const { stdout } = await this.execTmux(args, true)
     return stdout
   }
 
+  /**
+   * Get a session's pane size and cursor position (zero-based).
+   */
+  async getPaneInfo(target: string): Promise<PaneInfo> {
+    validateSessionName(target)
+
+    const { stdout } = await this.execTmux(
+      ['display-message', '-p', '-t', target, '#{pane_width} #{pane_height} #{cursor_x} #{cursor_y}'],
+      true
+    )
+    const [width = 0, height = 0, cursorX = 0, cursorY = 0] = stdout.trim().split(' ').map(Number)
+    return { width, height, cursorX, cursorY }
+  }
+
+  /**
+   * Resize a session's window (and so its pane) to a fixed size.
+   */
+  async resizeWindow(target: string, cols: number, rows: number): Promise<void> {
+    validateSessionName(target)
+    if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 1 || rows < 1) {
+      throw new Error(`Invalid size: ${cols}x${rows}`)
+    }
+
+    await this.execTmux(['resize-window', '-t', target, '-x', String(cols), '-y', String(rows)])
+  }
+
+  /**
+   * Append everything a session's pane prints to a file (tmux pipe-pane).
+   * Replaces any pipe already open on the pane.
+   */
+  async pipePane(target: string, file: string): Promise<void> {
+    validateSessionName(target)
+    // pipe-pane runs its command through the shell; validatePath rules out quotes
+    validatePath(file)
+
+    await this.execTmux(['pipe-pane', '-t', target, `cat >> '${file}'`])
+  }
+
+  /**
+   * Close a session's pipe-pane, if one is open.
+   */
+  async stopPipePane(target: string): Promise<void> {
+    validateSessionName(target)
+
+    await this.execTmux(['pipe-pane', '-t', target])
+  }
+
   /**
    * Execute a tmux command safely.
    */
   private async execTmux(
     args: string[],
     captureOutput = false
+  ): Promise<{ stdout: string; stderr: string }> {
+    if (!this.onCommand) {
+      return this.runTmux(args, captureOutput)
+    }
+
+    // Subcommand name, after any `-S <socket>`
+    const command = (args[0] === '-S' ? args[2] : args[0]) ?? 'unknown'
+    const startedAt = Date.now()
+    try {
+      const result = await this.runTmux(args, captureOutput)
+      this.onCommand(command, Date.now() - startedAt)
+      return result
+    } catch (error) {
+      this.onCommand(command, Date.now() - startedAt, error as Error)
+      throw error
+    }
+  }
+
+  /**
+   * Run a command over the control-mode connection when it's up, else spawn tmux.
+   * Commands for another tmux server (`-S <socket>`) are always spawned.
+   */
+  private async runTmux(
+    args: string[],
+    captureOutput: boolean
+  ): Promise<{ stdout: string; stderr: string }> {
+    const control = this.control
+    if (!control || args[0] === '-S') {
+      return this.spawnTmux(args, captureOutput)
+    }
+
+    try {
+      return { stdout: await control.run(args), stderr: '' }
+    } catch (error) {
+      if (!(error instanceof TmuxControlUnavailableError)) throw error
+      if (this.debug) {
+        this.log(`Control mode unavailable (${error.message}), spawning tmux`)
+      }
+      return this.spawnTmux(args, captureOutput)
+    }
+  }
+
+  /**
+   * Spawn tmux and collect its output.
+   */
+  private spawnTmux(
+    args: string[],
+    captureOutput: boolean
   ): Promise<{ stdout: string; stderr: string }> {
     return new Promise((resolve, reject) => {
       const proc = spawn('tmux', args, {
@@ -469,6 +753,20 @@ export class TmuxExecutor {
     })
   }
 
+  /**
+   * Wait for a new session's shell to draw its prompt, so typed commands
+   * aren't echoed into its startup output or dropped by shells that discard
+   * typeahead. Types anyway after SHELL_READY_TIMEOUT_MS (e.g. an empty prompt).
+   */
+  private async waitForShellPrompt(name: string): Promise<void> {
+    const deadline = Date.now() + SHELL_READY_TIMEOUT_MS
+    while (Date.now() < deadline) {
+      const screen = await this.capturePane(name, { start: 0 }).catch(() => '')
+      if (screen.trim()) return
+      await this.sleep(SHELL_READY_POLL_MS)
+    }
+  }
+
   /**
    * Sleep for a given number of milliseconds.
    */
@@ -0,0 +1,225 @@
+/**
+ * TokenStore - Bearer tokens for the HTTP and WebSocket API
+ *
+ * Tokens are created with the CLI and stored (hashed) in the data directory.
+ * While no tokens exist the API stays open, as before; once one is created,
+ * every request needs a token with the scope its route requires.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { mkdir, readFile, stat, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import type { ApiToken, TokenScope } from './types.js'
+
+/**
+ * All token scopes:
+ * - `read`: GET routes, WebSocket updates and history
+ * - `control`: creating and driving sessions, resolving approvals
+ * - `hook-ingest`: hook script callbacks (POST /event, POST /approvals)
+ */
+export const TOKEN_SCOPES: TokenScope[] = ['read', 'control', 'hook-ingest']
+
+/**
+ * Name of the token the bridge creates for its hook script.
+ */
+export const HOOK_TOKEN_NAME = 'hooks'
+
+export interface TokenStoreOptions {
+  /** Tokens file */
+  file: string
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+interface StoredToken extends ApiToken {
+  /** SHA-256 of the token */
+  hash: string
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Validate a list of token scopes.
+ * @throws Error naming the first unknown scope
+ */
+export function validateScopes(scopes: unknown): TokenScope[] {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new Error('At least one scope is required')
+  }
+  for (const scope of scopes) {
+    if (!TOKEN_SCOPES.includes(scope as TokenScope)) {
+      throw new Error(`Unknown scope: ${scope} (expected ${TOKEN_SCOPES.join(', ')})`)
+    }
+  }
+  return Array.from(new Set(scopes as TokenScope[]))
+}
+
+export class TokenStore {
+  private tokens: StoredToken[] = []
+  /** mtime of the tokens file when last loaded (0 if missing) */
+  private loadedMtime = 0
+  private options: Required<TokenStoreOptions>
+
+  constructor(options: TokenStoreOptions) {
+    this.options = {
+      file: options.file,
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Load tokens from disk. A missing file means no tokens.
+   * @throws Error if the file can't be parsed
+   */
+  async load(): Promise<void> {
+    let content: string
+    try {
+      content = await readFile(this.options.file, 'utf8')
+      this.loadedMtime = (await stat(this.options.file)).mtimeMs
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.tokens = []
+        this.loadedMtime = 0
+        return
+      }
+      throw err
+    }
+
+    let parsed: { tokens?: StoredToken[] }
+    try {
+      parsed = JSON.parse(content)
+    } catch {
+      throw new Error(`Invalid JSON in tokens file: ${this.options.file}`)
+    }
+
+    this.tokens = Array.isArray(parsed.tokens) ? parsed.tokens : []
+    this.debug('Loaded', this.tokens.length, 'tokens')
+  }
+
+  /**
+   * Reload if the tokens file changed on disk (e.g. tokens were created or
+   * revoked with the CLI while the server runs). Keeps the current tokens if
+   * the new file can't be read.
+   */
+  async refresh(): Promise<void> {
+    let mtime = 0
+    try {
+      mtime = (await stat(this.options.file)).mtimeMs
+    } catch {
+      // Missing file - no tokens
+    }
+    if (mtime === this.loadedMtime) return
+
+    try {
+      await this.load()
+    } catch (err) {
+      this.debug('Failed to reload tokens:', (err as Error).message)
+    }
+  }
+
+  /**
+   * Whether the API requires tokens (any token exists).
+   */
+  isEnabled(): boolean {
+    return this.tokens.length > 0
+  }
+
+  /**
+   * List tokens (without their secrets).
+   */
+  list(): ApiToken[] {
+    return this.tokens.map(({ hash: _hash, ...token }) => token)
+  }
+
+  /**
+   * Create a token. The secret is only returned here; the store keeps a hash.
+   * @throws Error if the name or scopes are invalid
+   */
+  async create(name: string, scopes: TokenScope[]): Promise<{ token: string; info: ApiToken }> {
+    if (!name.trim()) {
+      throw new Error('Token name is required')
+    }
+
+    await this.load()
+    const token = `cab_${randomBytes(32).toString('base64url')}`
+    const info: ApiToken = {
+      id: randomBytes(4).toString('hex'),
+      name: name.trim(),
+      scopes: validateScopes(scopes),
+      createdAt: Date.now(),
+    }
+
+    this.tokens.push({ ...info, hash: hashToken(token) })
+    await this.save()
+    this.debug('Created token', info.id, info.name)
+    return { token, info }
+  }
+
+  /**
+   * Revoke tokens by ID or name.
+   * @returns The revoked tokens (empty if none matched)
+   */
+  async revoke(idOrName: string): Promise<ApiToken[]> {
+    await this.load()
+    const revoked = this.tokens.filter((t) => t.id === idOrName || t.name === idOrName)
+    if (revoked.length === 0) return []
+
+    this.tokens = this.tokens.filter((t) => !revoked.includes(t))
+    await this.save()
+    this.debug('Revoked', revoked.length, 'tokens matching', idOrName)
+    return revoked.map(({ hash: _hash, ...token }) => token)
+  }
+
+  /**
+   * Look up the token a request presented.
+   */
+  verify(token: string): ApiToken | undefined {
+    const hash = hashToken(token)
+    const match = this.tokens.find((t) => t.hash === hash)
+    if (!match) return undefined
+
+    const { hash: _hash, ...info } = match
+    return info
+  }
+
+  /**
+   * Make sure the hook script has a valid `hook-ingest` token in `file`,
+   * creating one if needed. Only needed once the API requires tokens.
+   */
+  async ensureHookToken(file: string): Promise<void> {
+    try {
+      const existing = (await readFile(file, 'utf8')).trim()
+      if (this.verify(existing)?.scopes.includes('hook-ingest')) return
+    } catch {
+      // No hook token yet
+    }
+
+    const { token } = await this.create(HOOK_TOKEN_NAME, ['hook-ingest'])
+    await mkdir(dirname(file), { recursive: true })
+    await writeFile(file, token + '\n', { mode: 0o600 })
+    this.debug('Hook token written to', file)
+  }
+
+  private async save(): Promise<void> {
+    await mkdir(dirname(this.options.file), { recursive: true })
+    await writeFile(this.options.file, JSON.stringify({ tokens: this.tokens }, null, 2), {
+      mode: 0o600,
+    })
+    this.loadedMtime = (await stat(this.options.file)).mtimeMs
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[TokenStore]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new TokenStore instance.
+ */
+export function createTokenStore(options: TokenStoreOptions): TokenStore {
+  return new TokenStore(options)
+}
@@ -0,0 +1,388 @@
+/**
+ * WebhookManager - Outbound webhooks for session and event changes
+ *
+ * The bridge notifies the manager of the same events SessionManager emits
+ * (`session:status`, `event`, ...). Each webhook whose filters match gets a
+ * signed JSON POST, retried with exponential backoff until it succeeds or
+ * runs out of attempts. Recent deliveries are kept in a log file so failures
+ * can be inspected through the REST API after the fact.
+ */
+
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import type {
+  AgentEvent,
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookPayload,
+  WebhookTrigger,
+} from './types.js'
+import {
+  HOOK_NONCE_HEADER,
+  HOOK_SIGNATURE_HEADER,
+  HOOK_TIMESTAMP_HEADER,
+  signHookPayload,
+} from './HookVerifier.js'
+
+/** Header carrying the delivery ID (the same for every retry) */
+export const WEBHOOK_DELIVERY_HEADER = 'x-bridge-delivery'
+/** Header carrying the most specific trigger name */
+export const WEBHOOK_TRIGGER_HEADER = 'x-bridge-trigger'
+
+export interface WebhookManagerOptions {
+  /** Webhooks configured in code (merged with the webhooks file) */
+  webhooks?: WebhookConfig[]
+  /** Delivery log file */
+  logFile: string
+  /** Deliveries kept in the log. Default: 500 */
+  maxLogEntries?: number
+  /** Delay (ms) before the first retry; doubles with each attempt. Default: 1000 */
+  retryDelayMs?: number
+  /** Longest delay (ms) between retries. Default: 60000 */
+  maxRetryDelayMs?: number
+  /** Timeout (ms) for a single attempt. Default: 10000 */
+  requestTimeoutMs?: number
+  /** Enable debug logging */
+  debug?: boolean
+}
+
+export interface WebhookManagerEvents {
+  delivery: (delivery: WebhookDelivery) => void
+  error: (error: Error) => void
+}
+
+export interface DeliveryQuery {
+  status?: WebhookDelivery['status']
+  /** Default: 50 */
+  limit?: number
+}
+
+/**
+ * Validate a list of webhooks.
+ * @throws Error describing the first invalid webhook
+ */
+export function validateWebhooks(value: unknown): WebhookConfig[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Webhooks must be an array')
+  }
+
+  return value.map((webhook, index) => {
+    const where = `Webhook ${index + 1}`
+    if (!webhook || typeof webhook !== 'object') {
+      throw new Error(`${where}: must be an object`)
+    }
+    const w = webhook as Record<string, unknown>
+
+    if (typeof w.url !== 'string' || !/^https?:\/\//.test(w.url)) {
+      throw new Error(`${where}: url must be an http(s) URL`)
+    }
+    if (w.secret !== undefined && typeof w.secret !== 'string') {
+      throw new Error(`${where}: secret must be a string`)
+    }
+    if (w.events !== undefined && !(Array.isArray(w.events) && w.events.every((e) => typeof e === 'string'))) {
+      throw new Error(`${where}: events must be an array of strings`)
+    }
+    if (w.maxAttempts !== undefined && !(Number.isInteger(w.maxAttempts) && (w.maxAttempts as number) > 0)) {
+      throw new Error(`${where}: maxAttempts must be a positive integer`)
+    }
+
+    return w as unknown as WebhookConfig
+  })
+}
+
+/**
+ * Names a notification matches, from general to specific: `*`, the trigger,
+ * then `session:status:<to>` or `event:<type>` (and `event:post_tool_use:failed`).
+ */
+export function triggerNames(trigger: WebhookTrigger, data: Record<string, unknown>): string[] {
+  const names = ['*', trigger]
+  if (trigger === 'session:status' && typeof data.to === 'string') {
+    names.push(`session:status:${data.to}`)
+  }
+  if (trigger === 'event') {
+    const event = data.event as AgentEvent
+    names.push(`event:${event.type}`)
+    if (event.type === 'post_tool_use' && !event.success) {
+      names.push('event:post_tool_use:failed')
+    }
+  }
+  return names
+}
+
+export class WebhookManager extends EventEmitter {
+  private options: Required<Omit<WebhookManagerOptions, 'webhooks'>>
+  private configured: WebhookConfig[]
+  private webhooks: WebhookConfig[]
+  /** Recent deliveries, oldest first */
+  private deliveries: WebhookDelivery[] = []
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map()
+  private inFlight: Map<string, AbortController> = new Map()
+  /** Pending log write, chained to keep writes in order */
+  private saving: Promise<void> = Promise.resolve()
+
+  constructor(options: WebhookManagerOptions) {
+    super()
+    this.configured = validateWebhooks(options.webhooks ?? [])
+    this.webhooks = this.configured
+    this.options = {
+      logFile: options.logFile,
+      maxLogEntries: options.maxLogEntries ?? 500,
+      retryDelayMs: options.retryDelayMs ?? 1000,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 60000,
+      requestTimeoutMs: options.requestTimeoutMs ?? 10000,
+      debug: options.debug ?? false,
+    }
+  }
+
+  /**
+   * Load webhooks from a JSON file (`{ "webhooks": [...] }`, missing file
+   * means none) and the delivery log. Deliveries still pending when the
+   * bridge last stopped are marked failed.
+   * @throws Error if the webhooks file can't be parsed or is invalid
+   */
+  async load(webhooksFile?: string): Promise<void> {
+    let fromFile: WebhookConfig[] = []
+    if (webhooksFile) {
+      const content = await this.readOptional(webhooksFile)
+      if (content !== null) {
+        let parsed: { webhooks?: unknown }
+        try {
+          parsed = JSON.parse(content)
+        } catch {
+          throw new Error(`Invalid JSON in webhooks file: ${webhooksFile}`)
+        }
+        fromFile = validateWebhooks(parsed.webhooks ?? [])
+      }
+    }
+    this.webhooks = [...this.configured, ...fromFile]
+
+    const log = await this.readOptional(this.options.logFile)
+    if (log !== null) {
+      try {
+        const parsed = JSON.parse(log) as { deliveries?: WebhookDelivery[] }
+        this.deliveries = Array.isArray(parsed.deliveries) ? parsed.deliveries : []
+      } catch {
+        this.debug('Ignoring unreadable delivery log:', this.options.logFile)
+        this.deliveries = []
+      }
+      for (const delivery of this.deliveries) {
+        if (delivery.status === 'pending') {
+          this.fail(delivery, 'Bridge stopped before delivery')
+        }
+      }
+    }
+
+    this.debug('Loaded', this.webhooks.length, 'webhooks and', this.deliveries.length, 'deliveries')
+  }
+
+  /**
+   * Configured webhooks (secrets omitted).
+   */
+  list(): Array<Omit<WebhookConfig, 'secret'>> {
+    return this.webhooks.map(({ secret: _secret, ...webhook }) => webhook)
+  }
+
+  /**
+   * Recent deliveries, newest first.
+   */
+  listDeliveries(query: DeliveryQuery = {}): WebhookDelivery[] {
+    const limit = query.limit ?? 50
+    return this.deliveries
+      .filter((d) => !query.status || d.status === query.status)
+      .slice(-limit)
+      .reverse()
+  }
+
+  /**
+   * Deliver bridge activity to every webhook whose filters match.
+   */
+  notify(trigger: WebhookTrigger, data: Record<string, unknown>): void {
+    if (this.webhooks.length === 0) return
+
+    const names = triggerNames(trigger, data)
+    const session = data.session as { id?: string } | undefined
+    const event = data.event as AgentEvent | undefined
+    const sessionId = session?.id ?? event?.sessionId
+    const timestamp = event?.timestamp ?? Date.now()
+
+    for (const webhook of this.webhooks) {
+      const filters = webhook.events ?? ['*']
+      if (!filters.some((f) => names.includes(f))) continue
+
+      const now = Date.now()
+      const delivery: WebhookDelivery = {
+        id: randomUUID(),
+        url: webhook.url,
+        trigger: names[names.length - 1]!,
+        ...(sessionId ? { sessionId } : {}),
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      }
+      const payload: WebhookPayload = { id: delivery.id, trigger, timestamp, data }
+
+      this.record(delivery)
+      void this.attempt(webhook, delivery, JSON.stringify(payload))
+    }
+  }
+
+  /**
+   * Cancel pending retries and in-flight requests and save the log.
+   */
+  async stop(): Promise<void> {
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.retryTimers.clear()
+    for (const controller of this.inFlight.values()) {
+      controller.abort()
+    }
+    this.inFlight.clear()
+
+    for (const delivery of this.deliveries) {
+      if (delivery.status === 'pending') {
+        this.fail(delivery, 'Bridge stopped before delivery')
+      }
+    }
+    await this.saving
+  }
+
+  // ===========================================================================
+  // Delivery
+  // ===========================================================================
+
+  private async attempt(webhook: WebhookConfig, delivery: WebhookDelivery, body: string): Promise<void> {
+    delivery.attempts += 1
+    delete delivery.nextAttemptAt
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      [WEBHOOK_TRIGGER_HEADER]: delivery.trigger,
+    }
+    if (webhook.secret) {
+      // Same scheme as hook callbacks, with the delivery ID as nonce
+      const timestamp = Math.floor(Date.now() / 1000)
+      headers[HOOK_TIMESTAMP_HEADER] = String(timestamp)
+      headers[HOOK_NONCE_HEADER] = delivery.id
+      headers[HOOK_SIGNATURE_HEADER] = signHookPayload(webhook.secret, timestamp, delivery.id, body)
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), this.options.requestTimeoutMs)
+    this.inFlight.set(delivery.id, controller)
+
+    let error: string
+    try {
+      const res = await fetch(webhook.url, { method: 'POST', headers, body, signal: controller.signal })
+      delivery.responseStatus = res.status
+      await res.body?.cancel()
+      if (res.ok) {
+        delete delivery.error
+        delivery.status = 'delivered'
+        this.record(delivery)
+        this.debug('Delivered', delivery.trigger, 'to', webhook.url)
+        return
+      }
+      error = `HTTP ${res.status}`
+    } catch (err) {
+      error = controller.signal.aborted ? 'Request timed out' : (err as Error).message
+    } finally {
+      clearTimeout(timeout)
+      this.inFlight.delete(delivery.id)
+    }
+
+    // Stopped while the request was in flight
+    if (delivery.status !== 'pending') return
+
+    if (delivery.attempts >= (webhook.maxAttempts ?? 5)) {
+      this.fail(delivery, error)
+      this.debug('Giving up on', delivery.trigger, 'to', webhook.url, '-', error)
+      return
+    }
+
+    const delay = Math.min(
+      this.options.retryDelayMs * 2 ** (delivery.attempts - 1),
+      this.options.maxRetryDelayMs
+    )
+    delivery.error = error
+    delivery.nextAttemptAt = Date.now() + delay
+    this.record(delivery)
+    this.debug('Retrying', delivery.trigger, 'to', webhook.url, 'in', delay, 'ms -', error)
+
+    this.retryTimers.set(
+      delivery.id,
+      setTimeout(() => {
+        this.retryTimers.delete(delivery.id)
+        void this.attempt(webhook, delivery, body)
+      }, delay)
+    )
+  }
+
+  private fail(delivery: WebhookDelivery, error: string): void {
+    delivery.status = 'failed'
+    delivery.error = error
+    delete delivery.nextAttemptAt
+    this.record(delivery)
+  }
+
+  // ===========================================================================
+  // Delivery Log
+  // ===========================================================================
+
+  /**
+   * Add or update a delivery in the log and save it.
+   */
+  private record(delivery: WebhookDelivery): void {
+    delivery.updatedAt = Date.now()
+    if (!this.deliveries.includes(delivery)) {
+      this.deliveries.push(delivery)
+      if (this.deliveries.length > this.options.maxLogEntries) {
+        this.deliveries.splice(0, this.deliveries.length - this.options.maxLogEntries)
+      }
+    }
+    this.emit('delivery', delivery)
+
+    this.saving = this.saving
+      .then(async () => {
+        await mkdir(dirname(this.options.logFile), { recursive: true })
+        await writeFile(this.options.logFile, JSON.stringify({ deliveries: this.deliveries }, null, 2))
+      })
+      .catch((err: Error) => {
+        this.emitError(err)
+      })
+  }
+
+  private async readOptional(file: string): Promise<string | null> {
+    try {
+      return await readFile(file, 'utf8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw err
+    }
+  }
+
+  private emitError(err: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err)
+    } else {
+      this.debug('Error:', err.message)
+    }
+  }
+
+  private debug(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[WebhookManager]', ...args)
+    }
+  }
+}
+
+/**
+ * Create a new WebhookManager instance.
+ */
+export function createWebhookManager(options: WebhookManagerOptions): WebhookManager {
+  return new WebhookManager(options)
+}
@@ -20,6 +20,7 @@ import type {
   UserPromptSubmitEvent,
   NotificationEvent,
   TerminalInfo,
+  WaitingReason,
 } from '../types.js'
 import { exec } from 'child_process'
 import { promisify } from 'util'
@@ -27,6 +28,7 @@ import { readFile, writeFile, access } from 'fs/promises'
 import { homedir } from 'os'
 import { join } from 'path'
 import { randomUUID } from 'crypto'
+import { APPROVAL_HOOK_TIMEOUT_S } from '../ApprovalManager.js'
 
 const execAsync = promisify(exec)
 
@@ -82,6 +84,7 @@ interface ClaudeHookData {
   message?: string
   level?: string
   prompt?: string
+  notification_type?: string
 }
 
 /**
@@ -102,6 +105,24 @@ interface ClaudeTranscriptEntry {
   requestId?: string
 }
 
+/**
+ * Detect notifications that mean Claude is blocked on the user.
+ * Newer versions send `notification_type`; older ones only the message.
+ */
+function parseWaitingReason(data: ClaudeHookData): WaitingReason | undefined {
+  switch (data.notification_type) {
+    case 'permission_prompt':
+      return 'permission'
+    case 'idle_prompt':
+      return 'input'
+  }
+
+  const message = data.message ?? ''
+  if (/needs your permission/i.test(message)) return 'permission'
+  if (/waiting for your input/i.test(message)) return 'input'
+  return undefined
+}
+
 /**
  * Parse terminal info from environment variables in hook data.
  */
@@ -237,6 +258,7 @@ export const ClaudeAdapter: AgentAdapter = {
           type: 'notification',
           message: d.message,
           level: d.level,
+          waitingFor: parseWaitingReason(d),
         }
         return event
       }
@@ -297,7 +319,8 @@ export const ClaudeAdapter: AgentAdapter = {
           {
             type: 'command',
             command: hookScriptPath,
-            timeout: 5,
+            // PreToolUse may block on a remote approval in approval mode
+            timeout: hookName === 'PreToolUse' ? APPROVAL_HOOK_TIMEOUT_S : 5,
           },
         ],
       }
@@ -411,4 +434,16 @@ export const ClaudeAdapter: AgentAdapter = {
       timestamp: Date.now(),
     }
   },
+
+  // Permission dialog shown in the terminal
+  waitingPatterns: [/Do you want to (proceed|make this edit|create)/],
+
+  // Footer under the prompt box; SessionStart can fire before the box takes input
+  readySignals: { patterns: [/\? for shortcuts/] },
+
+  formatPromptWithImages(prompt: string, imagePaths: string[]): string {
+    // Claude Code attaches files referenced with @path, including images
+    const mentions = imagePaths.map((p) => `@${p}`).join(' ')
+    return prompt ? `${prompt}\n\n${mentions}` : mentions
+  },
 }
@@ -50,6 +50,7 @@ type CodexEventType =
   | 'session_end'
   | 'error'
   | 'message'
+  | 'approval_request'
 
 /**
  * Codex notify hook data structure.
@@ -177,6 +178,18 @@ export const CodexAdapter: AgentAdapter = {
         return event
       }
 
+      case 'approval_request': {
+        // Codex is waiting for the user to approve a command or patch
+        const event: Partial<NotificationEvent> = {
+          ...baseEvent,
+          type: 'notification',
+          message: d.message ?? 'Approval requested',
+          level: 'info',
+          waitingFor: 'permission',
+        }
+        return event
+      }
+
       case 'error':
       case 'message':
       default: {
@@ -268,4 +281,10 @@ export const CodexAdapter: AgentAdapter = {
     // Codex gets response text from hooks directly, no transcript parsing needed
     return null
   },
+
+  // Command/patch approval prompts shown in the terminal
+  waitingPatterns: [/Allow command\?/, /Would you like to (run|make) the following/],
+
+  // The notify hook may never report session start, so also watch for the composer footer
+  readySignals: { sessionStart: true, patterns: [/⏎ send/, /\? for shortcuts/, /context left/] },
 }
@@ -311,4 +311,7 @@ export const CursorAdapter: AgentAdapter = {
     // Cursor gets response text from hooks directly, no transcript parsing needed
     return null
   },
+
+  // Also the composer's placeholder or footer, in case the sessionStart hook isn't installed
+  readySignals: { sessionStart: true, patterns: [/Plan, search, build anything/, /\/ commands · @ files/] },
 }
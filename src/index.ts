@@ -43,9 +43,11 @@
 export type {
   // Agent types
   AgentType,
+  ReadySignals,
 
   // Session types
   SessionStatus,
+  WaitingReason,
   SessionType,
   TerminalInfo,
   Session,
@@ -65,6 +67,7 @@ export type {
   NotificationEvent,
   ContentBlock,
   AssistantMessageEvent,
+  PolicyDecisionEvent,
   AgentEvent,
 
   // Configuration
@@ -79,6 +82,27 @@ export type {
   // Bridge API
   ImageInput,
   SendResult,
+  QueuedPrompt,
+  PromptToolSummary,
+  PromptResult,
+  RunPromptOptions,
+  EventQuery,
+  EventPage,
+  OutputChunk,
+  TerminalSnapshot,
+  ApprovalDecision,
+  PendingApproval,
+  ApprovalResolution,
+  PolicyAction,
+  PolicyRule,
+  PolicyConfig,
+  PolicyDecision,
+  TokenScope,
+  ApiToken,
+  WebhookConfig,
+  WebhookTrigger,
+  WebhookPayload,
+  WebhookDelivery,
   BridgeEvents,
   Bridge,
 } from './types.js'
@@ -93,23 +117,58 @@ export {
   validateSessionName,
   validatePath,
   validatePaneId,
+  validateEnvVar,
 } from './TmuxExecutor.js'
 
+export {
+  TmuxControl,
+  createTmuxControl,
+  TmuxControlUnavailableError,
+  DEFAULT_CONTROL_SESSION,
+} from './TmuxControl.js'
+
+export type {
+  TmuxControlOptions,
+  TmuxControlEvents,
+} from './TmuxControl.js'
+
 export type {
   TmuxSession,
   TmuxExecutorOptions,
   SendKeysOptions,
   PasteBufferOptions,
+  PaneInfo,
+  CreateTerminalSessionOptions,
+  CapturePaneOptions,
 } from './TmuxExecutor.js'
 
+export type {
+  TerminalBackend,
+  TerminalSessionInfo,
+} from './TerminalBackend.js'
+
+export {
+  MemoryTerminalBackend,
+  createMemoryTerminalBackend,
+} from './MemoryTerminalBackend.js'
+
+export type {
+  MemoryTerminalBackendOptions,
+  MemoryTerminalBackendEvents,
+  MemoryTerminalSession,
+  MemoryTerminalInput,
+} from './MemoryTerminalBackend.js'
+
 export {
   SessionManager,
   createSessionManager,
+  BRIDGE_SESSION_ENV,
 } from './SessionManager.js'
 
 export type {
   SessionManagerConfig,
   SessionManagerEvents,
+  SessionEnvContext,
 } from './SessionManager.js'
 
 export {
@@ -130,6 +189,7 @@ export {
 export type {
   EventProcessorOptions,
   EventProcessorEvents,
+  EventRejectReason,
   ProcessedEvent,
 } from './EventProcessor.js'
 
@@ -143,6 +203,120 @@ export type {
   TranscriptWatcherEvents,
 } from './TranscriptWatcher.js'
 
+export {
+  OutputWatcher,
+  createOutputWatcher,
+  readOutputLog,
+  DEFAULT_OUTPUT_CHUNK_BYTES,
+} from './OutputWatcher.js'
+
+export type {
+  OutputWatcherOptions,
+  OutputWatcherEvents,
+  OutputSlice,
+} from './OutputWatcher.js'
+
+export {
+  PromptTracker,
+  createPromptTracker,
+  DEFAULT_PROMPT_TIMEOUT_MS,
+} from './PromptTracker.js'
+
+export type { PromptTrackerOptions } from './PromptTracker.js'
+
+export {
+  ApprovalManager,
+  createApprovalManager,
+  APPROVAL_MODE_ENV,
+  APPROVAL_HOOK_TIMEOUT_S,
+  APPROVAL_REQUEST_TIMEOUT_S,
+  MAX_APPROVAL_TIMEOUT_MS,
+} from './ApprovalManager.js'
+
+export type {
+  ApprovalManagerOptions,
+  ApprovalManagerEvents,
+  ApprovalRequest,
+} from './ApprovalManager.js'
+
+export {
+  EventStore,
+  createEventStore,
+  DEFAULT_HISTORY_LIMIT,
+  MAX_HISTORY_LIMIT,
+} from './EventStore.js'
+
+export type {
+  EventStoreOptions,
+  EventStoreEvents,
+} from './EventStore.js'
+
+export {
+  PolicyEngine,
+  createPolicyEngine,
+  validatePolicy,
+  validatePolicyRules,
+  globToRegExp,
+} from './PolicyEngine.js'
+
+export type {
+  PolicyEngineOptions,
+  PolicyCheck,
+} from './PolicyEngine.js'
+
+export {
+  TokenStore,
+  createTokenStore,
+  validateScopes,
+  TOKEN_SCOPES,
+  HOOK_TOKEN_NAME,
+} from './TokenStore.js'
+
+export type { TokenStoreOptions } from './TokenStore.js'
+
+export {
+  HookVerifier,
+  createHookVerifier,
+  signHookPayload,
+  ensureHookSecret,
+  HOOK_TIMESTAMP_HEADER,
+  HOOK_NONCE_HEADER,
+  HOOK_SIGNATURE_HEADER,
+} from './HookVerifier.js'
+
+export type { HookVerifierOptions, HookVerification } from './HookVerifier.js'
+
+export {
+  Metrics,
+  createMetrics,
+} from './Metrics.js'
+
+export type { MetricsOptions, MetricsSnapshot } from './Metrics.js'
+
+export {
+  createOpenApiDocument,
+  validate as validateRequestBody,
+  SCHEMAS as OPENAPI_SCHEMAS,
+  API_VERSION,
+} from './openapi.js'
+
+export type { JsonSchema, SchemaName } from './openapi.js'
+
+export {
+  WebhookManager,
+  createWebhookManager,
+  validateWebhooks,
+  triggerNames,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_TRIGGER_HEADER,
+} from './WebhookManager.js'
+
+export type {
+  WebhookManagerOptions,
+  WebhookManagerEvents,
+  DeliveryQuery,
+} from './WebhookManager.js'
+
 export {
   BridgeServer,
   createServer as createBridgeServer,
@@ -152,6 +326,7 @@ export type {
   ServerConfig,
   ServerEvents,
   EventProcessorCallback,
+  ApprovalRequestCallback,
 } from './Server.js'
 
 // =============================================================================
@@ -184,30 +359,11 @@ export type {
 // Main API
 // =============================================================================
 
-// TODO: Implement in Phase 2-5
-// export { createBridge } from './Bridge.js'
-
-// Placeholder until Bridge is implemented
-import type { Bridge, BridgeConfig } from './types.js'
-
-/**
- * Create a new bridge instance.
- *
- * @param config - Bridge configuration options
- * @returns A new Bridge instance
- *
- * @example
- * ```typescript
- * const bridge = createBridge({
- *   dataDir: '~/.cin-interface',
- *   port: 4003,
- * })
- * ```
- */
-export function createBridge(_config?: BridgeConfig): Bridge {
-  // TODO: Implement in Phase 2-5
-  throw new Error('createBridge not yet implemented - coming in Phase 2-5')
-}
+export {
+  CodingAgentBridge,
+  createBridge,
+  resolveConfig,
+} from './Bridge.js'
 
 // =============================================================================
 // WebSocket Interface Types
@@ -225,15 +381,62 @@ export type {
   WSSessionUpdatedMessage,
   WSSessionDeletedMessage,
   WSSessionStatusMessage,
+  WSSessionQueueMessage,
+  WSApprovalRequestedMessage,
+  WSApprovalResolvedMessage,
   WSHistoryMessage,
+  WSSubscribedMessage,
+  WSOutputMessage,
+  WSOutputSubscribedMessage,
+  WSOutputSubscribedData,
+  WSTerminalAttachedMessage,
+  WSTerminalAttachedData,
+  WSTerminalStateMessage,
+  WSTerminalStateData,
+  WSResumedMessage,
+  WSResumedData,
+  WSResyncMessage,
+  WSResultMessage,
+  WSErrorMessage,
+  WSErrorData,
   WSPongMessage,
 
   // Client → Server messages
   WSPingMessage,
+  WSAuthMessage,
+  WSAuthData,
   WSGetHistoryMessage,
   WSGetHistoryData,
   WSSubscribeMessage,
   WSSubscribeData,
+  WSResumeMessage,
+  WSResumeData,
+  WSSubscribeOutputMessage,
+  WSSubscribeOutputData,
+  WSUnsubscribeOutputMessage,
+  WSTerminalAttachMessage,
+  WSTerminalAttachData,
+  WSTerminalInputMessage,
+  WSTerminalResizeMessage,
+  WSTerminalClaimMessage,
+  WSTerminalReleaseMessage,
+  WSTerminalDetachMessage,
+
+  // RPC commands
+  WSCommandType,
+  WSCommandMessage,
+  WSCommandData,
+  WSCommandResults,
+  WSSessionCommandData,
+  WSSendPromptData,
+  WSSendPromptResult,
+  WSRenameData,
+  WSCreateSessionMessage,
+  WSSendPromptMessage,
+  WSCancelMessage,
+  WSRestartMessage,
+  WSDeleteMessage,
+  WSRenameMessage,
 
   // Union types
   WSServerMessage,
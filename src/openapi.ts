@@ -0,0 +1,616 @@
+/**
+ * OpenAPI - Machine-readable contract for the REST API
+ *
+ * Component schemas are typed against the TypeScript interfaces they
+ * describe: each object schema must list exactly the interface's properties,
+ * so adding or renaming a field without updating its schema fails to
+ * compile. The same schemas validate request bodies in BridgeServer, and the
+ * document is served at GET /openapi.json.
+ */
+
+import type {
+  ApprovalDecision,
+  CreateSessionOptions,
+  EventPage,
+  ImageInput,
+  OutputChunk,
+  PendingApproval,
+  PolicyRule,
+  PromptResult,
+  QueuedPrompt,
+  Session,
+  TerminalInfo,
+  WebhookDelivery,
+} from './types.js'
+import type { WSSendPromptData, WSSendPromptResult } from './websocket-types.js'
+
+/**
+ * Version of the REST API described by the document.
+ */
+export const API_VERSION = '0.1.0'
+
+// =============================================================================
+// Schema Types
+// =============================================================================
+
+/**
+ * The subset of JSON Schema used by the document (and understood by `validate`).
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  /** `false` rejects properties not listed in `properties` */
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  enum?: readonly string[]
+  oneOf?: JsonSchema[]
+  minLength?: number
+  minItems?: number
+  /** `#/components/schemas/<Name>` */
+  $ref?: string
+}
+
+type RequiredKeys<T> = { [K in keyof T]-?: {} extends Pick<T, K> ? never : K }[keyof T]
+
+/**
+ * An object schema describing exactly the properties of `T`.
+ */
+type ObjectSchema<T> = Omit<JsonSchema, 'type' | 'properties' | 'required'> & {
+  type: 'object'
+  properties: { [K in keyof T]-?: JsonSchema }
+  required?: Array<RequiredKeys<T> & string>
+}
+
+/**
+ * Body of PATCH /sessions/:id
+ */
+type SessionUpdate = Partial<Pick<Session, 'name' | 'policy'>>
+
+/**
+ * Body of POST /sessions/:id/prompt
+ */
+type SendPromptRequest = Omit<WSSendPromptData, 'sessionId'>
+
+const ref = (name: SchemaName): JsonSchema => ({ $ref: `#/components/schemas/${name}` })
+const string = (description?: string): JsonSchema => ({ type: 'string', ...(description ? { description } : {}) })
+const integer = (description?: string): JsonSchema => ({ type: 'integer', ...(description ? { description } : {}) })
+const boolean = (description?: string): JsonSchema => ({ type: 'boolean', ...(description ? { description } : {}) })
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items })
+
+// =============================================================================
+// Component Schemas
+// =============================================================================
+
+const terminalInfo: ObjectSchema<TerminalInfo> = {
+  type: 'object',
+  properties: {
+    tmuxPane: string('tmux pane ID (e.g. "%0")'),
+    tmuxSocket: string('tmux socket path'),
+    tty: string('Terminal device'),
+  },
+}
+
+const policyRule: ObjectSchema<PolicyRule> = {
+  type: 'object',
+  properties: {
+    id: string('Rule ID, reported in policy decisions'),
+    action: { type: 'string', enum: ['allow', 'deny', 'flag'] },
+    tool: { oneOf: [string(), arrayOf(string())], description: 'Tool name glob(s)' },
+    command: string('Regular expression matched against Bash commands'),
+    path: string('Glob matched against file paths in the tool input'),
+    outsideCwd: boolean('Match only calls touching a path outside the session cwd'),
+    reason: string('Reason shown to the agent and clients'),
+  },
+  required: ['action'],
+  additionalProperties: false,
+}
+
+const queuedPrompt: ObjectSchema<QueuedPrompt> = {
+  type: 'object',
+  properties: {
+    id: string(),
+    prompt: string(),
+    imagePaths: arrayOf(string()),
+    queuedAt: integer('ms since epoch'),
+  },
+  required: ['id', 'prompt', 'queuedAt'],
+}
+
+const session: ObjectSchema<Session> = {
+  type: 'object',
+  properties: {
+    id: string('Bridge session ID (UUID)'),
+    name: string(),
+    type: { type: 'string', enum: ['internal', 'external'] },
+    agent: string('Agent type (claude, codex, ...)'),
+    status: { type: 'string', enum: ['idle', 'working', 'waiting', 'offline', 'error'] },
+    cwd: string(),
+    createdAt: integer('ms since epoch'),
+    lastActivity: integer('ms since epoch'),
+    tmuxSession: string('tmux session name (internal sessions)'),
+    agentSessionId: string("Agent's own session ID"),
+    terminal: ref('TerminalInfo'),
+    currentTool: string(),
+    waitingFor: { type: 'string', enum: ['permission', 'input'] },
+    error: string("Why the agent failed to start (status 'error')"),
+    transcriptPath: string(),
+    queue: arrayOf(ref('QueuedPrompt')),
+    policy: arrayOf(ref('PolicyRule')),
+  },
+  required: ['id', 'name', 'type', 'agent', 'status', 'cwd', 'createdAt', 'lastActivity'],
+}
+
+const createSessionOptions: ObjectSchema<CreateSessionOptions> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, description: 'Defaults to the directory name' },
+    cwd: { type: 'string', minLength: 1, description: 'Working directory' },
+    agent: { type: 'string', minLength: 1, description: 'Defaults to the configured default agent' },
+    flags: {
+      type: 'object',
+      additionalProperties: { oneOf: [boolean(), string()] },
+      description: 'Agent-specific flags',
+    },
+    spawnTerminal: boolean('Spawn a visible terminal window (Linux only)'),
+    policy: arrayOf(ref('PolicyRule')),
+  },
+  additionalProperties: false,
+}
+
+const sessionUpdate: ObjectSchema<SessionUpdate> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    policy: arrayOf(ref('PolicyRule')),
+  },
+  additionalProperties: false,
+}
+
+const imageInput: ObjectSchema<ImageInput> = {
+  type: 'object',
+  properties: {
+    data: string('Base64-encoded image data'),
+    mediaType: string('image/png, image/jpeg, image/gif or image/webp'),
+    name: string(),
+  },
+  required: ['data', 'mediaType'],
+  additionalProperties: false,
+}
+
+const sendPromptRequest: ObjectSchema<SendPromptRequest> = {
+  type: 'object',
+  properties: {
+    prompt: string('Required unless images are attached'),
+    images: arrayOf(ref('ImageInput')),
+  },
+  additionalProperties: false,
+}
+
+const sendPromptResponse: ObjectSchema<WSSendPromptResult & { result?: PromptResult }> = {
+  type: 'object',
+  properties: {
+    success: boolean(),
+    promptId: string(),
+    queued: boolean('Set when the agent was busy and the prompt was queued'),
+    imagePaths: arrayOf(string()),
+    result: ref('PromptResult'),
+  },
+  required: ['success'],
+}
+
+const promptResult: ObjectSchema<PromptResult> = {
+  type: 'object',
+  properties: {
+    promptId: string(),
+    sessionId: string(),
+    text: string("The agent's final assistant message"),
+    tools: arrayOf({ type: 'object' }),
+    durationMs: integer(),
+  },
+  required: ['promptId', 'sessionId', 'text', 'tools', 'durationMs'],
+}
+
+const queueOrder: ObjectSchema<{ order: string[] }> = {
+  type: 'object',
+  properties: {
+    order: { ...arrayOf(string()), description: 'Every queued prompt ID, in the new order' },
+  },
+  required: ['order'],
+  additionalProperties: false,
+}
+
+const approvalDecisionRequest: ObjectSchema<{ decision: ApprovalDecision; reason?: string }> = {
+  type: 'object',
+  properties: {
+    decision: { type: 'string', enum: ['allow', 'deny'] },
+    reason: string('Reason shown to the agent'),
+  },
+  required: ['decision'],
+  additionalProperties: false,
+}
+
+const pendingApproval: ObjectSchema<PendingApproval> = {
+  type: 'object',
+  properties: {
+    id: string(),
+    sessionId: string(),
+    agent: string(),
+    tool: string(),
+    toolInput: { type: 'object' },
+    toolUseId: string(),
+    cwd: string(),
+    requestedAt: integer(),
+    expiresAt: integer(),
+  },
+  required: ['id', 'sessionId', 'agent', 'tool', 'toolInput', 'cwd', 'requestedAt', 'expiresAt'],
+}
+
+const eventPage: ObjectSchema<EventPage> = {
+  type: 'object',
+  properties: {
+    events: arrayOf({
+      type: 'object',
+      description: 'Agent event (see WEBSOCKET_INTERFACE.md for each type)',
+      properties: { id: string(), type: string(), timestamp: integer(), sessionId: string(), agent: string() },
+      required: ['id', 'type', 'timestamp', 'sessionId', 'agent'],
+    }),
+    hasMore: boolean('Whether more events match beyond this page (older ones for pages read from the end)'),
+    cursor: integer('History position of the last event; pass as `cursor` for the next page'),
+    before: integer('Set on pages read from the end while older events remain; pass as `before` for the previous page'),
+  },
+  required: ['events', 'hasMore', 'cursor'],
+}
+
+const outputChunk: ObjectSchema<OutputChunk> = {
+  type: 'object',
+  properties: {
+    sessionId: string(),
+    offset: integer('Byte offset of the first byte of data'),
+    nextOffset: integer('Offset to continue reading from'),
+    size: integer('Log size in bytes'),
+    data: string('Raw terminal output, including escape sequences'),
+  },
+  required: ['sessionId', 'offset', 'nextOffset', 'size', 'data'],
+}
+
+const webhookDelivery: ObjectSchema<WebhookDelivery> = {
+  type: 'object',
+  properties: {
+    id: string(),
+    url: string(),
+    trigger: string(),
+    sessionId: string(),
+    status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+    attempts: integer(),
+    responseStatus: integer(),
+    error: string(),
+    nextAttemptAt: integer(),
+    createdAt: integer(),
+    updatedAt: integer(),
+  },
+  required: ['id', 'url', 'trigger', 'status', 'attempts', 'createdAt', 'updatedAt'],
+}
+
+const error: ObjectSchema<{ error: string }> = {
+  type: 'object',
+  properties: { error: string() },
+  required: ['error'],
+}
+
+const success: ObjectSchema<{ success: boolean }> = {
+  type: 'object',
+  properties: { success: boolean() },
+  required: ['success'],
+}
+
+const health: ObjectSchema<{ status: 'ok'; clients: number; sessions: number }> = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['ok'] },
+    clients: integer('Connected WebSocket clients'),
+    sessions: integer(),
+  },
+  required: ['status', 'clients', 'sessions'],
+}
+
+/**
+ * Component schemas by name.
+ */
+export const SCHEMAS = {
+  Session: session,
+  TerminalInfo: terminalInfo,
+  QueuedPrompt: queuedPrompt,
+  PolicyRule: policyRule,
+  CreateSessionOptions: createSessionOptions,
+  SessionUpdate: sessionUpdate,
+  ImageInput: imageInput,
+  SendPromptRequest: sendPromptRequest,
+  SendPromptResponse: sendPromptResponse,
+  PromptResult: promptResult,
+  QueueOrder: queueOrder,
+  ApprovalDecisionRequest: approvalDecisionRequest,
+  PendingApproval: pendingApproval,
+  EventPage: eventPage,
+  OutputChunk: outputChunk,
+  WebhookDelivery: webhookDelivery,
+  Error: error,
+  Success: success,
+  Health: health,
+} satisfies Record<string, JsonSchema>
+
+export type SchemaName = keyof typeof SCHEMAS
+
+// =============================================================================
+// Document
+// =============================================================================
+
+const json = (schema: JsonSchema) => ({ content: { 'application/json': { schema } } })
+const response = (description: string, schema: JsonSchema = ref('Error')) => ({ description, ...json(schema) })
+const body = (name: SchemaName) => ({ required: true, ...json(ref(name)) })
+const sessionId = { name: 'id', in: 'path', required: true, schema: string(), description: 'Bridge session ID' }
+const query = (name: string, schema: JsonSchema, description?: string) => ({
+  name,
+  in: 'query',
+  schema,
+  ...(description ? { description } : {}),
+})
+
+const badRequest = response('Invalid request')
+const notFound = response('Not found')
+
+/**
+ * Build the OpenAPI 3 document for the REST API.
+ */
+export function createOpenApiDocument(): Record<string, unknown> {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'coding-agent-bridge',
+      version: API_VERSION,
+      description:
+        'Manage AI coding agent sessions. Once API tokens exist, send `Authorization: Bearer <token>`; ' +
+        'GET routes need the `read` scope, other routes `control`, hook callbacks `hook-ingest`.',
+    },
+    components: {
+      schemas: SCHEMAS,
+      securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+    },
+    security: [{ bearer: [] }],
+    paths: {
+      '/health': {
+        get: { summary: 'Health check', security: [], responses: { 200: response('OK', ref('Health')) } },
+      },
+      '/openapi.json': {
+        get: { summary: 'This document', security: [], responses: { 200: response('OpenAPI document', { type: 'object' }) } },
+      },
+      '/metrics': {
+        get: {
+          summary: 'Prometheus metrics',
+          responses: { 200: { description: 'Text exposition format', content: { 'text/plain': { schema: string() } } } },
+        },
+      },
+      '/sessions': {
+        get: {
+          summary: 'List sessions',
+          parameters: [
+            query('type', { type: 'string', enum: ['internal', 'external'] }),
+            query('agent', string()),
+            query('status', { type: 'string', enum: ['idle', 'working', 'waiting', 'offline', 'error'] }),
+          ],
+          responses: { 200: response('Sessions', arrayOf(ref('Session'))) },
+        },
+        post: {
+          summary: 'Create an internal session',
+          requestBody: body('CreateSessionOptions'),
+          responses: { 201: response('Created', ref('Session')), 400: badRequest },
+        },
+      },
+      '/sessions/{id}': {
+        parameters: [sessionId],
+        get: { summary: 'Get a session', responses: { 200: response('Session', ref('Session')), 404: notFound } },
+        patch: {
+          summary: 'Rename a session or set its tool policy',
+          requestBody: body('SessionUpdate'),
+          responses: { 200: response('Updated', ref('Session')), 400: badRequest, 404: notFound },
+        },
+        delete: { summary: 'Delete a session', responses: { 200: response('Deleted', ref('Success')), 404: notFound } },
+      },
+      '/sessions/{id}/prompt': {
+        parameters: [sessionId],
+        post: {
+          summary: 'Send (or queue) a prompt',
+          parameters: [
+            query('wait', { type: 'string', enum: ['true'] }, 'Respond once the agent stops'),
+            query('timeout', integer(), 'With wait=true: ms to wait (default 10 minutes)'),
+          ],
+          requestBody: body('SendPromptRequest'),
+          responses: {
+            200: response('Sent', ref('SendPromptResponse')),
+            400: badRequest,
+            504: response('The turn did not finish in time'),
+          },
+        },
+      },
+      '/sessions/{id}/cancel': {
+        parameters: [sessionId],
+        post: { summary: 'Send Ctrl+C', responses: { 200: response('Cancelled', ref('Success')), 400: badRequest } },
+      },
+      '/sessions/{id}/restart': {
+        parameters: [sessionId],
+        post: { summary: 'Restart an offline session', responses: { 200: response('Restarted', ref('Session')), 400: badRequest } },
+      },
+      '/sessions/{id}/queue': {
+        parameters: [sessionId],
+        get: { summary: 'List queued prompts', responses: { 200: response('Queue', arrayOf(ref('QueuedPrompt'))), 404: notFound } },
+        put: {
+          summary: 'Reorder queued prompts',
+          requestBody: body('QueueOrder'),
+          responses: { 200: response('Queue', arrayOf(ref('QueuedPrompt'))), 400: badRequest, 404: notFound },
+        },
+      },
+      '/sessions/{id}/output': {
+        parameters: [sessionId],
+        get: {
+          summary: 'Captured terminal output (internal sessions)',
+          parameters: [
+            query('offset', integer(), 'Byte offset to read from (default 0)'),
+            query('limit', integer(), 'Maximum bytes (default and max 1 MiB)'),
+          ],
+          responses: { 200: response('Output', ref('OutputChunk')), 400: badRequest, 404: notFound },
+        },
+      },
+      '/sessions/{id}/queue/{promptId}': {
+        parameters: [sessionId, { name: 'promptId', in: 'path', required: true, schema: string() }],
+        delete: { summary: 'Remove a queued prompt', responses: { 200: response('Removed', ref('Success')), 404: notFound } },
+      },
+      '/event': {
+        post: {
+          summary: 'Hook callback (signed by the hook script)',
+          requestBody: { required: true, ...json({ type: 'object', description: 'Raw hook payload' }) },
+          responses: { 200: response('Accepted', ref('Success')), 400: badRequest, 401: response('Bad signature') },
+        },
+      },
+      '/events': {
+        get: {
+          summary: 'Event history',
+          parameters: [
+            query('sessionId', string()),
+            query('type', string()),
+            query('cursor', integer(), "Only events after this position (a page's `cursor`)"),
+            query('before', integer(), "Only the latest events before this position (a page's `before`)"),
+            query('since', integer(), 'Only events after this timestamp (ms)'),
+            query('limit', integer(), 'Default 100, max 1000'),
+          ],
+          responses: { 200: response('Events, oldest first', ref('EventPage')), 400: badRequest },
+        },
+      },
+      '/approvals': {
+        get: {
+          summary: 'Pending tool approvals',
+          parameters: [query('sessionId', string())],
+          responses: { 200: response('Pending approvals', arrayOf(ref('PendingApproval'))), 404: notFound },
+        },
+      },
+      '/approvals/{approvalId}': {
+        parameters: [{ name: 'approvalId', in: 'path', required: true, schema: string() }],
+        post: {
+          summary: 'Allow or deny a pending tool call',
+          requestBody: body('ApprovalDecisionRequest'),
+          responses: { 200: response('Resolution', ref('PendingApproval')), 400: badRequest, 404: notFound },
+        },
+      },
+      '/webhooks': {
+        get: { summary: 'Configured webhooks (without secrets)', responses: { 200: response('Webhooks', arrayOf({ type: 'object' })) } },
+      },
+      '/webhooks/deliveries': {
+        get: {
+          summary: 'Recent webhook deliveries, newest first',
+          parameters: [
+            query('status', { type: 'string', enum: ['pending', 'delivered', 'failed'] }),
+            query('limit', integer(), 'Default 50'),
+          ],
+          responses: { 200: response('Deliveries', arrayOf(ref('WebhookDelivery'))), 400: badRequest },
+        },
+      },
+    },
+  }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function describe(schema: JsonSchema): string {
+  if (schema.$ref) return describe(resolveRef(schema.$ref))
+  if (schema.enum) return `one of ${schema.enum.join(', ')}`
+  if (schema.oneOf) return schema.oneOf.map(describe).join(' or ')
+  if (schema.type === 'array') return schema.items ? `an array of ${describe(schema.items)}s` : 'an array'
+  if (schema.type === 'integer') return 'an integer'
+  if (schema.type === 'object') return 'an object'
+  return `a ${schema.type ?? 'value'}`
+}
+
+function resolveRef(ref: string): JsonSchema {
+  const name = ref.replace('#/components/schemas/', '') as SchemaName
+  const schema = SCHEMAS[name] as JsonSchema | undefined
+  if (!schema) throw new Error(`Unknown schema: ${ref}`)
+  return schema
+}
+
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type
+    default:
+      return true
+  }
+}
+
+function check(schema: JsonSchema, value: unknown, path: string): string | null {
+  if (schema.$ref) return check(resolveRef(schema.$ref), value, path)
+  if (schema.oneOf) {
+    return schema.oneOf.some((option) => check(option, value, path) === null)
+      ? null
+      : `Invalid ${path}: expected ${describe(schema)}`
+  }
+
+  if (!matchesType(schema, value)) {
+    return `Invalid ${path}: expected ${describe(schema)}`
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return `Invalid ${path}: expected ${describe(schema)}`
+  }
+  if (schema.minLength !== undefined && (value as string).length < schema.minLength) {
+    return `Invalid ${path}: must not be empty`
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    const items = value as unknown[]
+    for (let i = 0; i < items.length; i++) {
+      const err = check(schema.items, items[i], `${path}[${i}]`)
+      if (err) return err
+    }
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>
+    const at = (key: string) => (path === 'request body' ? key : `${path}.${key}`)
+    for (const [key, item] of Object.entries(object)) {
+      const property = schema.properties?.[key]
+      if (property) {
+        if (item === undefined) continue
+        const err = check(property, item, at(key))
+        if (err) return err
+      } else if (schema.additionalProperties === false) {
+        return `Unknown field: ${at(key)}`
+      } else if (typeof schema.additionalProperties === 'object') {
+        const err = check(schema.additionalProperties, item, at(key))
+        if (err) return err
+      }
+    }
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) return `Missing ${at(key)}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate a request body against a component schema.
+ * @returns A message naming the first invalid field, or null if the body is valid
+ */
+export function validate(name: SchemaName, value: unknown): string | null {
+  return check(SCHEMAS[name], value, 'request body')
+}
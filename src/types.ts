@@ -5,6 +5,8 @@
  * events, configuration, and agent adapters.
  */
 
+import type { TerminalBackend } from './TerminalBackend.js'
+
 // =============================================================================
 // Agent Types
 // =============================================================================
@@ -21,7 +23,7 @@ export type AgentType = 'claude' | 'codex' | 'cursor' | string
 /**
  * Session status indicates the current state of a session.
  */
-export type SessionStatus = 'idle' | 'working' | 'waiting' | 'offline'
+export type SessionStatus = 'idle' | 'working' | 'waiting' | 'offline' | 'error'
 
 /**
  * Session type indicates how the session was created.
@@ -79,9 +81,33 @@ export interface Session {
   // Current state
   /** Currently executing tool, if any */
   currentTool?: string
+  /** Why the agent is blocked on the user (when status is 'waiting') */
+  waitingFor?: WaitingReason
+  /** Why the agent failed to start (when status is 'error') */
+  error?: string
 
   /** Path to the agent's transcript JSONL file */
   transcriptPath?: string
+
+  /** Prompts waiting to be sent once the agent finishes its current turn (FIFO) */
+  queue?: QueuedPrompt[]
+
+  /** Session-specific tool policy rules, evaluated before the bridge policy */
+  policy?: PolicyRule[]
+}
+
+/**
+ * A prompt held in a session's queue while the agent is busy.
+ */
+export interface QueuedPrompt {
+  /** Unique identifier (UUID) for the queued prompt */
+  id: string
+  /** Prompt text */
+  prompt: string
+  /** Paths to saved image attachments referenced by the prompt */
+  imagePaths?: string[]
+  /** When the prompt was queued (ms since epoch) */
+  queuedAt: number
 }
 
 /**
@@ -98,6 +124,8 @@ export interface CreateSessionOptions {
   flags?: Record<string, boolean | string>
   /** Spawn a visible terminal window (Linux only) */
   spawnTerminal?: boolean
+  /** Session-specific tool policy rules */
+  policy?: PolicyRule[]
 }
 
 /**
@@ -131,12 +159,13 @@ export type EventType =
   | 'user_prompt_submit'
   | 'notification'
   | 'assistant_message'
+  | 'policy_decision'
 
 /**
  * Base event interface shared by all events.
  */
 export interface BaseEvent {
-  /** Unique event ID (UUID) */
+  /** Unique event ID (the hook script's event ID for hook events, otherwise a UUID) */
   id: string
   /** Event timestamp (ms since epoch) */
   timestamp: number
@@ -150,6 +179,8 @@ export interface BaseEvent {
   agent: AgentType
   /** Working directory when event occurred */
   cwd: string
+  /** ID of the bridge prompt whose turn produced this event */
+  promptId?: string
 }
 
 /**
@@ -244,8 +275,15 @@ export interface NotificationEvent extends BaseEvent {
   message?: string
   /** Notification type/level */
   level?: string
+  /** Set when the agent is blocked on the user (permission/approval or input) */
+  waitingFor?: WaitingReason
 }
 
+/**
+ * Why an agent is blocked on the user.
+ */
+export type WaitingReason = 'permission' | 'input'
+
 /**
  * Content block from assistant output (text, thinking, or tool_use).
  */
@@ -275,6 +313,27 @@ export interface AssistantMessageEvent extends BaseEvent {
   isPreamble: boolean
 }
 
+/**
+ * Policy decision event - emitted when a tool call is checked against the tool policy.
+ */
+export interface PolicyDecisionEvent extends BaseEvent {
+  type: 'policy_decision'
+  /** Tool name */
+  tool: string
+  /** Tool input parameters */
+  toolInput: Record<string, unknown>
+  /** Tool use ID of the checked call */
+  toolUseId: string
+  /** Policy action taken */
+  action: PolicyAction
+  /** ID of the matching rule (unset when the default action applied) */
+  ruleId?: string
+  /** Reason from the matching rule */
+  reason?: string
+  /** Whether the decision was enforced before the tool ran (false if only observed after the fact) */
+  enforced: boolean
+}
+
 /**
  * Union type of all event types.
  */
@@ -288,6 +347,7 @@ export type AgentEvent =
   | UserPromptSubmitEvent
   | NotificationEvent
   | AssistantMessageEvent
+  | PolicyDecisionEvent
 
 // =============================================================================
 // Configuration
@@ -303,6 +363,9 @@ export interface BridgeConfig {
   /** Server port for HTTP/WebSocket. Default: 4003 */
   port?: number
 
+  /** Host to bind the server to. Default: '127.0.0.1' */
+  host?: string
+
   /** Default agent type for new sessions. Default: 'claude' */
   defaultAgent?: AgentType
 
@@ -315,16 +378,101 @@ export interface BridgeConfig {
   /** Timeout (ms) before marking working sessions as idle. Default: 120000 (2 min) */
   workingTimeoutMs?: number
 
+  /**
+   * Time (ms) a started session's prompts wait for the agent's ready signal
+   * (AgentAdapter.readySignals) before they fail. Default: 30000
+   */
+  readyTimeoutMs?: number
+
   /** Time (ms) before cleaning up offline sessions. Default: 7 days */
   cleanupOfflineAfterMs?: number
 
-  /** Maximum events to keep in memory. Default: 1000 */
+  /** Maximum recent events (across sessions) kept in memory for history queries. Default: 1000 */
   maxEvents?: number
 
+  /**
+   * Also detect sessions blocked on the user by matching adapters' `waitingPatterns`
+   * against the agent's tmux pane. Default: false (hook notifications only)
+   */
+  detectWaitingFromPane?: boolean
+
+  /**
+   * Approval mode: internal sessions ask the bridge before each tool call
+   * (blocking PreToolUse hook) and wait for a client to allow or deny it.
+   * Default: false
+   */
+  approvalMode?: boolean
+
+  /**
+   * Time (ms) to wait for a client decision before applying the timeout decision.
+   * Clamped to MAX_APPROVAL_TIMEOUT_MS (just under the hook's wait). Default: 120000
+   */
+  approvalTimeoutMs?: number
+
+  /** Decision applied when no client answers in time. Default: 'deny' */
+  approvalTimeoutDecision?: ApprovalDecision
+
+  /**
+   * Check tool calls in internal sessions that a tool policy applies to when
+   * they start (blocking PreToolUse hook) so denied calls never run. Default: true
+   */
+  enforcePolicy?: boolean
+
+  /**
+   * Accept hook callbacks (POST /event, POST /approvals) without a valid
+   * signature, for hook scripts installed before signing. Default: false
+   */
+  allowUnsignedEvents?: boolean
+
+  /**
+   * Also listen on a Unix domain socket at `paths.socketFile` (mode 0600).
+   * The hook script prefers it when it exists. Default: false
+   */
+  socket?: boolean
+
+  /** Listen on TCP (`host`/`port`). Disable to serve only the socket. Default: true */
+  tcp?: boolean
+
+  /** Serve HTTPS/WSS on the TCP listener. Default: null (plain HTTP) */
+  tls?: TlsOptions | null
+
+  /** Serve the bundled web dashboard at `/`. Default: false */
+  dashboard?: boolean
+
+  /**
+   * Pipe each internal session's tmux pane output to a log in `paths.outputDir`
+   * for streaming. The log grows with everything the pane prints until the
+   * session is deleted. Default: false
+   */
+  captureOutput?: boolean
+
+  /**
+   * Keep a tmux control-mode connection (`tmux -C`) for running tmux commands
+   * and noticing dead sessions immediately, instead of polling. Default: true
+   */
+  tmuxControlMode?: boolean
+
+  /**
+   * Run internal sessions in another terminal backend, e.g. a
+   * MemoryTerminalBackend for tests and demos. Default: null (tmux)
+   */
+  terminalBackend?: TerminalBackend | null
+
+  /** Outbound webhooks, in addition to those in `paths.webhooksFile`. Default: [] */
+  webhooks?: WebhookConfig[]
+
   /** Enable debug logging. Default: false */
   debug?: boolean
 }
 
+/**
+ * TLS certificate and key (PEM file paths).
+ */
+export interface TlsOptions {
+  cert: string
+  key: string
+}
+
 /**
  * Resolved configuration with all defaults applied.
  */
@@ -337,6 +485,26 @@ export interface ResolvedConfig extends Required<BridgeConfig> {
     sessionsFile: string
     /** Hooks directory */
     hooksDir: string
+    /** Directory for prompt image attachments (one subdirectory per session) */
+    imagesDir: string
+    /** Bridge-wide tool policy file */
+    policyFile: string
+    /** Directory for per-session event history files */
+    historyDir: string
+    /** API tokens file */
+    tokensFile: string
+    /** Token the hook script sends once the API requires tokens */
+    hookTokenFile: string
+    /** Secret the hook script signs callbacks with */
+    hookSecretFile: string
+    /** Unix domain socket (when `socket` is enabled) */
+    socketFile: string
+    /** Outbound webhooks file */
+    webhooksFile: string
+    /** Recent webhook deliveries */
+    webhookLogFile: string
+    /** Directory for internal sessions' terminal output logs */
+    outputDir: string
   }
 }
 
@@ -433,6 +601,39 @@ export interface AgentAdapter {
    * @returns Partial AssistantMessageEvent or null if not an assistant message
    */
   parseTranscriptEntry?(entry: unknown): Partial<AssistantMessageEvent> | null
+
+  /**
+   * Format a prompt that references saved image attachments.
+   * Defaults to appending the image paths after the prompt text.
+   * @param prompt Prompt text
+   * @param imagePaths Absolute paths to the saved images
+   * @returns Text to paste into the agent
+   */
+  formatPromptWithImages?(prompt: string, imagePaths: string[]): string
+
+  /**
+   * Patterns matched against the last lines of the agent's pane to detect a
+   * permission/approval dialog. Only used when pane-based waiting detection
+   * is enabled.
+   */
+  waitingPatterns?: RegExp[]
+
+  /**
+   * How to tell a freshly started agent is ready for input. Prompts to a
+   * session the bridge started are held until the first signal arrives.
+   * Without signals, prompts wait only for the agent's first hook event.
+   */
+  readySignals?: ReadySignals
+}
+
+/**
+ * Signals that an agent has started and accepts input (any one suffices).
+ */
+export interface ReadySignals {
+  /** Ready when the agent's session_start hook event arrives */
+  sessionStart?: boolean
+  /** Ready when one of these matches the agent's screen */
+  patterns?: RegExp[]
 }
 
 // =============================================================================
@@ -461,6 +662,301 @@ export interface SendResult {
   error?: string
   /** Paths to saved images (if any) */
   imagePaths?: string[]
+  /** Whether the prompt was queued because the agent is busy */
+  queued?: boolean
+  /** Prompt ID - events from the resulting turn are tagged with it */
+  promptId?: string
+}
+
+/**
+ * A tool call made during a prompt's turn.
+ */
+export interface PromptToolSummary {
+  /** Tool name */
+  tool: string
+  /** Tool use ID */
+  toolUseId: string
+  /** Whether the tool succeeded (undefined if no post_tool_use was seen) */
+  success?: boolean
+}
+
+/**
+ * Outcome of a prompt's turn, resolved when the agent stops.
+ */
+export interface PromptResult {
+  /** Prompt ID */
+  promptId: string
+  /** Bridge session ID */
+  sessionId: string
+  /** Text of the agent's final assistant message */
+  text: string
+  /** Tool calls made during the turn, in order */
+  tools: PromptToolSummary[]
+  /** Time from delivering the prompt to the agent stopping (ms) */
+  durationMs: number
+}
+
+/**
+ * Options for `Bridge.runPrompt()`.
+ */
+export interface RunPromptOptions {
+  /** Images to include */
+  images?: ImageInput[]
+  /** Max time (ms) to wait for the turn to finish, including time spent queued. Default: 600000 */
+  timeoutMs?: number
+}
+
+/**
+ * Event history query.
+ */
+export interface EventQuery {
+  /** Only events for this session (reads the session's full history) */
+  sessionId?: string
+  /** Only events of this type */
+  type?: EventType
+  /** Only events after this history position (a page's `cursor`), oldest first */
+  cursor?: number
+  /** Only the latest events before this history position (a page's `before`), oldest first */
+  before?: number
+  /**
+   * Only events after this timestamp (ms since epoch), oldest first. Several
+   * events can share a millisecond: page with `cursor`
+   */
+  since?: number
+  /** Page size. Default: 100, max: 1000 */
+  limit?: number
+}
+
+/**
+ * A page of event history, oldest first.
+ */
+export interface EventPage {
+  events: AgentEvent[]
+  /**
+   * Whether more events match the query beyond this page: newer ones when
+   * paging forward, older ones when reading from the end
+   */
+  hasMore: boolean
+  /** History position of the page's last event; pass as `cursor` for the next page */
+  cursor: number
+  /**
+   * History position of the page's first event, on pages read from the end
+   * while older events remain; pass as `before` for the previous page
+   */
+  before?: number
+}
+
+/**
+ * A slice of an internal session's terminal output log. Offsets are byte
+ * positions in the log, and `data` never ends in the middle of a character.
+ */
+export interface OutputChunk {
+  sessionId: string
+  /** Byte offset of the first byte of `data` */
+  offset: number
+  /** Offset to continue reading from */
+  nextOffset: number
+  /** Log size (bytes) when the chunk was read */
+  size: number
+  /** Raw terminal output, including escape sequences */
+  data: string
+}
+
+/**
+ * The current screen of an internal session's terminal, for attaching a
+ * terminal emulator (e.g. xterm.js) before streaming output from `offset`.
+ */
+export interface TerminalSnapshot {
+  sessionId: string
+  /** Terminal width in columns */
+  cols: number
+  /** Terminal height in rows */
+  rows: number
+  /** Output log size when the snapshot was taken; stream output from here */
+  offset: number
+  /** Escape sequences that clear the screen, redraw it and place the cursor */
+  data: string
+}
+
+/**
+ * What the tool policy does with a matching call.
+ * - allow: run without asking (skips approval in approval mode)
+ * - deny: block the call
+ * - flag: run, but record it (asks a client in approval mode)
+ */
+export type PolicyAction = 'allow' | 'deny' | 'flag'
+
+/**
+ * A tool policy rule. All conditions given must match; the first matching rule wins.
+ */
+export interface PolicyRule {
+  /** Rule ID, reported in policy decisions */
+  id?: string
+  /** Action for matching calls */
+  action: PolicyAction
+  /** Tool name glob(s), e.g. "Bash" or "mcp__*" */
+  tool?: string | string[]
+  /** Regular expression matched against Bash commands */
+  command?: string
+  /** Glob matched against file paths in the tool input (relative paths resolve against the session cwd) */
+  path?: string
+  /** Match only calls touching a file path outside the session cwd */
+  outsideCwd?: boolean
+  /** Reason shown to the agent and clients */
+  reason?: string
+}
+
+/**
+ * Contents of a tool policy file.
+ */
+export interface PolicyConfig {
+  /** Rules, checked in order */
+  rules: PolicyRule[]
+  /** Action when no rule matches. Default: 'allow' */
+  defaultAction?: PolicyAction
+}
+
+/**
+ * Result of checking a tool call against the policy.
+ */
+export interface PolicyDecision {
+  action: PolicyAction
+  /** Matching rule ID */
+  ruleId?: string
+  /** Reason from the matching rule */
+  reason?: string
+  /** Whether a rule matched (false when the default action applied) */
+  matched: boolean
+}
+
+/**
+ * Decision for a pending tool approval.
+ */
+export type ApprovalDecision = 'allow' | 'deny'
+
+/**
+ * A tool call waiting for a client to allow or deny it.
+ */
+export interface PendingApproval {
+  /** Approval ID (UUID) */
+  id: string
+  /** Bridge session ID */
+  sessionId: string
+  /** Agent that requested approval */
+  agent: AgentType
+  /** Tool name */
+  tool: string
+  /** Tool input */
+  toolInput: Record<string, unknown>
+  /** Tool use ID, if the agent provides one */
+  toolUseId?: string
+  /** Working directory */
+  cwd: string
+  /** When the approval was requested (ms since epoch) */
+  requestedAt: number
+  /** When the timeout decision applies (ms since epoch) */
+  expiresAt: number
+}
+
+/**
+ * A decided approval.
+ */
+export interface ApprovalResolution extends PendingApproval {
+  /** Decision sent back to the agent */
+  decision: ApprovalDecision
+  /** Reason shown to the agent */
+  reason?: string
+  /** Whether a client decided or the timeout did */
+  resolvedBy: 'client' | 'timeout'
+  /** When the approval was decided (ms since epoch) */
+  resolvedAt: number
+}
+
+/**
+ * What an API token may do.
+ */
+export type TokenScope = 'read' | 'control' | 'hook-ingest'
+
+/**
+ * An API token (without its secret).
+ */
+export interface ApiToken {
+  /** Short token ID */
+  id: string
+  /** Name given when the token was created */
+  name: string
+  scopes: TokenScope[]
+  /** When the token was created (ms since epoch) */
+  createdAt: number
+}
+
+/**
+ * An outbound webhook.
+ */
+export interface WebhookConfig {
+  /** Endpoint that receives POSTed JSON payloads */
+  url: string
+  /** Secret for signing payloads (`X-Bridge-Signature`). Unsigned if omitted */
+  secret?: string
+  /**
+   * Triggers to deliver, e.g. `session:status:waiting`, `event:stop` or
+   * `event:post_tool_use:failed`. Default: all (`*`)
+   */
+  events?: string[]
+  /** Delivery attempts before giving up. Default: 5 */
+  maxAttempts?: number
+}
+
+/**
+ * Bridge activity a webhook payload describes (SessionManager event names).
+ */
+export type WebhookTrigger =
+  | 'session:created'
+  | 'session:updated'
+  | 'session:deleted'
+  | 'session:status'
+  | 'session:queue'
+  | 'event'
+
+/**
+ * Body POSTed to a webhook.
+ */
+export interface WebhookPayload {
+  /** Delivery ID (also sent as `X-Bridge-Delivery`) */
+  id: string
+  trigger: WebhookTrigger
+  /** When the activity happened (ms since epoch) */
+  timestamp: number
+  /**
+   * `{ session }` for session triggers, plus `{ from, to }` for
+   * `session:status` and `{ queue }` for `session:queue`; `{ event }` for `event`
+   */
+  data: Record<string, unknown>
+}
+
+/**
+ * A webhook delivery, as recorded in the delivery log.
+ */
+export interface WebhookDelivery {
+  /** Delivery ID */
+  id: string
+  /** Webhook URL */
+  url: string
+  /** Most specific trigger name that matched (e.g. `session:status:waiting`) */
+  trigger: string
+  /** Bridge session the activity belongs to */
+  sessionId?: string
+  status: 'pending' | 'delivered' | 'failed'
+  /** Attempts made so far */
+  attempts: number
+  /** HTTP status of the last attempt */
+  responseStatus?: number
+  /** Why the last attempt failed */
+  error?: string
+  /** When the next retry is due (ms since epoch, while pending) */
+  nextAttemptAt?: number
+  createdAt: number
+  updatedAt: number
 }
 
 /**
@@ -477,6 +973,14 @@ export interface BridgeEvents {
   'session:deleted': (session: Session) => void
   /** Emitted when a session's status changes */
   'session:status': (session: Session, from: SessionStatus, to: SessionStatus) => void
+  /** Emitted when a session's prompt queue changes */
+  'session:queue': (session: Session, queue: QueuedPrompt[]) => void
+  /** Emitted when an internal session's terminal prints output (`captureOutput`) */
+  'session:output': (session: Session, chunk: OutputChunk) => void
+  /** Emitted when a tool call is waiting for approval (approval mode) */
+  'approval:requested': (approval: PendingApproval) => void
+  /** Emitted when an approval is decided by a client or times out */
+  'approval:resolved': (resolution: ApprovalResolution) => void
   /** Emitted on errors */
   error: (error: Error) => void
 }
@@ -535,10 +1039,11 @@ export interface Bridge {
   /**
    * Update a session's properties.
    * @param id Session ID
-   * @param updates Properties to update
+   * @param updates Properties to update (an empty `policy` clears the session's rules)
    * @returns Updated session or undefined if not found
+   * @throws Error if the policy rules are invalid
    */
-  updateSession(id: string, updates: Partial<Pick<Session, 'name'>>): Session | undefined
+  updateSession(id: string, updates: Partial<Pick<Session, 'name' | 'policy'>>): Session | undefined
 
   // === Session Control (internal sessions only) ===
 
@@ -551,6 +1056,39 @@ export interface Bridge {
    */
   sendPrompt(id: string, prompt: string, images?: ImageInput[]): Promise<SendResult>
 
+  /**
+   * Send a prompt and wait for the agent to finish its turn.
+   * @param id Session ID
+   * @param prompt Prompt text
+   * @param options Images and timeout
+   * @returns The turn's final assistant text, tool calls and duration
+   * @throws Error if the prompt can't be sent or the turn times out
+   */
+  runPrompt(id: string, prompt: string, options?: RunPromptOptions): Promise<PromptResult>
+
+  /**
+   * Get the prompts queued for a session.
+   * @param id Session ID
+   * @returns Queued prompts (oldest first) or undefined if not found
+   */
+  getQueue(id: string): QueuedPrompt[] | undefined
+
+  /**
+   * Reorder a session's queued prompts.
+   * @param id Session ID
+   * @param order Queued prompt IDs in the new order (must include every queued ID)
+   * @returns The reordered queue or undefined if not found
+   */
+  reorderQueue(id: string, order: string[]): QueuedPrompt[] | undefined
+
+  /**
+   * Remove a prompt from a session's queue.
+   * @param id Session ID
+   * @param promptId Queued prompt ID
+   * @returns True if removed, false if not found
+   */
+  removeQueuedPrompt(id: string, promptId: string): Promise<boolean>
+
   /**
    * Cancel (Ctrl+C) a session.
    * @param id Session ID
@@ -565,6 +1103,73 @@ export interface Bridge {
    */
   restart(id: string): Promise<Session>
 
+  /**
+   * Read an internal session's captured terminal output.
+   * @param id Session ID
+   * @param offset Byte offset to start at. Default: 0
+   * @param limit Maximum bytes to read. Default: 64 KiB
+   * @returns The output chunk or undefined if the session has no output log
+   */
+  readOutput(id: string, offset?: number, limit?: number): Promise<OutputChunk | undefined>
+
+  /**
+   * Capture an internal session's screen for attaching a terminal emulator.
+   * @returns The snapshot or undefined if the session isn't running or has no output log
+   */
+  getTerminalSnapshot(id: string): Promise<TerminalSnapshot | undefined>
+
+  /**
+   * Type raw terminal input (e.g. xterm.js `onData`) into an internal session.
+   * @returns Whether the input was sent
+   */
+  sendTerminalInput(id: string, data: string): Promise<boolean>
+
+  /**
+   * Resize an internal session's terminal.
+   * @returns Whether the terminal was resized
+   */
+  resizeTerminal(id: string, cols: number, rows: number): Promise<boolean>
+
+  // === Event History ===
+
+  /**
+   * Query recorded events.
+   * @param query Filters and paging (session queries include history from previous runs)
+   * @returns A page of events, oldest first
+   */
+  getEvents(query?: EventQuery): Promise<EventPage>
+
+  // === Tool Policy ===
+
+  /**
+   * Get the bridge-wide tool policy.
+   */
+  getPolicy(): PolicyConfig
+
+  /**
+   * Reload the bridge-wide tool policy from `paths.policyFile`.
+   * @throws Error if the file is invalid (the previous policy stays in effect)
+   */
+  reloadPolicy(): Promise<PolicyConfig>
+
+  // === Approvals ===
+
+  /**
+   * List tool calls waiting for approval.
+   * @param sessionId Optional session to filter by
+   * @returns Pending approvals (oldest first)
+   */
+  listApprovals(sessionId?: string): PendingApproval[]
+
+  /**
+   * Allow or deny a pending tool call.
+   * @param id Approval ID
+   * @param decision Allow or deny
+   * @param reason Optional reason shown to the agent
+   * @returns The resolution, or undefined if no such pending approval
+   */
+  resolveApproval(id: string, decision: ApprovalDecision, reason?: string): ApprovalResolution | undefined
+
   // === Agents ===
 
   /**
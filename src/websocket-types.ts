@@ -7,7 +7,19 @@
  * @module websocket-types
  */
 
-import type { AgentEvent, Session, EventType } from './types.js'
+import type {
+  AgentEvent,
+  AgentType,
+  CreateSessionOptions,
+  ImageInput,
+  Session,
+  SessionType,
+  EventType,
+  PendingApproval,
+  ApprovalResolution,
+  OutputChunk,
+  TerminalSnapshot,
+} from './types.js'
 
 // =============================================================================
 // Base Message Type
@@ -22,6 +34,14 @@ export interface WSMessage<T extends string = string, D = unknown> {
   type: T
   /** Message payload */
   data?: D
+  /**
+   * Sequence number, increasing on every broadcast (events, session and
+   * approval updates). Replies to one client aren't numbered. Pass the last
+   * one seen to `resume` after reconnecting.
+   */
+  seq?: number
+  /** Client-supplied request ID on RPC commands, echoed on their `result` / `error` reply */
+  id?: string
 }
 
 // =============================================================================
@@ -33,6 +53,12 @@ export interface WSMessage<T extends string = string, D = unknown> {
  */
 export interface WSInitData {
   sessions: Session[]
+  /** Pending tool approvals (only when approval mode is enabled) */
+  approvals?: PendingApproval[]
+  /** Server run identifier - pass it to `resume` so a restarted server is detected */
+  epoch?: string
+  /** Last broadcast sequence number, to resume from before any broadcast arrives */
+  seq?: number
 }
 
 export interface WSInitMessage extends WSMessage<'init', WSInitData> {
@@ -81,11 +107,160 @@ export interface WSSessionStatusMessage extends WSMessage<'session:status', Sess
 }
 
 /**
- * Event history response.
+ * Session prompt queue changed notification.
+ * The session's `queue` holds the pending prompts, oldest first.
+ */
+export interface WSSessionQueueMessage extends WSMessage<'session:queue', Session> {
+  type: 'session:queue'
+  data: Session
+}
+
+/**
+ * Tool call waiting for approval (approval mode).
+ */
+export interface WSApprovalRequestedMessage extends WSMessage<'approval:requested', PendingApproval> {
+  type: 'approval:requested'
+  data: PendingApproval
+}
+
+/**
+ * Approval decided by a client or by timeout.
+ */
+export interface WSApprovalResolvedMessage extends WSMessage<'approval:resolved', ApprovalResolution> {
+  type: 'approval:resolved'
+  data: ApprovalResolution
+}
+
+/**
+ * Event history response, oldest first.
  */
 export interface WSHistoryMessage extends WSMessage<'history', AgentEvent[]> {
   type: 'history'
   data: AgentEvent[]
+  /** History position of the last event; pass as `get_history` `cursor` for the next page */
+  cursor: number
+  /** Whether more events match the request beyond this page (older ones for pages read from the end) */
+  hasMore: boolean
+  /** Set on pages read from the end while older events remain; pass as `get_history` `before` */
+  before?: number
+}
+
+/**
+ * Acknowledges a `subscribe` request with the filters now in effect.
+ */
+export interface WSSubscribedMessage extends WSMessage<'subscribed', WSSubscribeData> {
+  type: 'subscribed'
+  data: WSSubscribeData
+}
+
+/**
+ * Terminal output from an internal session the client subscribed to with
+ * `subscribe_output`. Not replayed on `resume`; resubscribe from `nextOffset`.
+ */
+export interface WSOutputMessage extends WSMessage<'output', OutputChunk> {
+  type: 'output'
+  data: OutputChunk
+}
+
+/**
+ * Acknowledges `subscribe_output`. Output from `offset` on follows.
+ */
+export interface WSOutputSubscribedMessage extends WSMessage<'output_subscribed', WSOutputSubscribedData> {
+  type: 'output_subscribed'
+  data: WSOutputSubscribedData
+}
+
+export interface WSOutputSubscribedData {
+  sessionId: string
+  /** Offset the stream starts at */
+  offset: number
+  /** Current log size (bytes) */
+  size: number
+}
+
+/**
+ * Reply to `terminal_attach`: the screen to draw (e.g. `term.write(data)` in
+ * xterm.js), followed by `output` messages from `offset`.
+ */
+export interface WSTerminalAttachedMessage extends WSMessage<'terminal_attached', WSTerminalAttachedData> {
+  type: 'terminal_attached'
+  data: WSTerminalAttachedData
+}
+
+export interface WSTerminalAttachedData extends TerminalSnapshot {
+  /** Whether this client is the writer */
+  writer: boolean
+}
+
+/**
+ * Sent to every client attached to a terminal when its size, viewers or
+ * writer change.
+ */
+export interface WSTerminalStateMessage extends WSMessage<'terminal_state', WSTerminalStateData> {
+  type: 'terminal_state'
+  data: WSTerminalStateData
+}
+
+export interface WSTerminalStateData {
+  sessionId: string
+  cols: number
+  rows: number
+  /** Number of attached clients */
+  viewers: number
+  /** Whether this client is the writer */
+  writer: boolean
+  /** Whether any client is the writer */
+  hasWriter: boolean
+}
+
+/**
+ * Sent after replaying the messages a resuming client missed.
+ */
+export interface WSResumedData {
+  /** Sequence number the client resumed from */
+  lastSeq: number
+  /** Number of messages replayed */
+  replayed: number
+}
+
+export interface WSResumedMessage extends WSMessage<'resumed', WSResumedData> {
+  type: 'resumed'
+  data: WSResumedData
+}
+
+/**
+ * Sent when missed messages can't be replayed. A fresh `init` follows;
+ * clients should rebuild their state from it.
+ */
+export interface WSResyncMessage extends WSMessage<'resync', { reason: string }> {
+  type: 'resync'
+  data: { reason: string }
+}
+
+/**
+ * Successful reply to an RPC command. `data` is the command's result
+ * (see {@link WSCommandResults}).
+ */
+export interface WSResultMessage<R = unknown> extends WSMessage<'result', R> {
+  type: 'result'
+  id: string
+  data: R
+}
+
+/**
+ * Failed RPC command.
+ */
+export interface WSErrorData {
+  error: string
+  /** Equivalent HTTP status code (400 invalid request, 404 not found, 500 server error) */
+  status: number
+}
+
+export interface WSErrorMessage extends WSMessage<'error', WSErrorData> {
+  type: 'error'
+  /** Missing if the command had no request ID */
+  id?: string
+  data: WSErrorData
 }
 
 /**
@@ -106,14 +281,35 @@ export interface WSPingMessage extends WSMessage<'ping', undefined> {
   type: 'ping'
 }
 
+/**
+ * Authenticate a connection opened without an `Authorization` header.
+ * Must be the first message when the bridge requires tokens.
+ */
+export interface WSAuthData {
+  token: string
+}
+
+export interface WSAuthMessage extends WSMessage<'auth', WSAuthData> {
+  type: 'auth'
+  data: WSAuthData
+}
+
 /**
  * Request event history.
  */
 export interface WSGetHistoryData {
   /** Max events to return (default: 100) */
   limit?: number
-  /** Filter by session ID */
+  /** Filter by session ID (includes the session's full stored history) */
   sessionId?: string
+  /** Filter by event type */
+  type?: EventType
+  /** Only events after this history position (a previous `history` reply's `cursor`) */
+  cursor?: number
+  /** Only the latest events before this history position (a previous `history` reply's `before`) */
+  before?: number
+  /** Only events after this timestamp (ms since epoch) */
+  since?: number
 }
 
 export interface WSGetHistoryMessage extends WSMessage<'get_history', WSGetHistoryData> {
@@ -127,8 +323,12 @@ export interface WSGetHistoryMessage extends WSMessage<'get_history', WSGetHisto
 export interface WSSubscribeData {
   /** Session IDs to subscribe to (empty = all) */
   sessions?: string[]
-  /** Event types to subscribe to (empty = all) */
+  /** Event types to subscribe to (empty = all). Only filters `event` messages */
   eventTypes?: EventType[]
+  /** Agents to subscribe to (empty = all) */
+  agents?: AgentType[]
+  /** Session types to subscribe to (empty = all) */
+  sessionTypes?: SessionType[]
 }
 
 export interface WSSubscribeMessage extends WSMessage<'subscribe', WSSubscribeData> {
@@ -136,6 +336,167 @@ export interface WSSubscribeMessage extends WSMessage<'subscribe', WSSubscribeDa
   data?: WSSubscribeData
 }
 
+/**
+ * Resume after reconnecting: replay broadcasts after `lastSeq`.
+ */
+export interface WSResumeData {
+  /** Last sequence number the client received */
+  lastSeq: number
+  /** `epoch` from the client's last `init` */
+  epoch?: string
+}
+
+export interface WSResumeMessage extends WSMessage<'resume', WSResumeData> {
+  type: 'resume'
+  data: WSResumeData
+}
+
+/**
+ * Stream an internal session's terminal output as `output` messages.
+ */
+export interface WSSubscribeOutputData {
+  sessionId: string
+  /** Byte offset to start from (e.g. a previous `nextOffset`). Default: the end of the log */
+  offset?: number
+}
+
+export interface WSSubscribeOutputMessage extends WSMessage<'subscribe_output', WSSubscribeOutputData> {
+  type: 'subscribe_output'
+  data: WSSubscribeOutputData
+}
+
+export interface WSUnsubscribeOutputMessage extends WSMessage<'unsubscribe_output', { sessionId: string }> {
+  type: 'unsubscribe_output'
+  data: { sessionId: string }
+}
+
+/**
+ * Attach to an internal session's terminal. Any number of clients can watch;
+ * only the writer's input and resizes are applied.
+ */
+export interface WSTerminalAttachData {
+  sessionId: string
+  /** Become the writer if there is none (needs the `control` scope) */
+  write?: boolean
+  /** Size to resize the terminal to when becoming the writer */
+  cols?: number
+  rows?: number
+}
+
+export interface WSTerminalAttachMessage extends WSMessage<'terminal_attach', WSTerminalAttachData> {
+  type: 'terminal_attach'
+  data: WSTerminalAttachData
+}
+
+/**
+ * Keystrokes from the writer, as raw terminal input (xterm.js `onData`).
+ */
+export interface WSTerminalInputMessage extends WSMessage<'terminal_input', { sessionId: string; data: string }> {
+  type: 'terminal_input'
+  data: { sessionId: string; data: string }
+}
+
+/**
+ * Resize the terminal (writer only).
+ */
+export interface WSTerminalResizeMessage
+  extends WSMessage<'terminal_resize', { sessionId: string; cols: number; rows: number }> {
+  type: 'terminal_resize'
+  data: { sessionId: string; cols: number; rows: number }
+}
+
+/**
+ * Become the writer. Fails while another client is, unless `force` is set.
+ */
+export interface WSTerminalClaimMessage extends WSMessage<'terminal_claim', { sessionId: string; force?: boolean }> {
+  type: 'terminal_claim'
+  data: { sessionId: string; force?: boolean }
+}
+
+export interface WSTerminalReleaseMessage extends WSMessage<'terminal_release', { sessionId: string }> {
+  type: 'terminal_release'
+  data: { sessionId: string }
+}
+
+export interface WSTerminalDetachMessage extends WSMessage<'terminal_detach', { sessionId: string }> {
+  type: 'terminal_detach'
+  data: { sessionId: string }
+}
+
+// =============================================================================
+// RPC Commands (Client → Server, answered with `result` or `error`)
+// =============================================================================
+
+/**
+ * RPC command message. Each carries a client-supplied `id` that the reply echoes.
+ */
+export interface WSCommandMessage<T extends WSCommandType = WSCommandType, D = unknown>
+  extends WSMessage<T, D> {
+  type: T
+  id: string
+  data: D
+}
+
+/**
+ * Data for commands that target a session.
+ */
+export interface WSSessionCommandData {
+  sessionId: string
+}
+
+export interface WSSendPromptData extends WSSessionCommandData {
+  prompt?: string
+  images?: ImageInput[]
+}
+
+export interface WSRenameData extends WSSessionCommandData {
+  name: string
+}
+
+/**
+ * Result of `send_prompt`.
+ */
+export interface WSSendPromptResult {
+  success: true
+  promptId?: string
+  /** Set when the agent was busy and the prompt was queued */
+  queued?: boolean
+  imagePaths?: string[]
+}
+
+/**
+ * Command data by command type.
+ */
+export interface WSCommandData {
+  create_session: CreateSessionOptions
+  send_prompt: WSSendPromptData
+  cancel: WSSessionCommandData
+  restart: WSSessionCommandData
+  delete: WSSessionCommandData
+  rename: WSRenameData
+}
+
+/**
+ * `result` data by command type.
+ */
+export interface WSCommandResults {
+  create_session: Session
+  send_prompt: WSSendPromptResult
+  cancel: { success: true }
+  restart: Session
+  delete: { success: true }
+  rename: Session
+}
+
+export type WSCommandType = keyof WSCommandData
+
+export type WSCreateSessionMessage = WSCommandMessage<'create_session', CreateSessionOptions>
+export type WSSendPromptMessage = WSCommandMessage<'send_prompt', WSSendPromptData>
+export type WSCancelMessage = WSCommandMessage<'cancel', WSSessionCommandData>
+export type WSRestartMessage = WSCommandMessage<'restart', WSSessionCommandData>
+export type WSDeleteMessage = WSCommandMessage<'delete', WSSessionCommandData>
+export type WSRenameMessage = WSCommandMessage<'rename', WSRenameData>
+
 // =============================================================================
 // Union Types
 // =============================================================================
@@ -150,7 +511,19 @@ export type WSServerMessage =
   | WSSessionUpdatedMessage
   | WSSessionDeletedMessage
   | WSSessionStatusMessage
+  | WSSessionQueueMessage
+  | WSApprovalRequestedMessage
+  | WSApprovalResolvedMessage
   | WSHistoryMessage
+  | WSSubscribedMessage
+  | WSOutputMessage
+  | WSOutputSubscribedMessage
+  | WSTerminalAttachedMessage
+  | WSTerminalStateMessage
+  | WSResumedMessage
+  | WSResyncMessage
+  | WSResultMessage
+  | WSErrorMessage
   | WSPongMessage
 
 /**
@@ -158,8 +531,24 @@ export type WSServerMessage =
  */
 export type WSClientMessage =
   | WSPingMessage
+  | WSAuthMessage
   | WSGetHistoryMessage
   | WSSubscribeMessage
+  | WSResumeMessage
+  | WSSubscribeOutputMessage
+  | WSUnsubscribeOutputMessage
+  | WSTerminalAttachMessage
+  | WSTerminalInputMessage
+  | WSTerminalResizeMessage
+  | WSTerminalClaimMessage
+  | WSTerminalReleaseMessage
+  | WSTerminalDetachMessage
+  | WSCreateSessionMessage
+  | WSSendPromptMessage
+  | WSCancelMessage
+  | WSRestartMessage
+  | WSDeleteMessage
+  | WSRenameMessage
 
 /**
  * All WebSocket message types.
@@ -206,7 +595,12 @@ export function isEventMessage(msg: WSAnyMessage): msg is WSEventMessage {
  */
 export function isSessionMessage(
   msg: WSAnyMessage
-): msg is WSSessionCreatedMessage | WSSessionUpdatedMessage | WSSessionDeletedMessage | WSSessionStatusMessage {
+): msg is
+  | WSSessionCreatedMessage
+  | WSSessionUpdatedMessage
+  | WSSessionDeletedMessage
+  | WSSessionStatusMessage
+  | WSSessionQueueMessage {
   return msg.type.startsWith('session:')
 }
 
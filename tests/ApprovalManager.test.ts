@@ -0,0 +1,91 @@
+/**
+ * Unit tests for ApprovalManager
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { ApprovalManager, MAX_APPROVAL_TIMEOUT_MS } from '../src/ApprovalManager.js'
+import type { ApprovalRequest } from '../src/ApprovalManager.js'
+
+const request: ApprovalRequest = {
+  sessionId: 's1',
+  agent: 'claude',
+  tool: 'Bash',
+  toolInput: { command: 'rm -rf build' },
+  toolUseId: 't1',
+  cwd: '/tmp',
+}
+
+describe('ApprovalManager', () => {
+  let approvals: ApprovalManager
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    approvals = new ApprovalManager({ timeoutMs: 1000 })
+  })
+
+  afterEach(() => {
+    approvals.clear()
+    vi.useRealTimers()
+  })
+
+  it('should list pending approvals until they are resolved', async () => {
+    const requested = vi.fn()
+    approvals.on('approval:requested', requested)
+
+    const pending = approvals.request(request)
+    const [approval] = approvals.list()
+
+    expect(approval).toMatchObject({ sessionId: 's1', tool: 'Bash', toolUseId: 't1' })
+    expect(approval!.expiresAt - approval!.requestedAt).toBe(1000)
+    expect(requested).toHaveBeenCalledWith(approval)
+
+    const resolution = approvals.resolve(approval!.id, 'allow', 'Looks fine')
+
+    expect(resolution).toMatchObject({ decision: 'allow', reason: 'Looks fine', resolvedBy: 'client' })
+    expect(await pending).toEqual(resolution)
+    expect(approvals.list()).toEqual([])
+  })
+
+  it('should filter by session', () => {
+    approvals.request(request)
+    approvals.request({ ...request, sessionId: 's2' })
+
+    expect(approvals.list('s2')).toHaveLength(1)
+    expect(approvals.list('s2')[0]!.sessionId).toBe('s2')
+  })
+
+  it('should return undefined for approvals that are not pending', () => {
+    expect(approvals.resolve('missing', 'allow')).toBeUndefined()
+  })
+
+  it('should apply the timeout decision when nobody answers', async () => {
+    const lenient = new ApprovalManager({ timeoutMs: 500, timeoutDecision: 'allow' })
+    const resolved = vi.fn()
+    lenient.on('approval:resolved', resolved)
+
+    const pending = lenient.request(request)
+    vi.advanceTimersByTime(500)
+
+    const resolution = await pending
+    expect(resolution).toMatchObject({ decision: 'allow', resolvedBy: 'timeout', reason: 'Approval timed out' })
+    expect(resolved).toHaveBeenCalledWith(resolution)
+  })
+
+  it('should cap the timeout below the hook script\'s wait', () => {
+    const patient = new ApprovalManager({ timeoutMs: 60 * 60 * 1000 })
+
+    patient.request(request)
+    const [approval] = patient.list()
+
+    expect(approval!.expiresAt - approval!.requestedAt).toBe(MAX_APPROVAL_TIMEOUT_MS)
+    patient.clear()
+  })
+
+  it('should deny everything pending on clear', async () => {
+    const pending = approvals.request(request)
+
+    approvals.clear()
+
+    expect(await pending).toMatchObject({ decision: 'deny', reason: 'Bridge stopped' })
+  })
+})
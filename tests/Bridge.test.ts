@@ -0,0 +1,505 @@
+/**
+ * Unit tests for the composed Bridge
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CodingAgentBridge, createBridge, resolveConfig } from '../src/Bridge.js'
+import type { AgentAdapter, AgentEvent } from '../src/types.js'
+import { tmpdir, homedir } from 'os'
+import { join } from 'path'
+import { mkdir, rm, appendFile, writeFile, readFile } from 'fs/promises'
+import { randomUUID } from 'crypto'
+import { signHookPayload } from '../src/HookVerifier.js'
+import { MemoryTerminalBackend } from '../src/MemoryTerminalBackend.js'
+import { SessionManager } from '../src/SessionManager.js'
+import { FileWatcher } from '../src/FileWatcher.js'
+import { APPROVAL_MODE_ENV, MAX_APPROVAL_TIMEOUT_MS } from '../src/ApprovalManager.js'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+
+/**
+ * POST a hook callback to a bridge, signed like the hook script does
+ */
+async function postHook(bridge: CodingAgentBridge, path: string, payload: unknown): Promise<Response> {
+  const secret = (await readFile(bridge.config.paths.hookSecretFile, 'utf8')).trim()
+  const body = JSON.stringify(payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const nonce = randomUUID()
+  return fetch(`http://127.0.0.1:${bridge.config.port}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Bridge-Timestamp': String(timestamp),
+      'X-Bridge-Nonce': nonce,
+      'X-Bridge-Signature': signHookPayload(secret, timestamp, nonce, body),
+    },
+    body,
+  })
+}
+
+describe('resolveConfig', () => {
+  it('should apply defaults', () => {
+    const config = resolveConfig()
+
+    expect(config.dataDir).toBe(join(homedir(), '.coding-agent-bridge'))
+    expect(config.port).toBe(4003)
+    expect(config.host).toBe('127.0.0.1')
+    expect(config.defaultAgent).toBe('claude')
+    expect(config.agents).toEqual(['claude', 'codex'])
+    expect(config.trackExternalSessions).toBe(true)
+    expect(config.maxEvents).toBe(1000)
+    expect(config.approvalMode).toBe(false)
+    expect(config.approvalTimeoutMs).toBe(120000)
+    expect(config.approvalTimeoutDecision).toBe('deny')
+    expect(config.enforcePolicy).toBe(true)
+    expect(config.allowUnsignedEvents).toBe(false)
+    expect(config.socket).toBe(false)
+    expect(config.tcp).toBe(true)
+    expect(config.tls).toBeNull()
+    expect(config.captureOutput).toBe(false)
+    expect(config.tmuxControlMode).toBe(true)
+    expect(config.webhooks).toEqual([])
+  })
+
+  it('should cap the approval timeout below the hook script\'s wait', () => {
+    expect(resolveConfig({ approvalTimeoutMs: 15 * 60 * 1000 }).approvalTimeoutMs).toBe(MAX_APPROVAL_TIMEOUT_MS)
+    expect(resolveConfig({ approvalTimeoutMs: 5000 }).approvalTimeoutMs).toBe(5000)
+  })
+
+  it('should expand ~ in dataDir and derive paths', () => {
+    const config = resolveConfig({ dataDir: '~/.my-app' })
+
+    expect(config.dataDir).toBe(join(homedir(), '.my-app'))
+    expect(config.paths.eventsFile).toBe(join(homedir(), '.my-app', 'data', 'events.jsonl'))
+    expect(config.paths.sessionsFile).toBe(join(homedir(), '.my-app', 'data', 'sessions.json'))
+    expect(config.paths.hooksDir).toBe(join(homedir(), '.my-app', 'hooks'))
+    expect(config.paths.socketFile).toBe(join(homedir(), '.my-app', 'bridge.sock'))
+  })
+})
+
+describe('CodingAgentBridge', () => {
+  let bridge: CodingAgentBridge
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `bridge-test-${randomUUID()}`)
+    await mkdir(join(testDir, 'data'), { recursive: true })
+
+    bridge = createBridge({
+      dataDir: testDir,
+      port: 4100 + Math.floor(Math.random() * 900),
+    })
+  })
+
+  afterEach(async () => {
+    await bridge.stop()
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  describe('agents', () => {
+    it('should register configured built-in agents', () => {
+      expect(bridge.getAgent('claude')?.name).toBe('claude')
+      expect(bridge.getAgent('codex')?.name).toBe('codex')
+      expect(bridge.getAgent('cursor')).toBeUndefined()
+      expect(bridge.listAgents().map((a) => a.name)).toEqual(['claude', 'codex'])
+    })
+
+    it('should register custom agents', () => {
+      const custom = { name: 'custom', displayName: 'Custom' } as AgentAdapter
+      bridge.registerAgent(custom)
+
+      expect(bridge.getAgent('custom')).toBe(custom)
+    })
+  })
+
+  describe('lifecycle', () => {
+    it('should start and stop', async () => {
+      expect(bridge.isRunning()).toBe(false)
+
+      await bridge.start()
+      expect(bridge.isRunning()).toBe(true)
+
+      await bridge.stop()
+      expect(bridge.isRunning()).toBe(false)
+    })
+
+    it('should stop the session manager again if starting fails', async () => {
+      vi.spyOn(FileWatcher.prototype, 'start').mockRejectedValueOnce(new Error('EMFILE'))
+      const stop = vi.spyOn(SessionManager.prototype, 'stop')
+
+      await expect(bridge.start()).rejects.toThrow('EMFILE')
+
+      expect(stop).toHaveBeenCalledTimes(1)
+      expect(bridge.isRunning()).toBe(false)
+      stop.mockRestore()
+    })
+
+    it('should be idempotent when starting twice', async () => {
+      await bridge.start()
+      await bridge.start()
+
+      expect(bridge.isRunning()).toBe(true)
+    })
+  })
+
+  describe('event ingestion', { timeout: 10000 }, () => {
+    it('should link events from the events file to sessions', async () => {
+      await bridge.start()
+
+      const events: AgentEvent[] = []
+      const created = vi.fn()
+      bridge.on('event', (event) => events.push(event))
+      bridge.on('session:created', created)
+
+      await appendFile(
+        bridge.config.paths.eventsFile,
+        JSON.stringify({
+          hook_event_name: 'PreToolUse',
+          session_id: 'claude-abc',
+          cwd: '/tmp',
+          tool_name: 'Bash',
+          tool_input: { command: 'ls' },
+        }) + '\n'
+      )
+
+      await vi.waitFor(() => expect(events.length).toBe(1), { timeout: 5000 })
+
+      const session = bridge.listSessions()[0]
+      expect(created).toHaveBeenCalledWith(session)
+      expect(events[0]?.sessionId).toBe(session?.id)
+      expect(session?.status).toBe('working')
+      expect(session?.currentTool).toBe('Bash')
+    })
+
+    it('should apply events from POST /event like events from the file', async () => {
+      await bridge.start()
+      await bridge.listen()
+      const events: AgentEvent[] = []
+      bridge.on('event', (event) => events.push(event))
+
+      const res = await postHook(bridge, '/event', {
+        event_id: 'hook-1',
+        hook_event_name: 'PreToolUse',
+        session_id: 'claude-abc',
+        cwd: '/tmp',
+        tool_name: 'Bash',
+        tool_input: { command: 'ls' },
+      })
+
+      expect(res.status).toBe(200)
+      const session = bridge.listSessions()[0]
+      expect(events.map((e) => [e.id, e.sessionId])).toEqual([['hook-1', session?.id]])
+      expect(session?.status).toBe('working')
+      expect(session?.currentTool).toBe('Bash')
+    })
+
+    it('should ingest a hook delivered by both transports once', async () => {
+      await bridge.start()
+      await bridge.listen()
+      const events: AgentEvent[] = []
+      bridge.on('event', (event) => events.push(event))
+      const hook = { event_id: 'hook-2', hook_event_name: 'Stop', session_id: 'claude-abc', cwd: '/tmp' }
+      const other = { ...hook, event_id: 'hook-3' }
+
+      await appendFile(bridge.config.paths.eventsFile, JSON.stringify(hook) + '\n')
+      await postHook(bridge, '/event', hook)
+      await appendFile(bridge.config.paths.eventsFile, JSON.stringify(other) + '\n')
+
+      await vi.waitFor(() => expect(events.map((e) => e.id)).toContain('hook-3'), { timeout: 5000 })
+      expect(events.map((e) => e.id)).toEqual(['hook-2', 'hook-3'])
+    })
+
+    it('should count ingested events and rejected hooks in /metrics', async () => {
+      await bridge.start()
+      await bridge.listen()
+
+      await postHook(bridge, '/event', { event_id: 'hook-4', hook_event_name: 'Stop', session_id: 'claude-abc', cwd: '/tmp' })
+      await postHook(bridge, '/event', { hook_event_name: 'Stop', cwd: '/tmp' })
+
+      const body = await (await fetch(`http://127.0.0.1:${bridge.config.port}/metrics`)).text()
+      expect(body).toContain('coding_agent_bridge_events_ingested_total{type="stop",agent="claude"} 1')
+      expect(body).toContain('coding_agent_bridge_hook_parse_failures_total{reason="missing_session_id"} 1')
+    })
+  })
+
+  describe('event history', { timeout: 10000 }, () => {
+    it('should record events and keep them across restarts', async () => {
+      await bridge.start()
+      const events: AgentEvent[] = []
+      bridge.on('event', (event) => events.push(event))
+
+      await appendFile(
+        bridge.config.paths.eventsFile,
+        JSON.stringify({ hook_event_name: 'Stop', session_id: 'claude-abc', cwd: '/tmp' }) + '\n'
+      )
+      await vi.waitFor(() => expect(events.length).toBe(1), { timeout: 5000 })
+      const sessionId = events[0]!.sessionId
+      await bridge.stop()
+
+      const restarted = createBridge({ dataDir: testDir })
+      await restarted.start()
+      try {
+        const page = await restarted.getEvents({ sessionId })
+        expect(page.events.map((e) => e.id)).toEqual([events[0]!.id])
+        expect((await restarted.getEvents()).events).toHaveLength(1)
+      } finally {
+        await restarted.stop()
+      }
+    })
+  })
+
+  describe('server', { timeout: 10000 }, () => {
+    it('should listen and close', async () => {
+      await bridge.start()
+      await bridge.listen()
+
+      const res = await fetch(`http://127.0.0.1:${bridge.config.port}/health`)
+      expect(res.status).toBe(200)
+
+      await bridge.close()
+      await expect(fetch(`http://127.0.0.1:${bridge.config.port}/health`)).rejects.toThrow()
+    })
+  })
+
+  describe('webhooks', { timeout: 10000 }, () => {
+    it('should deliver matching events and list deliveries', async () => {
+      const received: any[] = []
+      const receiver = createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+          received.push(JSON.parse(body))
+          res.end()
+        })
+      })
+      await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve))
+      const url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/`
+      await writeFile(join(testDir, 'webhooks.json'), JSON.stringify({ webhooks: [{ url, events: ['event:stop'] }] }))
+
+      try {
+        await bridge.start()
+        await bridge.listen()
+        await postHook(bridge, '/event', { hook_event_name: 'Stop', session_id: 'claude-abc', cwd: '/tmp' })
+
+        await vi.waitFor(() => expect(received).toHaveLength(1))
+        expect(received[0]).toMatchObject({ trigger: 'event', data: { event: { type: 'stop' } } })
+
+        const res = await fetch(`http://127.0.0.1:${bridge.config.port}/webhooks/deliveries?status=delivered`)
+        expect(await res.json()).toMatchObject([{ url, trigger: 'event:stop', status: 'delivered', attempts: 1 }])
+      } finally {
+        receiver.close()
+      }
+    })
+  })
+
+  describe('hook signatures', { timeout: 10000 }, () => {
+    const stop = { hook_event_name: 'Stop', session_id: 'claude-abc', cwd: '/tmp' }
+
+    it('should reject unsigned hook callbacks by default', async () => {
+      await bridge.start()
+      await bridge.listen()
+
+      const unsigned = await fetch(`http://127.0.0.1:${bridge.config.port}/event`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(stop),
+      })
+
+      expect(unsigned.status).toBe(401)
+      expect((await postHook(bridge, '/event', stop)).status).toBe(200)
+    })
+
+    it('should accept unsigned hook callbacks with allowUnsignedEvents', async () => {
+      const legacy = createBridge({
+        dataDir: testDir,
+        port: 4100 + Math.floor(Math.random() * 900),
+        allowUnsignedEvents: true,
+      })
+      await legacy.start()
+      await legacy.listen()
+
+      try {
+        const res = await fetch(`http://127.0.0.1:${legacy.config.port}/event`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(stop),
+        })
+        expect(res.status).toBe(200)
+      } finally {
+        await legacy.stop()
+      }
+    })
+  })
+
+  describe('approvals', { timeout: 10000 }, () => {
+    it('should mark the session waiting until a client allows the tool call', async () => {
+      const approvalBridge = createBridge({
+        dataDir: testDir,
+        port: 4100 + Math.floor(Math.random() * 900),
+        approvalMode: true,
+      })
+      await approvalBridge.start()
+      await approvalBridge.listen()
+      const requested = vi.fn()
+      approvalBridge.on('approval:requested', requested)
+
+      try {
+        const hook = postHook(approvalBridge, '/approvals', {
+          hook_event_name: 'PreToolUse',
+          session_id: 'claude-abc',
+          cwd: '/tmp',
+          tool_name: 'Bash',
+          tool_input: { command: 'ls' },
+        })
+        await vi.waitFor(() => expect(requested).toHaveBeenCalled())
+
+        const session = approvalBridge.listSessions()[0]!
+        const [approval] = approvalBridge.listApprovals(session.id)
+        expect(approval).toMatchObject({ tool: 'Bash', toolInput: { command: 'ls' } })
+        expect(session.status).toBe('waiting')
+        expect(session.waitingFor).toBe('permission')
+
+        approvalBridge.resolveApproval(approval!.id, 'allow')
+
+        expect(await (await hook).json()).toMatchObject({ decision: 'allow' })
+        expect(session.status).toBe('working')
+      } finally {
+        await approvalBridge.stop()
+      }
+    })
+
+    it('should deny the tool call when nobody answers in time', async () => {
+      const approvalBridge = createBridge({
+        dataDir: testDir,
+        port: 4100 + Math.floor(Math.random() * 900),
+        approvalMode: true,
+        approvalTimeoutMs: 200,
+      })
+      await approvalBridge.start()
+      await approvalBridge.listen()
+
+      try {
+        const res = await postHook(approvalBridge, '/approvals', {
+          hook_event_name: 'PreToolUse',
+          session_id: 'claude-abc',
+          cwd: '/tmp',
+          tool_name: 'Bash',
+          tool_input: { command: 'ls' },
+        })
+
+        expect(res.status).toBe(200)
+        expect(await res.json()).toMatchObject({ decision: 'deny', reason: 'Approval timed out' })
+      } finally {
+        await approvalBridge.stop()
+      }
+    })
+  })
+
+  describe('tool policy', { timeout: 10000 }, () => {
+    const preToolUse = {
+      hook_event_name: 'PreToolUse',
+      session_id: 'claude-abc',
+      cwd: '/tmp',
+      tool_name: 'Bash',
+      tool_input: { command: 'rm -rf /' },
+      tool_use_id: 'tool-1',
+    }
+
+    beforeEach(async () => {
+      await writeFile(
+        bridge.config.paths.policyFile,
+        JSON.stringify({ rules: [{ id: 'no-rm', action: 'deny', command: 'rm -rf', reason: 'Too dangerous' }] })
+      )
+    })
+
+    it('should deny matching tool calls before they run and record the decision', async () => {
+      await bridge.start()
+      await bridge.listen()
+      const events: AgentEvent[] = []
+      bridge.on('event', (event) => events.push(event))
+
+      const res = await postHook(bridge, '/approvals', preToolUse)
+
+      expect(await res.json()).toEqual({ decision: 'deny', reason: 'Too dangerous' })
+      expect(events.map((e) => e.type)).toEqual(['pre_tool_use', 'policy_decision'])
+      expect(events[1]).toMatchObject({
+        action: 'deny',
+        ruleId: 'no-rm',
+        tool: 'Bash',
+        toolUseId: 'tool-1',
+        enforced: true,
+        sessionId: events[0]!.sessionId,
+      })
+    })
+
+    it('should allow calls the policy does not block without waiting', async () => {
+      await bridge.start()
+      await bridge.listen()
+
+      const res = await postHook(bridge, '/approvals', { ...preToolUse, tool_input: { command: 'ls' } })
+
+      expect(await res.json()).toEqual({ decision: 'allow' })
+      expect(bridge.listApprovals()).toEqual([])
+    })
+
+    it('should record unenforced decisions for tool calls from the events file', async () => {
+      await bridge.start()
+      const decisions: AgentEvent[] = []
+      bridge.on('event', (event) => {
+        if (event.type === 'policy_decision') decisions.push(event)
+      })
+
+      await appendFile(bridge.config.paths.eventsFile, JSON.stringify(preToolUse) + '\n')
+
+      await vi.waitFor(() => expect(decisions).toHaveLength(1), { timeout: 5000 })
+      expect(decisions[0]).toMatchObject({ action: 'deny', enforced: false })
+    })
+
+    it('should make only sessions a policy applies to check tool calls', async () => {
+      const backend = new MemoryTerminalBackend()
+      const policyBridge = createBridge({ dataDir: testDir, port: bridge.config.port, terminalBackend: backend })
+      await policyBridge.start()
+      const envOf = (session: { tmuxSession?: string }) => backend.getSession(session.tmuxSession!)!.env
+
+      try {
+        expect(envOf(await policyBridge.createSession({ cwd: '/tmp' }))).toHaveProperty(APPROVAL_MODE_ENV, '1')
+
+        await writeFile(policyBridge.config.paths.policyFile, JSON.stringify({ rules: [] }))
+        await policyBridge.reloadPolicy()
+        expect(envOf(await policyBridge.createSession({ cwd: '/tmp' }))).not.toHaveProperty(APPROVAL_MODE_ENV)
+
+        const restricted = await policyBridge.createSession({
+          cwd: '/tmp',
+          policy: [{ id: 'no-web', action: 'deny', tool: 'WebFetch' }],
+        })
+        expect(envOf(restricted)).toHaveProperty(APPROVAL_MODE_ENV, '1')
+      } finally {
+        await policyBridge.stop()
+      }
+    })
+
+    it('should reload the policy file', async () => {
+      await bridge.start()
+      await writeFile(bridge.config.paths.policyFile, JSON.stringify({ rules: [] }))
+
+      expect(await bridge.reloadPolicy()).toEqual({ rules: [] })
+      expect(bridge.getPolicy().rules).toEqual([])
+    })
+  })
+
+  describe('session control', () => {
+    it('should reject restart of unknown session', async () => {
+      await expect(bridge.restart('unknown')).rejects.toThrow('Failed to restart session')
+    })
+
+    it('should report errors for unknown sessions', async () => {
+      const result = await bridge.sendPrompt('unknown', 'hello')
+      expect(result.ok).toBe(false)
+      expect(result.error).toBe('Session not found')
+    })
+
+    it('should reject runPrompt for unknown sessions', async () => {
+      await expect(bridge.runPrompt('unknown', 'hello')).rejects.toThrow('Session not found')
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { ClaudeAdapter } from '../src/adapters/ClaudeAdapter.js'
+import { APPROVAL_HOOK_TIMEOUT_S } from '../src/ApprovalManager.js'
 import { tmpdir } from 'os'
 import { join } from 'path'
 import { mkdir, rm, readFile, writeFile } from 'fs/promises'
@@ -171,6 +172,21 @@ describe('ClaudeAdapter', () => {
       }
     })
 
+    it('should detect permission and input notifications', () => {
+      const permission = ClaudeAdapter.parseHookEvent('Notification', {
+        message: 'Claude needs your permission to use Bash',
+        notification_type: 'permission_prompt',
+      })
+      const input = ClaudeAdapter.parseHookEvent('Notification', {
+        message: 'Claude is waiting for your input',
+      })
+      const other = ClaudeAdapter.parseHookEvent('Notification', { message: 'Task complete' })
+
+      expect((permission as any).waitingFor).toBe('permission')
+      expect((input as any).waitingFor).toBe('input')
+      expect((other as any).waitingFor).toBeUndefined()
+    })
+
     it('should generate unique event IDs', () => {
       const event1 = ClaudeAdapter.parseHookEvent('Stop', {})
       const event2 = ClaudeAdapter.parseHookEvent('Stop', {})
@@ -398,6 +414,17 @@ describe('ClaudeAdapter', () => {
     })
   })
 
+  describe('formatPromptWithImages', () => {
+    it('should reference images with @path mentions', () => {
+      const text = ClaudeAdapter.formatPromptWithImages!('Describe these', ['/data/a.png', '/data/b.jpg'])
+      expect(text).toBe('Describe these\n\n@/data/a.png @/data/b.jpg')
+    })
+
+    it('should send only mentions when the prompt is empty', () => {
+      expect(ClaudeAdapter.formatPromptWithImages!('', ['/data/a.png'])).toBe('@/data/a.png')
+    })
+  })
+
   describe('installHooks - preserves existing user hooks', () => {
     let testDir: string
     let settingsPath: string
@@ -483,6 +510,14 @@ describe('ClaudeAdapter', () => {
       expect(result.hooks.PreToolUse).toHaveLength(1)
       expect(result.hooks.PreToolUse[0].hooks[0].command).toBe('/path/to/coding-agent-hook.sh')
     })
+
+    it('should give PreToolUse a long timeout for remote approvals', async () => {
+      await ClaudeAdapter.installHooks('/path/to/coding-agent-hook.sh')
+
+      const result = JSON.parse(await readFile(settingsPath, 'utf8'))
+      expect(result.hooks.PreToolUse[0].hooks[0].timeout).toBe(APPROVAL_HOOK_TIMEOUT_S)
+      expect(result.hooks.Stop[0].hooks[0].timeout).toBe(5)
+    })
   })
 
   describe('uninstallHooks - preserves existing user hooks', () => {
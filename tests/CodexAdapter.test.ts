@@ -149,6 +149,19 @@ describe('CodexAdapter', () => {
       expect((event as any).level).toBe('info')
     })
 
+    it('should parse approval request as a waiting notification', () => {
+      const data = {
+        thread_id: 'thread-123',
+        event_type: 'approval_request',
+        message: 'Run `rm -rf build`?',
+      }
+      const event = CodexAdapter.parseHookEvent('notify', data)
+
+      expect(event?.type).toBe('notification')
+      expect((event as any).waitingFor).toBe('permission')
+      expect((event as any).message).toBe('Run `rm -rf build`?')
+    })
+
     it('should handle unknown event types as notification', () => {
       const data = {
         thread_id: 'thread-123',
@@ -119,6 +119,12 @@ describe('EventProcessor', () => {
 
       expect(result?.agentSessionId).toBe('claude-specific-id')
     })
+
+    it('should use the hook-generated event ID when present', () => {
+      const line = JSON.stringify({ hook_type: 'Stop', session_id: 'test-123', event_id: 'hook-abc' })
+
+      expect(processor.processLine(line)?.event.id).toBe('hook-abc')
+    })
   })
 
   describe('processLine - Codex events', () => {
@@ -211,6 +217,22 @@ describe('EventProcessor', () => {
       expect(result).toBeNull()
     })
 
+    it('should emit rejected with the reason for every dropped line', () => {
+      const rejected = vi.fn()
+      processor.on('error', () => {})
+      processor.on('rejected', rejected)
+
+      processor.processLine('{ broken json')
+      processor.processLine(JSON.stringify({ type: 'some_event' }))
+      processor.processLine(JSON.stringify({ hook_type: 'Stop', cwd: '/tmp' }))
+
+      expect(rejected.mock.calls.map(([reason]) => reason)).toEqual([
+        'parse_error',
+        'unknown_agent',
+        'missing_session_id',
+      ])
+    })
+
     it('should emit error event for parse errors', () => {
       const errorHandler = vi.fn()
       processor.on('error', errorHandler)
@@ -425,6 +447,19 @@ describe('EventProcessor', () => {
       expect(result?.transcriptPath).toBe('/home/user/.claude/projects/test/abc123.jsonl')
     })
 
+    it('should extract bridge_session_id from raw event', () => {
+      const result = processor.processLine(
+        JSON.stringify({
+          hook_event_name: 'PreToolUse',
+          session_id: 'abc123',
+          cwd: '/tmp',
+          bridge_session_id: 'bridge-1',
+        })
+      )
+
+      expect(result?.bridgeSessionId).toBe('bridge-1')
+    })
+
     it('should have undefined transcriptPath when not present', () => {
       const line = JSON.stringify({
         hook_event_name: 'Stop',
@@ -474,8 +509,17 @@ describe('EventProcessor', () => {
 
       processor.registerAdapter(customAdapter as any)
 
-      // Now events with agent: 'custom' should be processable
-      // (though detection logic would need updating for real use)
+      // Events with an explicit agent field are routed to the registered adapter
+      const result = processor.processLine(JSON.stringify({
+        agent: 'custom',
+        hook_type: 'custom_event',
+        session_id: 'custom-session',
+        cwd: '/tmp',
+      }))
+
+      expect(result?.agent).toBe('custom')
+      expect(result?.event.type).toBe('stop')
+      expect(result?.agentSessionId).toBe('custom-session')
     })
   })
 })
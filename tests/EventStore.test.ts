@@ -0,0 +1,170 @@
+/**
+ * Unit tests for EventStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { EventStore } from '../src/EventStore.js'
+import type { AgentEvent } from '../src/types.js'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { mkdir, rm, readFile, appendFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { randomUUID } from 'crypto'
+
+function event(sessionId: string, timestamp: number, type: 'stop' | 'user_prompt_submit' = 'stop'): AgentEvent {
+  const base = { id: `${sessionId}-${timestamp}`, timestamp, sessionId, agent: 'claude', cwd: '/tmp' }
+  return type === 'stop' ? { ...base, type, stopHookActive: false } : { ...base, type }
+}
+
+describe('EventStore', () => {
+  let store: EventStore
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `event-store-test-${randomUUID()}`)
+    await mkdir(testDir, { recursive: true })
+    store = new EventStore({ dir: join(testDir, 'history'), maxEvents: 3 })
+  })
+
+  afterEach(async () => {
+    await store.flush()
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should keep only the most recent events in memory', async () => {
+    for (let i = 1; i <= 5; i++) store.append(event('s1', i))
+
+    const page = await store.query()
+    expect(page.events.map((e) => e.timestamp)).toEqual([3, 4, 5])
+  })
+
+  it('should read a session\'s full history from disk', async () => {
+    for (let i = 1; i <= 5; i++) store.append(event('s1', i))
+    store.append(event('s2', 6))
+
+    const page = await store.query({ sessionId: 's1' })
+    expect(page.events.map((e) => e.timestamp)).toEqual([1, 2, 3, 4, 5])
+    expect(page.hasMore).toBe(false)
+  })
+
+  it('should page forward with cursor and limit', async () => {
+    for (let i = 1; i <= 5; i++) store.append(event('s1', i))
+
+    const first = await store.query({ sessionId: 's1', cursor: 0, limit: 2 })
+    expect(first.events.map((e) => e.timestamp)).toEqual([1, 2])
+    expect(first.hasMore).toBe(true)
+
+    const second = await store.query({ sessionId: 's1', cursor: first.cursor, limit: 2 })
+    const last = await store.query({ sessionId: 's1', cursor: second.cursor, limit: 2 })
+    expect(last.events.map((e) => e.timestamp)).toEqual([5])
+    expect(last.hasMore).toBe(false)
+
+    const empty = await store.query({ sessionId: 's1', cursor: last.cursor })
+    expect(empty).toEqual({ events: [], hasMore: false, cursor: last.cursor })
+  })
+
+  it('should not skip events that share a millisecond at a page boundary', async () => {
+    const same = (n: number): AgentEvent => ({ ...event('s1', 1000), id: `same-${n}` })
+    for (let n = 1; n <= 5; n++) store.append(same(n))
+    // Out of timestamp order in the file
+    store.append({ ...event('s1', 999), id: 'late' })
+
+    const ids: string[] = []
+    let cursor = 0
+    for (let page = 0; page < 5; page++) {
+      const result = await store.query({ sessionId: 's1', cursor, limit: 2 })
+      ids.push(...result.events.map((e) => e.id))
+      cursor = result.cursor
+      if (!result.hasMore) break
+    }
+
+    expect(ids).toEqual(['same-1', 'same-2', 'same-3', 'same-4', 'same-5', 'late'])
+  })
+
+  it('should keep sequence numbers increasing across restarts', async () => {
+    store.append(event('s1', 1))
+    store.append(event('s2', 2))
+    await store.flush()
+
+    const restored = new EventStore({ dir: join(testDir, 'history') })
+    await restored.load()
+    const { cursor } = await restored.query()
+    restored.append(event('s1', 3))
+    await restored.flush()
+
+    const page = await restored.query({ sessionId: 's1', cursor })
+    expect(page.events.map((e) => e.timestamp)).toEqual([3])
+  })
+
+  it('should return the latest events without since', async () => {
+    for (let i = 1; i <= 5; i++) store.append(event('s1', i))
+
+    const page = await store.query({ sessionId: 's1', limit: 2 })
+    expect(page.events.map((e) => e.timestamp)).toEqual([4, 5])
+    expect(page.hasMore).toBe(true)
+    expect(page.before).toBe(4)
+  })
+
+  it('should walk the full history back from the latest page with before', async () => {
+    for (let i = 1; i <= 5; i++) store.append(event('s1', i))
+    store.append(event('s2', 6))
+
+    const timestamps: number[] = []
+    let page = await store.query({ sessionId: 's1', limit: 2 })
+    const { cursor } = page
+    for (;;) {
+      timestamps.unshift(...page.events.map((e) => e.timestamp))
+      if (!page.hasMore) break
+      page = await store.query({ sessionId: 's1', before: page.before, limit: 2 })
+    }
+
+    expect(timestamps).toEqual([1, 2, 3, 4, 5])
+    expect(page.before).toBeUndefined()
+
+    // The latest page's cursor still follows new events
+    store.append(event('s1', 7))
+    await store.flush()
+    const next = await store.query({ sessionId: 's1', cursor })
+    expect(next.events.map((e) => e.timestamp)).toEqual([7])
+  })
+
+  it('should filter by type', async () => {
+    store.append(event('s1', 1, 'user_prompt_submit'))
+    store.append(event('s1', 2))
+
+    const page = await store.query({ sessionId: 's1', type: 'user_prompt_submit' })
+    expect(page.events.map((e) => e.type)).toEqual(['user_prompt_submit'])
+  })
+
+  it('should restore recent events on load and skip invalid lines', async () => {
+    store.append(event('s1', 1))
+    store.append(event('s2', 2))
+    await store.flush()
+    await appendFile(join(testDir, 'history', 's1.jsonl'), 'not json\n')
+
+    const restored = new EventStore({ dir: join(testDir, 'history') })
+    await restored.load()
+
+    expect((await restored.query()).events.map((e) => e.timestamp)).toEqual([1, 2])
+  })
+
+  it('should not write files for unsafe session IDs', async () => {
+    store.append(event('../escape', 1))
+    await store.flush()
+
+    expect(existsSync(join(testDir, 'escape.jsonl'))).toBe(false)
+    expect((await store.query({ sessionId: '../escape' })).events).toEqual([])
+  })
+
+  it('should delete a session\'s history', async () => {
+    store.append(event('s1', 1))
+    await store.flush()
+    const file = join(testDir, 'history', 's1.jsonl')
+    expect(JSON.parse(await readFile(file, 'utf8')).event.sessionId).toBe('s1')
+
+    await store.deleteSession('s1')
+
+    expect(existsSync(file)).toBe(false)
+    expect((await store.query()).events).toEqual([])
+  })
+})
@@ -4,12 +4,30 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { HookInstaller } from '../src/HookInstaller.js'
+import { HookVerifier } from '../src/HookVerifier.js'
 import { tmpdir } from 'os'
 import { join } from 'path'
-import { mkdir, rm, readFile } from 'fs/promises'
+import { mkdir, rm, readFile, writeFile } from 'fs/promises'
 import { existsSync } from 'fs'
+import { execFileSync, spawn } from 'child_process'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
 import { randomUUID } from 'crypto'
 
+/**
+ * Run the hook script without blocking the event loop (so a test server can answer).
+ */
+function runHook(path: string, input: string, env: NodeJS.ProcessEnv): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(path, [], { env })
+    let stdout = ''
+    child.stdout.on('data', (chunk) => (stdout += chunk))
+    child.on('error', reject)
+    child.on('close', (code) => (code === 0 ? resolve(stdout) : reject(new Error(`Hook exited with ${code}`))))
+    child.stdin.end(input)
+  })
+}
+
 describe('HookInstaller', () => {
   let installer: HookInstaller
   let testDir: string
@@ -95,6 +113,158 @@ describe('HookInstaller', () => {
       expect(content).toContain('coding-agent-hook')
     })
 
+    it('should forward the bridge session ID from the environment', async () => {
+      await installer.installAll()
+
+      execFileSync(installer.getHookScriptPath(), ['PreToolUse'], {
+        input: JSON.stringify({ session_id: 'agent-1', cwd: '/tmp' }),
+        env: {
+          ...process.env,
+          CODING_AGENT_BRIDGE_SESSION_ID: 'bridge-1',
+          CODING_AGENT_BRIDGE_URL: 'http://127.0.0.1:1',
+        },
+      })
+
+      const lines = (await readFile(installer.getEventsFilePath(), 'utf8')).trim().split('\n')
+      const event = JSON.parse(lines[lines.length - 1]!)
+      expect(event.bridge_session_id).toBe('bridge-1')
+      expect(event.session_id).toBe('agent-1')
+      expect(event.event_id).toMatch(/^\d+-\d+-\d+$/)
+    })
+
+    it('should ask the bridge for a decision on PreToolUse in approval mode', async () => {
+      await installer.installAll()
+      await writeFile(installer.getHookTokenPath(), 'cab_hook-token\n')
+      let received: any
+      const bridge = createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+          received = { url: req.url, headers: req.headers, body, event: JSON.parse(body) }
+          res.setHeader('Content-Type', 'application/json')
+          res.end(JSON.stringify({ decision: 'deny', reason: 'Not allowed' }))
+        })
+      })
+      await new Promise<void>((resolve) => bridge.listen(0, '127.0.0.1', resolve))
+      const { port } = bridge.address() as AddressInfo
+
+      try {
+        const stdout = await runHook(
+          installer.getHookScriptPath(),
+          JSON.stringify({ hook_event_name: 'PreToolUse', session_id: 'agent-1', tool_name: 'Bash' }),
+          {
+            ...process.env,
+            CODING_AGENT_BRIDGE_APPROVALS: '1',
+            CODING_AGENT_BRIDGE_URL: `http://127.0.0.1:${port}`,
+          }
+        )
+
+        expect(received.url).toBe('/approvals')
+        expect(received.headers.authorization).toBe('Bearer cab_hook-token')
+        // Signed with the per-install secret
+        const secret = (await readFile(installer.getHookSecretPath(), 'utf8')).trim()
+        expect(new HookVerifier({ secret }).verify(received.headers, received.body)).toEqual({ ok: true })
+        expect(received.event.tool_name).toBe('Bash')
+        expect(JSON.parse(stdout)).toEqual({
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse',
+            permissionDecision: 'deny',
+            permissionDecisionReason: 'Not allowed',
+          },
+        })
+        // The bridge ingested the event from the request
+        expect(existsSync(installer.getEventsFilePath())).toBe(false)
+      } finally {
+        bridge.close()
+      }
+    })
+
+    it('should post to the bridge\'s Unix socket when it exists', async () => {
+      await installer.installAll()
+      let received: any
+      const bridge = createServer((req, res) => {
+        received = { url: req.url }
+        res.end('{}')
+      })
+      await new Promise<void>((resolve) => bridge.listen(installer.getSocketPath(), resolve))
+
+      try {
+        const env = { ...process.env }
+        delete env.CODING_AGENT_BRIDGE_URL
+        await runHook(installer.getHookScriptPath(), JSON.stringify({ hook_event_name: 'Stop', session_id: 'agent-1' }), env)
+
+        // The POST runs in the background
+        await vi.waitFor(() => expect(received?.url).toBe('/event'))
+      } finally {
+        bridge.close()
+      }
+    })
+
+    it('should deny the tool call in approval mode when the bridge is unreachable', async () => {
+      await installer.installAll()
+      const input = JSON.stringify({ hook_event_name: 'PreToolUse', session_id: 'agent-1', tool_name: 'Bash' })
+
+      const stdout = await runHook(installer.getHookScriptPath(), input, {
+        ...process.env,
+        CODING_AGENT_BRIDGE_APPROVALS: '1',
+        CODING_AGENT_BRIDGE_URL: 'http://127.0.0.1:1',
+      })
+
+      const output = JSON.parse(stdout)
+      expect(output.hookSpecificOutput.permissionDecision).toBe('deny')
+      expect(output.hookSpecificOutput.permissionDecisionReason).toMatch(/did not answer/)
+      // Still recorded so the bridge sees the attempt
+      expect(existsSync(installer.getEventsFilePath())).toBe(true)
+    })
+
+    it('should deny the tool call in approval mode when the bridge rejects the request', async () => {
+      await installer.installAll()
+      const bridge = createServer((req, res) => {
+        req.resume()
+        req.on('end', () => {
+          res.statusCode = 401
+          res.setHeader('Content-Type', 'application/json')
+          res.end(JSON.stringify({ error: 'Invalid hook signature' }))
+        })
+      })
+      await new Promise<void>((resolve) => bridge.listen(0, '127.0.0.1', resolve))
+      const { port } = bridge.address() as AddressInfo
+
+      try {
+        const stdout = await runHook(
+          installer.getHookScriptPath(),
+          JSON.stringify({ hook_event_name: 'PreToolUse', session_id: 'agent-1', tool_name: 'Bash' }),
+          {
+            ...process.env,
+            CODING_AGENT_BRIDGE_APPROVALS: '1',
+            CODING_AGENT_BRIDGE_URL: `http://127.0.0.1:${port}`,
+          }
+        )
+
+        expect(JSON.parse(stdout)).toEqual({
+          hookSpecificOutput: {
+            hookEventName: 'PreToolUse',
+            permissionDecision: 'deny',
+            permissionDecisionReason: 'coding-agent-bridge rejected the approval request (HTTP 401)',
+          },
+        })
+      } finally {
+        bridge.close()
+      }
+    })
+
+    it('should not ask the bridge outside approval mode', async () => {
+      await installer.installAll()
+      const input = JSON.stringify({ hook_event_name: 'PreToolUse', session_id: 'agent-1', tool_name: 'Bash' })
+
+      const env = { ...process.env, CODING_AGENT_BRIDGE_URL: 'http://127.0.0.1:1' }
+      delete env.CODING_AGENT_BRIDGE_APPROVALS
+      const stdout = await runHook(installer.getHookScriptPath(), input, env)
+
+      expect(stdout.trim()).toBe(input)
+      expect(existsSync(installer.getEventsFilePath())).toBe(true)
+    })
+
     it('should create data directory', async () => {
       await installer.installAll()
 
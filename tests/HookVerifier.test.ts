@@ -0,0 +1,84 @@
+/**
+ * Unit tests for HookVerifier
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { HookVerifier, ensureHookSecret, signHookPayload } from '../src/HookVerifier.js'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { rm, stat } from 'fs/promises'
+import { randomUUID } from 'crypto'
+
+const SECRET = 'test-secret'
+
+function signed(body: string | Buffer, options: { secret?: string; timestamp?: number; nonce?: string } = {}) {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000)
+  const nonce = options.nonce ?? randomUUID()
+  return {
+    'x-bridge-timestamp': String(timestamp),
+    'x-bridge-nonce': nonce,
+    'x-bridge-signature': signHookPayload(options.secret ?? SECRET, timestamp, nonce, body),
+  }
+}
+
+describe('HookVerifier', () => {
+  let verifier: HookVerifier
+  const body = JSON.stringify({ hook_event_name: 'Stop', session_id: 'agent-1' })
+
+  beforeEach(() => {
+    verifier = new HookVerifier({ secret: SECRET })
+  })
+
+  it('should accept correctly signed payloads', () => {
+    expect(verifier.verify(signed(body), body)).toEqual({ ok: true })
+  })
+
+  it('should verify raw body bytes', () => {
+    const bytes = Buffer.from(JSON.stringify({ hook_event_name: 'Stop', message: 'café ✓' }))
+
+    expect(verifier.verify(signed(bytes.toString('utf8')), bytes)).toEqual({ ok: true })
+  })
+
+  it('should reject unsigned payloads', () => {
+    expect(verifier.verify({}, body)).toEqual({ ok: false, error: 'Missing event signature' })
+  })
+
+  it('should reject payloads signed with another secret or modified after signing', () => {
+    expect(verifier.verify(signed(body, { secret: 'other' }), body)).toMatchObject({
+      error: 'Invalid event signature',
+    })
+    expect(verifier.verify(signed(body), body.replace('Stop', 'SessionEnd'))).toMatchObject({
+      error: 'Invalid event signature',
+    })
+  })
+
+  it('should reject stale timestamps', () => {
+    const timestamp = Math.floor(Date.now() / 1000) - 600
+    expect(verifier.verify(signed(body, { timestamp }), body)).toMatchObject({
+      error: 'Event timestamp outside the allowed window',
+    })
+  })
+
+  it('should reject replayed payloads', () => {
+    const headers = signed(body)
+
+    expect(verifier.verify(headers, body).ok).toBe(true)
+    expect(verifier.verify(headers, body)).toEqual({ ok: false, error: 'Replayed event' })
+  })
+})
+
+describe('ensureHookSecret', () => {
+  const file = join(tmpdir(), `hook-secret-test-${randomUUID()}`, 'hook-secret')
+
+  afterEach(async () => {
+    await rm(join(file, '..'), { recursive: true, force: true })
+  })
+
+  it('should generate a private secret once and reuse it', async () => {
+    const secret = await ensureHookSecret(file)
+
+    expect(secret).toMatch(/^[0-9a-f]{64}$/)
+    expect(await ensureHookSecret(file)).toBe(secret)
+    expect((await stat(file)).mode & 0o777).toBe(0o600)
+  })
+})
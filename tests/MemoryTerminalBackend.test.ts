@@ -0,0 +1,103 @@
+/**
+ * Unit tests for MemoryTerminalBackend
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { MemoryTerminalBackend } from '../src/MemoryTerminalBackend.js'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+
+describe('MemoryTerminalBackend', () => {
+  let backend: MemoryTerminalBackend
+
+  beforeEach(() => {
+    backend = new MemoryTerminalBackend({ cols: 20, rows: 3, now: () => 1000 })
+  })
+
+  describe('sessions', () => {
+    it('should create, list and kill sessions', async () => {
+      const changed = vi.fn()
+      backend.onSessionsChanged = changed
+
+      await backend.createSession('demo', { cwd: '/tmp', command: 'claude', env: { FOO: 'bar' } })
+
+      expect(await backend.listSessions()).toEqual([{ name: 'demo', created: new Date(1000), attached: false }])
+      expect(backend.getSession('demo')).toMatchObject({ cwd: '/tmp', command: 'claude', env: { FOO: 'bar' } })
+      expect(changed).toHaveBeenCalledTimes(1)
+
+      expect(await backend.killSession('demo')).toBe(true)
+      expect(await backend.killSession('demo')).toBe(false)
+      expect(await backend.sessionExists('demo')).toBe(false)
+      expect(changed).toHaveBeenCalledTimes(2)
+    })
+
+    it('should validate like tmux', async () => {
+      await backend.createSession('demo')
+
+      await expect(backend.createSession('demo')).rejects.toThrow('already exists')
+      await expect(backend.createSession('bad;name')).rejects.toThrow('Invalid session name')
+      await expect(backend.sendKeys({ target: 'missing', keys: 'Enter' })).rejects.toThrow('not found')
+      await expect(backend.resizeWindow('demo', 0, 10)).rejects.toThrow('Invalid size')
+    })
+  })
+
+  describe('input', () => {
+    it('should record pastes and keys in order', async () => {
+      await backend.createSession('demo')
+      const inputs = vi.fn()
+      backend.on('input', inputs)
+
+      await backend.pasteBuffer({ target: 'demo', text: 'hello' })
+      await backend.sendKeys({ target: 'demo', keys: 'ls\r', literal: true })
+      await backend.sendCtrlC('demo')
+
+      expect(backend.getSession('demo')!.input).toEqual([
+        { type: 'paste', text: 'hello' },
+        { type: 'keys', keys: 'Enter', literal: false },
+        { type: 'keys', keys: 'ls\r', literal: true },
+        { type: 'keys', keys: 'C-c', literal: false },
+      ])
+      expect(inputs).toHaveBeenCalledTimes(4)
+      expect(inputs).toHaveBeenCalledWith('demo', { type: 'paste', text: 'hello' })
+    })
+
+    it('should address sessions by pane ID', async () => {
+      await backend.createSession('demo')
+      const { paneId } = backend.getSession('demo')!
+
+      await backend.pasteBuffer({ target: paneId, text: 'hi', isPaneId: true, socket: '/tmp/sock', sendEnter: false })
+
+      expect(backend.getSession('demo')!.input).toEqual([{ type: 'paste', text: 'hi' }])
+    })
+  })
+
+  describe('screen', () => {
+    it('should capture the screen and history', async () => {
+      await backend.createSession('demo')
+      await backend.write('demo', 'one\r\ntwo\r\n\x1b[1mthree\x1b[0m\r\nfour')
+
+      expect(await backend.capturePane('demo', { start: 0 })).toBe('two\nthree\nfour\n')
+      expect(await backend.capturePane('demo', { start: 0, escapes: true })).toBe('two\n\x1b[1mthree\x1b[0m\nfour\n')
+      expect(await backend.capturePane('demo', { start: -1, end: 0 })).toBe('one\ntwo\n')
+      expect(await backend.getPaneInfo('demo')).toEqual({ width: 20, height: 3, cursorX: 4, cursorY: 2 })
+    })
+
+    it('should append output to the piped file', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'memory-backend-test-'))
+      const file = join(dir, 'output.log')
+      try {
+        await backend.createSession('demo')
+        await backend.write('demo', 'before ')
+        await backend.pipePane('demo', file)
+        await backend.write('demo', 'during ')
+        await backend.stopPipePane('demo')
+        await backend.write('demo', 'after')
+
+        expect(await readFile(file, 'utf8')).toBe('during ')
+      } finally {
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+  })
+})
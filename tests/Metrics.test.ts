@@ -0,0 +1,89 @@
+/**
+ * Unit tests for Metrics
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Metrics } from '../src/Metrics.js'
+import type { AgentEvent, Session } from '../src/types.js'
+
+function toolEvent(type: 'pre_tool_use' | 'post_tool_use', timestamp: number, toolUseId = 'tool-1'): AgentEvent {
+  return {
+    id: `${type}-${toolUseId}`,
+    timestamp,
+    type,
+    sessionId: 'session-1',
+    agent: 'claude',
+    cwd: '/tmp',
+    tool: 'Bash',
+    toolInput: {},
+    toolUseId,
+    ...(type === 'post_tool_use' ? { toolResponse: {}, success: true } : {}),
+  } as AgentEvent
+}
+
+describe('Metrics', () => {
+  let metrics: Metrics
+  const empty = { sessions: [], websocketClients: 0 }
+
+  beforeEach(() => {
+    metrics = new Metrics()
+  })
+
+  it('should render HELP and TYPE lines for every metric', () => {
+    const output = metrics.render(empty)
+
+    expect(output).toContain('# TYPE coding_agent_bridge_sessions gauge')
+    expect(output).toContain('# TYPE coding_agent_bridge_events_ingested_total counter')
+    expect(output).toContain('# TYPE coding_agent_bridge_tool_duration_seconds histogram')
+    expect(output).toContain('coding_agent_bridge_websocket_clients 0')
+    expect(output.endsWith('\n')).toBe(true)
+  })
+
+  it('should count sessions by status, agent and type', () => {
+    const sessions = [
+      { status: 'idle', agent: 'claude', type: 'internal' },
+      { status: 'idle', agent: 'claude', type: 'internal' },
+      { status: 'working', agent: 'codex', type: 'external' },
+    ] as Session[]
+
+    const output = metrics.render({ sessions, websocketClients: 2 })
+
+    expect(output).toContain('coding_agent_bridge_sessions{status="idle",agent="claude",type="internal"} 2')
+    expect(output).toContain('coding_agent_bridge_sessions{status="working",agent="codex",type="external"} 1')
+    expect(output).toContain('coding_agent_bridge_websocket_clients 2')
+  })
+
+  it('should count events and derive tool durations from pre/post pairs', () => {
+    metrics.recordEvent(toolEvent('pre_tool_use', 1000))
+    metrics.recordEvent(toolEvent('post_tool_use', 3000))
+    // No matching pre_tool_use
+    metrics.recordEvent(toolEvent('post_tool_use', 5000, 'tool-2'))
+
+    const output = metrics.render(empty)
+
+    expect(output).toContain('coding_agent_bridge_events_ingested_total{type="post_tool_use",agent="claude"} 2')
+    expect(output).toContain('coding_agent_bridge_tool_duration_seconds_bucket{agent="claude",tool="Bash",le="1"} 0')
+    expect(output).toContain('coding_agent_bridge_tool_duration_seconds_bucket{agent="claude",tool="Bash",le="2.5"} 1')
+    expect(output).toContain('coding_agent_bridge_tool_duration_seconds_sum{agent="claude",tool="Bash"} 2')
+    expect(output).toContain('coding_agent_bridge_tool_duration_seconds_count{agent="claude",tool="Bash"} 1')
+  })
+
+  it('should record tmux latency, tmux failures and parse failures', () => {
+    metrics.recordTmuxCommand('send-keys', 20)
+    metrics.recordTmuxCommand('send-keys', 40, new Error('no session'))
+    metrics.recordParseFailure('parse_error')
+
+    const output = metrics.render(empty)
+
+    expect(output).toContain('coding_agent_bridge_tmux_command_duration_seconds_count{command="send-keys"} 2')
+    expect(output).toContain('coding_agent_bridge_tmux_command_duration_seconds_bucket{command="send-keys",le="0.025"} 1')
+    expect(output).toContain('coding_agent_bridge_tmux_command_failures_total{command="send-keys"} 1')
+    expect(output).toContain('coding_agent_bridge_hook_parse_failures_total{reason="parse_error"} 1')
+  })
+
+  it('should escape label values', () => {
+    metrics.recordTmuxCommand('a"b\\c', 1, new Error('x'))
+
+    expect(metrics.render(empty)).toContain('coding_agent_bridge_tmux_command_failures_total{command="a\\"b\\\\c"} 1')
+  })
+})
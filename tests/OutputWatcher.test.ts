@@ -0,0 +1,104 @@
+/**
+ * Unit tests for OutputWatcher
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { OutputWatcher, readOutputLog, type OutputSlice } from '../src/OutputWatcher.js'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { appendFile, mkdir, rm, writeFile } from 'fs/promises'
+import { randomUUID } from 'crypto'
+
+describe('readOutputLog', () => {
+  let testDir: string
+  let file: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `output-test-${randomUUID()}`)
+    await mkdir(testDir, { recursive: true })
+    file = join(testDir, 'session.log')
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should return null when there is no log', async () => {
+    expect(await readOutputLog(file, 0, 100)).toBeNull()
+  })
+
+  it('should read from a byte offset', async () => {
+    await writeFile(file, 'hello world')
+
+    expect(await readOutputLog(file, 6, 100)).toEqual({ offset: 6, nextOffset: 11, size: 11, data: 'world' })
+    expect(await readOutputLog(file, 0, 5)).toEqual({ offset: 0, nextOffset: 5, size: 11, data: 'hello' })
+    expect(await readOutputLog(file, 50, 100)).toEqual({ offset: 11, nextOffset: 11, size: 11, data: '' })
+  })
+
+  it('should not split multi-byte characters', async () => {
+    // '✓' is 3 bytes
+    await writeFile(file, 'abc✓d')
+
+    const first = await readOutputLog(file, 0, 4)
+    expect(first).toMatchObject({ nextOffset: 3, data: 'abc' })
+    const second = await readOutputLog(file, 3, 4)
+    expect(second).toMatchObject({ nextOffset: 7, data: '✓d' })
+  })
+})
+
+describe('OutputWatcher', () => {
+  let testDir: string
+  let file: string
+  let watcher: OutputWatcher
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `output-watcher-test-${randomUUID()}`)
+    await mkdir(testDir, { recursive: true })
+    file = join(testDir, 'session.log')
+  })
+
+  afterEach(async () => {
+    watcher?.stop()
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should emit appended output from the end of the log', async () => {
+    await writeFile(file, 'before\n')
+    watcher = new OutputWatcher(file, { pollIntervalMs: 20 })
+    const slices: OutputSlice[] = []
+    watcher.on('data', (slice) => slices.push(slice))
+    await watcher.start()
+
+    await appendFile(file, '\x1b[32mok\x1b[0m\n')
+
+    await vi.waitFor(() => expect(slices).toHaveLength(1))
+    expect(slices[0]).toMatchObject({ offset: 7, data: '\x1b[32mok\x1b[0m\n' })
+    expect(watcher.getPosition()).toBe(slices[0]!.nextOffset)
+  })
+
+  it('should wait for a log that does not exist yet and split large output', async () => {
+    watcher = new OutputWatcher(file, { maxChunkBytes: 4 })
+    const slices: OutputSlice[] = []
+    watcher.on('data', (slice) => slices.push(slice))
+    await watcher.start()
+
+    await writeFile(file, '0123456789')
+    await watcher.poll()
+
+    expect(slices.map((s) => s.data)).toEqual(['0123', '4567', '89'])
+    expect(slices.map((s) => s.offset)).toEqual([0, 4, 8])
+  })
+
+  it('should start over when the log is truncated', async () => {
+    await writeFile(file, 'old output')
+    watcher = new OutputWatcher(file)
+    const slices: OutputSlice[] = []
+    watcher.on('data', (slice) => slices.push(slice))
+    await watcher.start()
+
+    await writeFile(file, 'new')
+    await watcher.poll()
+
+    expect(slices).toEqual([{ offset: 0, nextOffset: 3, size: 3, data: 'new' }])
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for PolicyEngine
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { PolicyEngine, globToRegExp, validatePolicy } from '../src/PolicyEngine.js'
+import type { PolicyCheck } from '../src/PolicyEngine.js'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { mkdir, rm, writeFile } from 'fs/promises'
+import { randomUUID } from 'crypto'
+
+const bash = (command: string): PolicyCheck => ({ tool: 'Bash', toolInput: { command }, cwd: '/work/app' })
+const edit = (file_path: string): PolicyCheck => ({ tool: 'Edit', toolInput: { file_path }, cwd: '/work/app' })
+
+describe('globToRegExp', () => {
+  it('should match within and across path segments', () => {
+    expect(globToRegExp('/work/*.ts').test('/work/a.ts')).toBe(true)
+    expect(globToRegExp('/work/*.ts').test('/work/src/a.ts')).toBe(false)
+    expect(globToRegExp('/work/**/*.ts').test('/work/a.ts')).toBe(true)
+    expect(globToRegExp('/work/**/*.ts').test('/work/src/deep/a.ts')).toBe(true)
+    expect(globToRegExp('mcp__*').test('mcp__github__create_issue')).toBe(true)
+    expect(globToRegExp('file?.txt').test('file.txt')).toBe(false)
+  })
+})
+
+describe('validatePolicy', () => {
+  it('should reject invalid rules', () => {
+    expect(() => validatePolicy({ rules: 'nope' })).toThrow('Policy rules must be an array')
+    expect(() => validatePolicy({ rules: [{ action: 'deny', command: '(' }] })).toThrow(
+      'Policy rule 1: invalid command pattern'
+    )
+    expect(() => validatePolicy({ rules: [{ action: 'deny', tool: [1] }] })).toThrow('tool must be')
+    expect(() => validatePolicy({ rules: [], defaultAction: 'ask' })).toThrow('defaultAction')
+  })
+})
+
+describe('PolicyEngine', () => {
+  let engine: PolicyEngine
+
+  beforeEach(() => {
+    engine = new PolicyEngine()
+    engine.setPolicy({
+      rules: [
+        { id: 'no-force-push', action: 'deny', tool: 'Bash', command: 'git push .*--force', reason: 'No force pushes' },
+        { id: 'outside', action: 'flag', tool: ['Edit', 'Write'], outsideCwd: true },
+        { id: 'env-files', action: 'deny', path: '**/.env' },
+        { id: 'read-only', action: 'allow', tool: 'Read' },
+      ],
+    })
+  })
+
+  it('should allow calls no rule matches', () => {
+    expect(engine.evaluate(bash('npm test'))).toEqual({ action: 'allow', matched: false })
+  })
+
+  it('should match Bash commands by pattern', () => {
+    expect(engine.evaluate(bash('git push origin main --force'))).toEqual({
+      action: 'deny',
+      ruleId: 'no-force-push',
+      reason: 'No force pushes',
+      matched: true,
+    })
+  })
+
+  it('should match file paths outside the session cwd', () => {
+    expect(engine.evaluate(edit('/etc/hosts')).ruleId).toBe('outside')
+    expect(engine.evaluate(edit('../other/file.ts')).ruleId).toBe('outside')
+    expect(engine.evaluate(edit('src/index.ts')).matched).toBe(false)
+  })
+
+  it('should resolve relative paths and globs against the session cwd', () => {
+    expect(engine.evaluate(edit('config/.env')).ruleId).toBe('env-files')
+    expect(engine.evaluate({ tool: 'Read', toolInput: { file_path: '.env' }, cwd: '/work/app' }).ruleId).toBe(
+      'env-files'
+    )
+  })
+
+  it('should normalize .. segments before matching path rules', () => {
+    const rules = [{ id: 'no-etc', action: 'deny' as const, path: '/etc/**' }]
+
+    expect(engine.evaluate(edit('/work/app/../../etc/passwd'), rules).ruleId).toBe('no-etc')
+    expect(engine.evaluate(edit('../../etc/passwd'), rules).ruleId).toBe('no-etc')
+    expect(engine.evaluate(edit('/etc/../work/app/src/index.ts'), rules).matched).toBe(false)
+    expect(engine.evaluate(edit('src/../../app/.env')).ruleId).toBe('env-files')
+  })
+
+  it('should check session rules before bridge rules', () => {
+    const decision = engine.evaluate(bash('git push --force'), [{ action: 'allow', tool: 'Bash' }])
+    expect(decision).toEqual({ action: 'allow', matched: true })
+  })
+
+  it('should only be active with rules or a non-allow default', () => {
+    const empty = new PolicyEngine()
+    expect(empty.isActive()).toBe(false)
+    expect(empty.isActive([{ action: 'deny', tool: 'Bash' }])).toBe(true)
+
+    empty.setPolicy({ rules: [], defaultAction: 'flag' })
+    expect(empty.isActive()).toBe(true)
+    expect(empty.evaluate(bash('ls'))).toEqual({ action: 'flag', matched: false })
+  })
+
+  describe('load', () => {
+    let testDir: string
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `policy-test-${randomUUID()}`)
+      await mkdir(testDir, { recursive: true })
+    })
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true })
+    })
+
+    it('should treat a missing file as no rules', async () => {
+      expect(await engine.load(join(testDir, 'policy.json'))).toEqual({ rules: [] })
+      expect(engine.isActive()).toBe(false)
+    })
+
+    it('should load rules from a file', async () => {
+      const file = join(testDir, 'policy.json')
+      await writeFile(file, JSON.stringify({ rules: [{ action: 'deny', tool: 'WebFetch' }] }))
+
+      await engine.load(file)
+
+      expect(engine.evaluate({ tool: 'WebFetch', toolInput: {}, cwd: '/' }).action).toBe('deny')
+    })
+
+    it('should reject invalid JSON and keep the previous policy', async () => {
+      const file = join(testDir, 'policy.json')
+      await writeFile(file, '{ not json')
+
+      await expect(engine.load(file)).rejects.toThrow('Invalid JSON in policy file')
+      expect(engine.getPolicy().rules).toHaveLength(4)
+    })
+  })
+})
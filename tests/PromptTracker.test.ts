@@ -0,0 +1,125 @@
+/**
+ * Unit tests for PromptTracker
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { PromptTracker } from '../src/PromptTracker.js'
+import type { AgentEvent } from '../src/types.js'
+
+const base = { timestamp: Date.now(), sessionId: 's1', agent: 'claude', cwd: '/tmp' }
+
+function assistant(text: string): AgentEvent {
+  return {
+    ...base,
+    id: `msg-${text}`,
+    type: 'assistant_message',
+    content: [{ type: 'text', text }],
+  }
+}
+
+function stop(): AgentEvent {
+  return { ...base, id: 'stop', type: 'stop', stopHookActive: false }
+}
+
+describe('PromptTracker', () => {
+  let tracker: PromptTracker
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    tracker = new PromptTracker({ settleMs: 100 })
+  })
+
+  afterEach(() => {
+    tracker.clear()
+    vi.useRealTimers()
+  })
+
+  it('should not tag events before the prompt is delivered', () => {
+    tracker.add('p1', 's1')
+    const event = assistant('earlier')
+
+    tracker.track('s1', event)
+
+    expect(event.promptId).toBeUndefined()
+  })
+
+  it('should collect tool calls and the final assistant text', async () => {
+    tracker.add('p1', 's1')
+    tracker.begin('p1')
+    const waiting = tracker.wait('p1', 1000)
+
+    tracker.track('s1', { ...base, id: 'e1', type: 'pre_tool_use', tool: 'Read', toolInput: {}, toolUseId: 't1' })
+    tracker.track('s1', {
+      ...base,
+      id: 'e2',
+      type: 'post_tool_use',
+      tool: 'Read',
+      toolInput: {},
+      toolResponse: {},
+      toolUseId: 't1',
+      success: false,
+    })
+    tracker.track('s1', assistant('Working on it'))
+    tracker.track('s1', assistant('Done.'))
+    tracker.track('s1', stop())
+    vi.advanceTimersByTime(100)
+
+    const result = await waiting
+    expect(result.text).toBe('Done.')
+    expect(result.tools).toEqual([{ tool: 'Read', toolUseId: 't1', success: false }])
+  })
+
+  it('should attribute assistant messages arriving just after stop to the stopped turn', async () => {
+    tracker.add('p1', 's1')
+    tracker.add('p2', 's1')
+    tracker.begin('p1')
+    tracker.track('s1', stop())
+
+    // Next queued prompt starts before the transcript catches up
+    tracker.begin('p2')
+    const late = assistant('Final answer')
+    tracker.track('s1', late)
+    vi.advanceTimersByTime(100)
+
+    expect(late.promptId).toBe('p1')
+    expect((await tracker.wait('p1', 1000)).text).toBe('Final answer')
+
+    const next = { ...base, id: 'e1', type: 'user_prompt_submit' as const }
+    tracker.track('s1', next)
+    expect(next).toMatchObject({ promptId: 'p2' })
+  })
+
+  it('should return finished results to late waiters', async () => {
+    tracker.add('p1', 's1')
+    tracker.begin('p1')
+    tracker.track('s1', stop())
+    vi.advanceTimersByTime(100)
+
+    const result = await tracker.wait('p1', 1000)
+    expect(result.promptId).toBe('p1')
+  })
+
+  it('should reject unknown prompts', async () => {
+    await expect(tracker.wait('missing', 1000)).rejects.toThrow('Unknown prompt')
+  })
+
+  it('should time out', async () => {
+    tracker.add('p1', 's1')
+    const waiting = tracker.wait('p1', 1000)
+
+    vi.advanceTimersByTime(1000)
+
+    await expect(waiting).rejects.toThrow('Timed out')
+  })
+
+  it('should reject waiters when a session is cancelled', async () => {
+    tracker.add('p1', 's1')
+    tracker.add('p2', 's2')
+    const waiting = tracker.wait('p1', 1000)
+
+    tracker.cancelSession('s1', 'Session deleted')
+
+    await expect(waiting).rejects.toThrow('Session deleted')
+    await expect(tracker.wait('p1', 1000)).rejects.toThrow('Unknown prompt')
+  })
+})
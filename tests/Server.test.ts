@@ -5,18 +5,69 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { BridgeServer } from '../src/Server.js'
 import { SessionManager } from '../src/SessionManager.js'
+import { MemoryTerminalBackend } from '../src/MemoryTerminalBackend.js'
+import { ApprovalManager } from '../src/ApprovalManager.js'
+import { EventStore } from '../src/EventStore.js'
+import { TokenStore } from '../src/TokenStore.js'
+import { HookVerifier, signHookPayload } from '../src/HookVerifier.js'
+import { Metrics } from '../src/Metrics.js'
+import { WebhookManager } from '../src/WebhookManager.js'
+import { readOutputLog } from '../src/OutputWatcher.js'
+import { WebSocket } from 'ws'
 import { ClaudeAdapter } from '../src/adapters/ClaudeAdapter.js'
 import { tmpdir } from 'os'
 import { join } from 'path'
-import { mkdir, rm } from 'fs/promises'
+import { appendFile, mkdir, rm, stat, writeFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { execFileSync } from 'child_process'
 import { randomUUID } from 'crypto'
 
+/**
+ * GET a path over HTTP(S) or a Unix socket; fetch can't do either here.
+ */
+function get(
+  options: { socketPath?: string; port?: number; tls?: boolean },
+  path: string
+): Promise<{ status: number; body: any }> {
+  const send = options.tls ? httpsRequest : httpRequest
+  return new Promise((resolve, reject) => {
+    const req = send(
+      { ...options, host: '127.0.0.1', path, rejectUnauthorized: false },
+      (res) => {
+        let body = ''
+        res.on('data', (chunk) => (body += chunk))
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(body) }))
+      }
+    )
+    req.on('error', reject)
+    req.end()
+  })
+}
+
 describe('BridgeServer', () => {
   let server: BridgeServer
   let manager: SessionManager
+  let backend: MemoryTerminalBackend
   let testDir: string
   let testPort: number
 
+  /**
+   * Create a pane for an external agent session in the memory backend.
+   */
+  async function createPane(): Promise<{ tmuxPane: string; tmuxSocket: string }> {
+    await backend.createSession('agent-pane')
+    return { tmuxPane: backend.getSession('agent-pane')!.paneId, tmuxSocket: '/tmp/tmux-test' }
+  }
+
+  /**
+   * Text pasted into the external agent's pane, in order.
+   */
+  function pasted(): string[] {
+    return backend.getSession('agent-pane')!.input.flatMap((input) => (input.type === 'paste' ? [input.text] : []))
+  }
+
   beforeEach(async () => {
     // Create unique port for each test
     testPort = 4100 + Math.floor(Math.random() * 900)
@@ -25,10 +76,12 @@ describe('BridgeServer', () => {
     testDir = join(tmpdir(), `server-test-${randomUUID()}`)
     await mkdir(testDir, { recursive: true })
 
+    backend = new MemoryTerminalBackend()
     manager = new SessionManager({
       sessionsFile: join(testDir, 'sessions.json'),
       defaultAgent: 'claude',
       trackExternalSessions: true,
+      terminalBackend: backend,
       debug: false,
     })
     manager.registerAdapter(ClaudeAdapter)
@@ -98,6 +151,130 @@ describe('BridgeServer', () => {
     })
   })
 
+  describe('listeners', { timeout: 10000 }, () => {
+    let socketPath: string
+
+    beforeEach(() => {
+      socketPath = join(testDir, 'bridge.sock')
+    })
+
+    it('should serve a private Unix socket alongside TCP', async () => {
+      server = new BridgeServer({ port: testPort, socketPath })
+      server.setSessionManager(manager)
+      await server.start()
+
+      expect((await stat(socketPath)).mode & 0o777).toBe(0o600)
+      expect((await get({ socketPath }, '/health')).body.status).toBe('ok')
+      expect((await fetch(`http://127.0.0.1:${testPort}/health`)).status).toBe(200)
+
+      await server.stop()
+      expect(existsSync(socketPath)).toBe(false)
+    })
+
+    it('should skip token checks on the Unix socket', async () => {
+      server = new BridgeServer({ port: testPort, socketPath })
+      server.setSessionManager(manager)
+      const tokens = new TokenStore({ file: join(testDir, 'tokens.json') })
+      await tokens.create('dashboard', ['read'])
+      server.setTokenStore(tokens)
+      await server.start()
+
+      expect((await get({ socketPath }, '/sessions')).status).toBe(200)
+      expect((await get({ port: testPort }, '/sessions')).status).toBe(401)
+
+      const ws = new WebSocket(`ws+unix://${socketPath}`)
+      const first = await new Promise<any>((resolve) => ws.once('message', (data) => resolve(JSON.parse(String(data)))))
+      expect(first.type).toBe('init')
+      ws.close()
+    })
+
+    it('should listen only on the socket without TCP', async () => {
+      server = new BridgeServer({ port: testPort, tcp: false, socketPath })
+      server.setSessionManager(manager)
+      await server.start()
+
+      expect((await get({ socketPath }, '/health')).status).toBe(200)
+      await expect(fetch(`http://127.0.0.1:${testPort}/health`)).rejects.toThrow()
+    })
+
+    it('should refuse to start without any listener', async () => {
+      server = new BridgeServer({ tcp: false })
+
+      await expect(server.start()).rejects.toThrow('TCP listener or a socketPath')
+    })
+
+    it('should replace a stale socket file but not a live one', async () => {
+      await writeFile(socketPath, '')
+      server = new BridgeServer({ port: testPort, socketPath })
+      await server.start()
+      expect((await get({ socketPath }, '/health')).status).toBe(200)
+
+      const other = new BridgeServer({ port: testPort + 1, socketPath })
+      await expect(other.start()).rejects.toThrow('Socket already in use')
+      expect((await get({ socketPath }, '/health')).status).toBe(200)
+    })
+
+    it('should serve HTTPS and WSS with a TLS certificate', async () => {
+      const cert = join(testDir, 'cert.pem')
+      const key = join(testDir, 'key.pem')
+      execFileSync('openssl', [
+        'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '1',
+        '-subj', '/CN=127.0.0.1', '-keyout', key, '-out', cert,
+      ], { stdio: 'ignore' })
+
+      server = new BridgeServer({ port: testPort, tls: { cert, key } })
+      server.setSessionManager(manager)
+      await server.start()
+
+      expect((await get({ port: testPort, tls: true }, '/health')).body.status).toBe('ok')
+
+      const ws = new WebSocket(`wss://127.0.0.1:${testPort}`, { rejectUnauthorized: false })
+      const first = await new Promise<any>((resolve) => ws.once('message', (data) => resolve(JSON.parse(String(data)))))
+      expect(first.type).toBe('init')
+      ws.close()
+    })
+  })
+
+  describe('dashboard', { timeout: 10000 }, () => {
+    it('should only serve the dashboard when enabled', async () => {
+      await server.start()
+      expect((await fetch(`http://127.0.0.1:${testPort}/`)).status).toBe(404)
+      await server.stop()
+
+      server = new BridgeServer({ port: testPort, dashboard: true })
+      server.setSessionManager(manager)
+      const tokens = new TokenStore({ file: join(testDir, 'tokens.json') })
+      await tokens.create('ci', ['read', 'control'])
+      server.setTokenStore(tokens)
+      await server.start()
+
+      const res = await fetch(`http://127.0.0.1:${testPort}/`)
+      expect(res.status).toBe(200)
+      expect(res.headers.get('content-type')).toContain('text/html')
+      expect(await res.text()).toContain('<title>coding-agent-bridge</title>')
+      expect((await fetch(`http://127.0.0.1:${testPort}/sessions`)).status).toBe(401)
+    })
+
+    it('should accept WebSocket connections from the page it served', async () => {
+      server = new BridgeServer({ port: testPort, dashboard: true, allowedOrigins: [] })
+      server.setSessionManager(manager)
+      await server.start()
+
+      const open = (origin: string) =>
+        new Promise<number | 'init'>((resolve) => {
+          const ws = new WebSocket(`ws://127.0.0.1:${testPort}`, { origin })
+          ws.on('message', () => {
+            ws.close()
+            resolve('init')
+          })
+          ws.on('close', (code) => resolve(code))
+        })
+
+      expect(await open(`http://127.0.0.1:${testPort}`)).toBe('init')
+      expect(await open('http://evil.example')).toBe(4003)
+    })
+  })
+
   describe('HTTP endpoints', { timeout: 10000 }, () => {
     beforeEach(async () => {
       await server.start()
@@ -130,6 +307,87 @@ describe('BridgeServer', () => {
       expect(res.status).toBe(204)
     })
 
+    it('should serve metrics in the Prometheus text format', async () => {
+      expect((await fetch(`http://127.0.0.1:${testPort}/metrics`)).status).toBe(404)
+
+      const metrics = new Metrics()
+      metrics.recordParseFailure('parse_error')
+      server.setMetrics(metrics)
+      manager.findOrCreateSession('test-agent', 'claude', '/tmp')
+
+      const res = await fetch(`http://127.0.0.1:${testPort}/metrics`)
+      expect(res.status).toBe(200)
+      expect(res.headers.get('content-type')).toContain('text/plain; version=0.0.4')
+
+      const body = await res.text()
+      expect(body).toMatch(/coding_agent_bridge_sessions\{status="\w+",agent="claude",type="external"\} 1/)
+      expect(body).toContain('coding_agent_bridge_websocket_clients 0')
+      expect(body).toContain('coding_agent_bridge_hook_parse_failures_total{reason="parse_error"} 1')
+    })
+
+    it('should list webhooks and validate delivery queries', async () => {
+      expect((await fetch(`http://127.0.0.1:${testPort}/webhooks/deliveries`)).status).toBe(404)
+
+      server.setWebhookManager(
+        new WebhookManager({
+          webhooks: [{ url: 'http://127.0.0.1:1/hook', secret: 'shh' }],
+          logFile: join(testDir, 'deliveries.json'),
+        })
+      )
+
+      expect(await (await fetch(`http://127.0.0.1:${testPort}/webhooks`)).json()).toEqual([
+        { url: 'http://127.0.0.1:1/hook' },
+      ])
+      expect(await (await fetch(`http://127.0.0.1:${testPort}/webhooks/deliveries`)).json()).toEqual([])
+      expect((await fetch(`http://127.0.0.1:${testPort}/webhooks/deliveries?status=lost`)).status).toBe(400)
+    })
+
+    it('should serve the OpenAPI document', async () => {
+      const res = await fetch(`http://127.0.0.1:${testPort}/openapi.json`)
+      expect(res.status).toBe(200)
+
+      const doc = await res.json()
+      expect(doc.openapi).toMatch(/^3\./)
+      expect(doc.paths['/sessions'].post.requestBody.content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/CreateSessionOptions',
+      })
+    })
+
+    it('should reject malformed request bodies with the offending field', async () => {
+      const post = async (path: string, body: unknown, method = 'POST') => {
+        const res = await fetch(`http://127.0.0.1:${testPort}${path}`, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+        return { status: res.status, error: (await res.json()).error }
+      }
+      const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp')
+
+      expect(await post('/sessions', { cwd: 42 })).toEqual({ status: 400, error: 'Invalid cwd: expected a string' })
+      expect(await post('/sessions', { cwd: '/tmp', spawnterminal: true })).toEqual({
+        status: 400,
+        error: 'Unknown field: spawnterminal',
+      })
+      expect(await post('/sessions', { policy: [{ tool: 'Bash' }] })).toEqual({
+        status: 400,
+        error: 'Missing policy[0].action',
+      })
+      expect(await post('/sessions', ['/tmp'])).toEqual({
+        status: 400,
+        error: 'Invalid request body: expected an object',
+      })
+      expect(await post(`/sessions/${session.id}`, { name: '' }, 'PATCH')).toEqual({
+        status: 400,
+        error: 'Invalid name: must not be empty',
+      })
+      expect(await post(`/sessions/${session.id}/prompt`, { prompt: ['hi'] })).toEqual({
+        status: 400,
+        error: 'Invalid prompt: expected a string',
+      })
+      expect(manager.listSessions()).toHaveLength(1)
+    })
+
     it('should return 404 for unknown routes', async () => {
       const res = await fetch(`http://127.0.0.1:${testPort}/unknown`)
       expect(res.status).toBe(404)
@@ -181,6 +439,20 @@ describe('BridgeServer', () => {
         expect(data.name).toBe('new-name')
       })
 
+      it('should reject invalid session policies', async () => {
+        const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp')
+
+        const res = await fetch(`http://127.0.0.1:${testPort}/sessions/${session.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ policy: [{ action: 'deny', command: '(' }] }),
+        })
+        expect(res.status).toBe(400)
+
+        const data = await res.json()
+        expect(data.error).toContain('invalid command pattern')
+      })
+
       it('should delete session', async () => {
         const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp')
 
@@ -233,6 +505,318 @@ describe('BridgeServer', () => {
       })
     })
 
+    describe('prompt images', () => {
+      it('should reject malformed images', async () => {
+        const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp')
+
+        const res = await fetch(
+          `http://127.0.0.1:${testPort}/sessions/${session.id}/prompt`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ prompt: 'hello', images: [{ data: 123 }] }),
+          }
+        )
+        expect(res.status).toBe(400)
+
+        const data = await res.json()
+        expect(data.error).toContain('Invalid images')
+      })
+
+      it('should return saved image paths', async () => {
+        const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp', await createPane())
+        manager.updateSessionStatus(session, 'idle')
+
+        const res = await fetch(
+          `http://127.0.0.1:${testPort}/sessions/${session.id}/prompt`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              images: [{ data: Buffer.from('img').toString('base64'), mediaType: 'image/jpeg' }],
+            }),
+          }
+        )
+        expect(res.status).toBe(200)
+
+        const data = await res.json()
+        expect(data.success).toBe(true)
+        expect(data.imagePaths).toHaveLength(1)
+        expect(data.imagePaths[0]).toMatch(/image-1\.jpg$/)
+        await vi.waitFor(() => expect(pasted()).toEqual([`@${data.imagePaths[0]}`]))
+      })
+    })
+
+    describe('prompt queue', () => {
+      const queuePrompt = async (sessionId: string, prompt: string) => {
+        const res = await fetch(`http://127.0.0.1:${testPort}/sessions/${sessionId}/prompt`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prompt }),
+        })
+        return res.json()
+      }
+
+      it('should queue prompts for a working session', async () => {
+        const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp', {
+          tmuxPane: '%1',
+          tmuxSocket: '/tmp/tmux-test',
+        })
+
+        const data = await queuePrompt(session.id, 'hello')
+        expect(data.success).toBe(true)
+        expect(data.queued).toBe(true)
+
+        const res = await fetch(`http://127.0.0.1:${testPort}/sessions/${session.id}/queue`)
+        expect(res.status).toBe(200)
+        const queue = await res.json()
+        expect(queue).toHaveLength(1)
+        expect(queue[0].id).toBe(data.promptId)
+        expect(queue[0].prompt).toBe('hello')
+      })
+
+      it('should reorder and remove queued prompts', async () => {
+        const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp', {
+          tmuxPane: '%1',
+          tmuxSocket: '/tmp/tmux-test',
+        })
+        const a = await queuePrompt(session.id, 'a')
+        const b = await queuePrompt(session.id, 'b')
+
+        const reorderRes = await fetch(`http://127.0.0.1:${testPort}/sessions/${session.id}/queue`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ order: [b.promptId, a.promptId] }),
+        })
+        expect(reorderRes.status).toBe(200)
+        expect((await reorderRes.json()).map((q: any) => q.prompt)).toEqual(['b', 'a'])
+
+        const badRes = await fetch(`http://127.0.0.1:${testPort}/sessions/${session.id}/queue`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ order: [a.promptId] }),
+        })
+        expect(badRes.status).toBe(400)
+
+        const deleteRes = await fetch(
+          `http://127.0.0.1:${testPort}/sessions/${session.id}/queue/${b.promptId}`,
+          { method: 'DELETE' }
+        )
+        expect(deleteRes.status).toBe(200)
+        expect(manager.getQueue(session.id)!.map((q) => q.prompt)).toEqual(['a'])
+
+        const missingRes = await fetch(
+          `http://127.0.0.1:${testPort}/sessions/${session.id}/queue/${b.promptId}`,
+          { method: 'DELETE' }
+        )
+        expect(missingRes.status).toBe(404)
+      })
+
+      it('should return 404 for the queue of a non-existent session', async () => {
+        const res = await fetch(`http://127.0.0.1:${testPort}/sessions/nonexistent/queue`)
+        expect(res.status).toBe(404)
+      })
+    })
+
+    describe('wait mode', () => {
+      const sendAndWait = (sessionId: string, query: string) =>
+        fetch(`http://127.0.0.1:${testPort}/sessions/${sessionId}/prompt?${query}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prompt: 'hello' }),
+        })
+
+      it('should respond with the turn result once the agent stops', async () => {
+        const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp', await createPane())
+        manager.updateSessionStatus(session, 'idle')
+
+        const pending = sendAndWait(session.id, 'wait=true&timeout=5000')
+        await vi.waitFor(() => expect(pasted()).toEqual(['hello']))
+        manager.applyEvent(session, {
+          id: 'e1',
+          timestamp: Date.now(),
+          type: 'stop',
+          sessionId: session.id,
+          agent: 'claude',
+          cwd: '/tmp',
+          stopHookActive: false,
+        })
+
+        const res = await pending
+        expect(res.status).toBe(200)
+        const data = await res.json()
+        expect(data.success).toBe(true)
+        expect(data.result.promptId).toBe(data.promptId)
+        expect(data.result.tools).toEqual([])
+      })
+
+      it('should return 504 when the turn does not finish in time', async () => {
+        const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp', {
+          tmuxPane: '%1',
+          tmuxSocket: '/tmp/tmux-test',
+        })
+
+        const res = await sendAndWait(session.id, 'wait=true&timeout=50')
+        expect(res.status).toBe(504)
+        const data = await res.json()
+        expect(data.error).toContain('Timed out')
+        expect(data.promptId).toBeDefined()
+      })
+    })
+
+    describe('event history', () => {
+      let store: EventStore
+
+      beforeEach(() => {
+        store = new EventStore({ dir: join(testDir, 'history') })
+        for (let i = 1; i <= 3; i++) {
+          store.append({
+            id: `e${i}`,
+            timestamp: i,
+            type: 'stop',
+            sessionId: 's1',
+            agent: 'claude',
+            cwd: '/tmp',
+            stopHookActive: false,
+          })
+        }
+      })
+
+      afterEach(async () => {
+        await store.flush()
+      })
+
+      it('should return 404 when history is not enabled', async () => {
+        const res = await fetch(`http://127.0.0.1:${testPort}/events`)
+        expect(res.status).toBe(404)
+      })
+
+      it('should page through a session\'s events', async () => {
+        server.setEventStore(store)
+
+        const res = await fetch(`http://127.0.0.1:${testPort}/events?sessionId=s1&cursor=0&limit=2`)
+        expect(res.status).toBe(200)
+
+        const page = await res.json()
+        expect(page.events.map((e: { id: string }) => e.id)).toEqual(['e1', 'e2'])
+        expect(page.hasMore).toBe(true)
+
+        const next = await (await fetch(`http://127.0.0.1:${testPort}/events?sessionId=s1&cursor=${page.cursor}`)).json()
+        expect(next.events.map((e: { id: string }) => e.id)).toEqual(['e3'])
+        expect(next.hasMore).toBe(false)
+      })
+
+      it('should page back from the latest events with before', async () => {
+        server.setEventStore(store)
+
+        const latest = await (await fetch(`http://127.0.0.1:${testPort}/events?sessionId=s1&limit=2`)).json()
+        expect(latest.events.map((e: { id: string }) => e.id)).toEqual(['e2', 'e3'])
+        expect(latest).toMatchObject({ hasMore: true, before: 2 })
+
+        const previous = await (
+          await fetch(`http://127.0.0.1:${testPort}/events?sessionId=s1&before=${latest.before}&limit=2`)
+        ).json()
+        expect(previous.events.map((e: { id: string }) => e.id)).toEqual(['e1'])
+        expect(previous.hasMore).toBe(false)
+        expect(previous.before).toBeUndefined()
+      })
+
+      it('should reject invalid paging parameters', async () => {
+        server.setEventStore(store)
+
+        expect((await fetch(`http://127.0.0.1:${testPort}/events?limit=0`)).status).toBe(400)
+        expect((await fetch(`http://127.0.0.1:${testPort}/events?since=yesterday`)).status).toBe(400)
+        expect((await fetch(`http://127.0.0.1:${testPort}/events?cursor=-1`)).status).toBe(400)
+        expect((await fetch(`http://127.0.0.1:${testPort}/events?before=0`)).status).toBe(400)
+      })
+
+      it('should answer get_history over WebSocket', async () => {
+        server.setEventStore(store)
+        const ws = new WebSocket(`ws://127.0.0.1:${testPort}`)
+        const messages: any[] = []
+        ws.on('message', (data) => messages.push(JSON.parse(String(data))))
+        await new Promise((resolve) => ws.once('open', resolve))
+
+        ws.send(JSON.stringify({ type: 'get_history', data: { sessionId: 's1', limit: 2 } }))
+
+        await vi.waitFor(() => expect(messages.some((m) => m.type === 'history')).toBe(true))
+        const history = messages.find((m) => m.type === 'history')
+        expect(history.data.map((e: { id: string }) => e.id)).toEqual(['e2', 'e3'])
+        expect(history).toMatchObject({ cursor: 3, hasMore: true, before: 2 })
+        ws.close()
+      })
+    })
+
+    describe('approvals', () => {
+      const toolRequest = {
+        sessionId: 's1',
+        agent: 'claude',
+        tool: 'Bash',
+        toolInput: { command: 'ls' },
+        cwd: '/tmp',
+      }
+
+      it('should return 404 when approval mode is not enabled', async () => {
+        const res = await fetch(`http://127.0.0.1:${testPort}/approvals`)
+        expect(res.status).toBe(404)
+      })
+
+      it('should hold hook requests open until a client decides', async () => {
+        const approvals = new ApprovalManager()
+        server.setApprovalManager(approvals, async (raw) =>
+          (raw as any).tool_name ? approvals.request(toolRequest) : null
+        )
+
+        const hook = fetch(`http://127.0.0.1:${testPort}/approvals`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tool_name: 'Bash' }),
+        })
+        await vi.waitFor(() => expect(approvals.list()).toHaveLength(1))
+
+        const listed = await (await fetch(`http://127.0.0.1:${testPort}/approvals?sessionId=s1`)).json()
+        expect(listed).toHaveLength(1)
+
+        const decide = await fetch(`http://127.0.0.1:${testPort}/approvals/${listed[0].id}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ decision: 'deny', reason: 'Not now' }),
+        })
+        expect(decide.status).toBe(200)
+
+        const res = await hook
+        expect(res.status).toBe(200)
+        expect(await res.json()).toMatchObject({ decision: 'deny', reason: 'Not now', resolvedBy: 'client' })
+        approvals.clear()
+      })
+
+      it('should reject hook requests that are not tool calls', async () => {
+        const approvals = new ApprovalManager()
+        server.setApprovalManager(approvals, async () => null)
+
+        const res = await fetch(`http://127.0.0.1:${testPort}/approvals`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ hook_event_name: 'Stop' }),
+        })
+        expect(res.status).toBe(400)
+      })
+
+      it('should validate decisions and unknown approvals', async () => {
+        const approvals = new ApprovalManager()
+        server.setApprovalManager(approvals, async () => null)
+        const resolve = (id: string, body: unknown) =>
+          fetch(`http://127.0.0.1:${testPort}/approvals/${id}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          })
+
+        expect((await resolve('missing', { decision: 'maybe' })).status).toBe(400)
+        expect((await resolve('missing', { decision: 'allow' })).status).toBe(404)
+      })
+    })
+
     describe('event endpoint', () => {
       it('should accept event POST', async () => {
         const res = await fetch(`http://127.0.0.1:${testPort}/event`, {
@@ -260,6 +844,75 @@ describe('BridgeServer', () => {
         })
         expect(res.status).toBe(400)
       })
+
+      it('should only accept signed events once a hook verifier is set', async () => {
+        server.setHookVerifier(new HookVerifier({ secret: 'secret' }))
+        const body = JSON.stringify({ type: 'stop', id: 'test-event', timestamp: Date.now() })
+        const timestamp = Math.floor(Date.now() / 1000)
+        const post = (headers: Record<string, string>) =>
+          fetch(`http://127.0.0.1:${testPort}/event`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body,
+          })
+        const signature = {
+          'X-Bridge-Timestamp': String(timestamp),
+          'X-Bridge-Nonce': 'nonce-1',
+          'X-Bridge-Signature': signHookPayload('secret', timestamp, 'nonce-1', body),
+        }
+
+        const unsigned = await post({})
+        expect(unsigned.status).toBe(401)
+        expect((await unsigned.json()).error).toBe('Missing event signature')
+        expect((await post(signature)).status).toBe(200)
+        expect((await post(signature)).status).toBe(401)
+      })
+
+      it('should verify signatures over the raw bytes of a chunked body', async () => {
+        server.setHookVerifier(new HookVerifier({ secret: 'secret' }))
+        const body = Buffer.from(JSON.stringify({ type: 'stop', id: 'test-event', message: 'café ✓' }))
+        const timestamp = Math.floor(Date.now() / 1000)
+
+        const status = await new Promise<number | undefined>((resolve, reject) => {
+          const req = httpRequest(
+            {
+              port: testPort,
+              path: '/event',
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'X-Bridge-Timestamp': String(timestamp),
+                'X-Bridge-Nonce': 'nonce-1',
+                'X-Bridge-Signature': signHookPayload('secret', timestamp, 'nonce-1', body),
+              },
+            },
+            (res) => {
+              res.resume()
+              resolve(res.statusCode)
+            }
+          )
+          req.on('error', reject)
+          // Split inside the multi-byte "✓" so neither chunk decodes on its own
+          const split = body.indexOf('✓') + 1
+          req.write(body.subarray(0, split))
+          setTimeout(() => req.end(body.subarray(split)), 50)
+        })
+
+        expect(status).toBe(200)
+      })
+
+      it('should stop reading bodies over 10MB', async () => {
+        const outcome = await new Promise<string>((resolve) => {
+          const req = httpRequest({ port: testPort, path: '/event', method: 'POST' }, (res) => {
+            res.resume()
+            resolve(`status ${res.statusCode}`)
+          })
+          req.on('error', () => resolve('closed'))
+          req.end(Buffer.alloc(11 * 1024 * 1024, 'a'))
+        })
+
+        expect(outcome).not.toBe('status 200')
+      })
     })
   })
 
@@ -269,6 +922,517 @@ describe('BridgeServer', () => {
 
       expect(server.getClientCount()).toBe(0)
     })
+
+    describe('subscriptions', { timeout: 10000 }, () => {
+      const event = (sessionId: string, agent = 'claude') => ({
+        id: randomUUID(),
+        timestamp: Date.now(),
+        type: 'stop' as const,
+        sessionId,
+        agent,
+        cwd: '/tmp',
+        stopHookActive: false,
+      })
+
+      async function connect(subscription?: Record<string, unknown>): Promise<{ ws: WebSocket; messages: any[] }> {
+        const ws = new WebSocket(`ws://127.0.0.1:${testPort}`)
+        const messages: any[] = []
+        ws.on('message', (data) => messages.push(JSON.parse(String(data))))
+        await new Promise((resolve) => ws.once('open', resolve))
+        if (subscription) {
+          ws.send(JSON.stringify({ type: 'subscribe', data: subscription }))
+          await vi.waitFor(() => expect(messages.some((m) => m.type === 'subscribed')).toBe(true))
+        }
+        return { ws, messages }
+      }
+
+      const received = (messages: any[], type: string) =>
+        messages.filter((m) => m.type === type).map((m) => m.data.sessionId ?? m.data.id)
+
+      beforeEach(async () => {
+        await server.start()
+      })
+
+      it('should only send a subscribed client its sessions\' messages', async () => {
+        const watcher = await connect({ sessions: ['s1'] })
+        const everything = await connect()
+
+        server.broadcast(event('s1'))
+        server.broadcast(event('s2'))
+        await vi.waitFor(() => expect(received(everything.messages, 'event')).toEqual(['s1', 's2']))
+        await vi.waitFor(() => expect(received(watcher.messages, 'event')).toEqual(['s1']))
+        watcher.ws.close()
+        everything.ws.close()
+      })
+
+      it('should filter by event type, agent and session type', async () => {
+        const external = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+        const client = await connect({ eventTypes: ['stop'], agents: ['claude'], sessionTypes: ['external'] })
+        const everything = await connect()
+
+        server.broadcast({ ...event(external.id), type: 'session_end' } as any)
+        server.broadcast(event(external.id, 'codex'))
+        server.broadcast(event(external.id))
+        server.broadcastSessionUpdate(external, 'status')
+        await vi.waitFor(() => expect(received(everything.messages, 'session:status')).toHaveLength(1))
+        await vi.waitFor(() => expect(received(client.messages, 'session:status')).toHaveLength(1))
+
+        // Event type filters don't apply to session messages
+        expect(client.messages.filter((m) => m.type === 'event').map((m) => [m.data.type, m.data.agent])).toEqual([
+          ['stop', 'claude'],
+        ])
+        expect(received(client.messages, 'session:status')).toEqual([external.id])
+        client.ws.close()
+        everything.ws.close()
+      })
+
+      it('should receive everything again after an empty subscribe', async () => {
+        const client = await connect({ sessions: ['s1'] })
+
+        client.ws.send(JSON.stringify({ type: 'subscribe', data: {} }))
+        await vi.waitFor(() => expect(client.messages.filter((m) => m.type === 'subscribed')).toHaveLength(2))
+        server.broadcast(event('s2'))
+
+        await vi.waitFor(() => expect(received(client.messages, 'event')).toEqual(['s2']))
+        client.ws.close()
+      })
+    })
+
+    describe('resume', { timeout: 10000 }, () => {
+      const event = (sessionId: string) => ({
+        id: randomUUID(),
+        timestamp: Date.now(),
+        type: 'stop' as const,
+        sessionId,
+        agent: 'claude',
+        cwd: '/tmp',
+        stopHookActive: false,
+      })
+
+      async function connect(): Promise<{ ws: WebSocket; messages: any[] }> {
+        const ws = new WebSocket(`ws://127.0.0.1:${testPort}`)
+        const messages: any[] = []
+        ws.on('message', (data) => messages.push(JSON.parse(String(data))))
+        await new Promise((resolve) => ws.once('open', resolve))
+        await vi.waitFor(() => expect(messages[0]?.type).toBe('init'))
+        return { ws, messages }
+      }
+
+      beforeEach(async () => {
+        await server.start()
+      })
+
+      it('should number broadcasts and replay missed ones', async () => {
+        const first = await connect()
+        server.broadcast(event('s1'))
+        await vi.waitFor(() => expect(first.messages).toHaveLength(2))
+        const [init, seen] = first.messages
+        expect(init.seq).toBeUndefined()
+        expect(seen.seq).toBe(init.data.seq + 1)
+        first.ws.close()
+
+        server.broadcast(event('s2'))
+        server.broadcast(event('s3'))
+
+        const second = await connect()
+        second.ws.send(JSON.stringify({ type: 'resume', data: { lastSeq: seen.seq, epoch: init.data.epoch } }))
+
+        await vi.waitFor(() => expect(second.messages.some((m) => m.type === 'resumed')).toBe(true))
+        const replayed = second.messages.filter((m) => m.type === 'event')
+        expect(replayed.map((m) => m.data.sessionId)).toEqual(['s2', 's3'])
+        expect(replayed.map((m) => m.seq)).toEqual([seen.seq + 1, seen.seq + 2])
+        expect(second.messages.at(-1).data).toEqual({ lastSeq: seen.seq, replayed: 2 })
+        second.ws.close()
+      })
+
+      it('should ask the client to resync when the gap is no longer buffered', async () => {
+        ;(server as any).config.replayBufferSize = 1
+        const client = await connect()
+        const lastSeq = client.messages[0].data.seq
+
+        server.broadcast(event('s1'))
+        server.broadcast(event('s2'))
+        client.ws.send(JSON.stringify({ type: 'resume', data: { lastSeq } }))
+
+        await vi.waitFor(() => expect(client.messages.filter((m) => m.type === 'init')).toHaveLength(2))
+        const resync = client.messages.find((m) => m.type === 'resync')
+        expect(resync.data.reason).toContain('no longer buffered')
+        client.ws.close()
+      })
+
+      it('should ask the client to resync after a server restart', async () => {
+        const client = await connect()
+
+        client.ws.send(JSON.stringify({ type: 'resume', data: { lastSeq: 0, epoch: 'previous-run' } }))
+
+        await vi.waitFor(() => expect(client.messages.some((m) => m.type === 'resync')).toBe(true))
+        expect(client.messages.find((m) => m.type === 'resync').data.reason).toBe('Server restarted')
+        client.ws.close()
+      })
+    })
+  })
+
+  describe('terminal output', { timeout: 10000 }, () => {
+    let sessionId: string
+    let logFile: string
+
+    beforeEach(async () => {
+      // Serve a plain file as the session's output log
+      sessionId = manager.findOrCreateSession('agent-1', 'claude', '/tmp').id
+      logFile = join(testDir, 'output.log')
+      await writeFile(logFile, 'hello ')
+      vi.spyOn(manager, 'readOutput').mockImplementation(async (id, offset = 0, limit = 1024) => {
+        if (id !== sessionId) return undefined
+        const slice = await readOutputLog(logFile, offset, limit)
+        return slice ? { sessionId: id, ...slice } : undefined
+      })
+      await server.start()
+    })
+
+    it('should read output by byte offset', async () => {
+      const res = await fetch(`http://127.0.0.1:${testPort}/sessions/${sessionId}/output?offset=1&limit=4`)
+      expect(res.status).toBe(200)
+      expect(await res.json()).toEqual({ sessionId, offset: 1, nextOffset: 5, size: 6, data: 'ello' })
+
+      const bad = await fetch(`http://127.0.0.1:${testPort}/sessions/${sessionId}/output?offset=-1`)
+      expect(bad.status).toBe(400)
+      expect((await bad.json()).error).toBe('Invalid offset: expected a byte offset')
+      const missing = await fetch(`http://127.0.0.1:${testPort}/sessions/nope/output`)
+      expect(missing.status).toBe(404)
+    })
+
+    it('should stream output to subscribed clients from their offset', async () => {
+      const ws = new WebSocket(`ws://127.0.0.1:${testPort}`)
+      const messages: any[] = []
+      ws.on('message', (data) => messages.push(JSON.parse(String(data))))
+      await new Promise((resolve) => ws.once('open', resolve))
+
+      ws.send(JSON.stringify({ type: 'subscribe_output', data: { sessionId, offset: 0 } }))
+      await vi.waitFor(() => expect(messages.filter((m) => m.type === 'output').map((m) => m.data.data)).toEqual(['hello ']))
+      expect(messages.find((m) => m.type === 'output_subscribed').data).toEqual({ sessionId, offset: 0, size: 6 })
+
+      await appendFile(logFile, 'world')
+      server.broadcastOutput({ sessionId, offset: 6, nextOffset: 11, size: 11, data: 'world' })
+      // Already sent - ignored
+      server.broadcastOutput({ sessionId, offset: 0, nextOffset: 6, size: 11, data: 'hello ' })
+      await vi.waitFor(() => expect(messages.filter((m) => m.type === 'output')).toHaveLength(2))
+      expect(messages.filter((m) => m.type === 'output')[1].data).toMatchObject({ offset: 6, nextOffset: 11, data: 'world' })
+
+      ws.send(JSON.stringify({ type: 'unsubscribe_output', data: { sessionId } }))
+      ws.send(JSON.stringify({ type: 'subscribe_output', data: { sessionId: 'nope' } }))
+      await vi.waitFor(() => expect(messages.some((m) => m.type === 'error')).toBe(true))
+      server.broadcastOutput({ sessionId, offset: 11, nextOffset: 12, size: 12, data: '!' })
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      expect(messages.filter((m) => m.type === 'output')).toHaveLength(2)
+      expect(messages.find((m) => m.type === 'error').data).toEqual({ error: 'Session not found', status: 404 })
+      ws.close()
+    })
+  })
+
+  describe('interactive terminal', { timeout: 10000 }, () => {
+    let internal: any
+    let input: string[]
+
+    async function connect(): Promise<{ ws: WebSocket; messages: any[] }> {
+      const ws = new WebSocket(`ws://127.0.0.1:${testPort}`)
+      const messages: any[] = []
+      ws.on('message', (data) => messages.push(JSON.parse(String(data))))
+      await new Promise((resolve) => ws.once('open', resolve))
+      return { ws, messages }
+    }
+
+    const send = (ws: WebSocket, type: string, data: Record<string, unknown>) =>
+      ws.send(JSON.stringify({ type, data: { sessionId: internal.id, ...data } }))
+    const last = (messages: any[], type: string) => messages.filter((m) => m.type === type).at(-1)?.data
+
+    beforeEach(async () => {
+      // An internal session whose terminal is stubbed out
+      internal = { ...manager.findOrCreateSession('agent-1', 'claude', '/tmp'), id: 'term-1', type: 'internal' }
+      const getSession = manager.getSession.bind(manager)
+      vi.spyOn(manager, 'getSession').mockImplementation((id) => (id === internal.id ? internal : getSession(id)))
+      vi.spyOn(manager, 'getTerminalSnapshot').mockImplementation(async (id) => ({
+        sessionId: id, cols: 80, rows: 24, offset: 0, data: '\x1b[H\x1b[2J$ ',
+      }))
+      vi.spyOn(manager, 'readOutput').mockResolvedValue(undefined)
+      vi.spyOn(manager, 'resizeTerminal').mockResolvedValue(true)
+      input = []
+      vi.spyOn(manager, 'sendTerminalInput').mockImplementation(async (_id, data) => {
+        input.push(data)
+        return true
+      })
+      await server.start()
+    })
+
+    it('should relay only the writer\'s input and resizes', async () => {
+      const writer = await connect()
+      send(writer.ws, 'terminal_attach', { write: true, cols: 120, rows: 40 })
+      await vi.waitFor(() => expect(last(writer.messages, 'terminal_attached')).toBeDefined())
+      expect(last(writer.messages, 'terminal_attached')).toMatchObject({ sessionId: 'term-1', data: '\x1b[H\x1b[2J$ ', writer: true })
+      expect(manager.resizeTerminal).toHaveBeenCalledWith('term-1', 120, 40)
+
+      const viewer = await connect()
+      send(viewer.ws, 'terminal_attach', { write: true })
+      await vi.waitFor(() => expect(last(viewer.messages, 'terminal_state')).toBeDefined())
+      expect(last(viewer.messages, 'terminal_attached').writer).toBe(false)
+      expect(last(viewer.messages, 'terminal_state')).toMatchObject({ viewers: 2, writer: false, hasWriter: true })
+      await vi.waitFor(() => expect(last(writer.messages, 'terminal_state')).toMatchObject({ viewers: 2, writer: true }))
+
+      send(viewer.ws, 'terminal_input', { data: 'rm -rf /\r' })
+      await vi.waitFor(() => expect(last(viewer.messages, 'error')).toEqual({ error: 'Not the terminal writer', status: 403 }))
+
+      for (const key of ['l', 's', '\r']) send(writer.ws, 'terminal_input', { data: key })
+      await vi.waitFor(() => expect(input.join('')).toBe('ls\r'))
+
+      send(writer.ws, 'terminal_resize', { cols: 100, rows: 30 })
+      await vi.waitFor(() => expect(last(viewer.messages, 'terminal_state')).toMatchObject({ cols: 100, rows: 30 }))
+      send(writer.ws, 'terminal_resize', { cols: 0, rows: 30 })
+      await vi.waitFor(() => expect(last(writer.messages, 'error')?.error).toContain('Invalid size'))
+      writer.ws.close()
+      viewer.ws.close()
+    })
+
+    it('should report resizes that throw', async () => {
+      const writer = await connect()
+      send(writer.ws, 'terminal_attach', { write: true })
+      await vi.waitFor(() => expect(last(writer.messages, 'terminal_attached')?.writer).toBe(true))
+      vi.mocked(manager.resizeTerminal).mockRejectedValueOnce(new Error('tmux went away'))
+
+      send(writer.ws, 'terminal_resize', { cols: 100, rows: 30 })
+
+      await vi.waitFor(() => expect(last(writer.messages, 'error')).toEqual({ error: 'Failed to resize terminal', status: 500 }))
+      writer.ws.close()
+    })
+
+    it('should hand the writer role over', async () => {
+      const first = await connect()
+      const second = await connect()
+      send(first.ws, 'terminal_attach', { write: true })
+      await vi.waitFor(() => expect(last(first.messages, 'terminal_attached')?.writer).toBe(true))
+      send(second.ws, 'terminal_attach', {})
+      await vi.waitFor(() => expect(last(second.messages, 'terminal_attached')).toBeDefined())
+
+      send(second.ws, 'terminal_claim', {})
+      await vi.waitFor(() => expect(last(second.messages, 'error')).toEqual({ error: 'Terminal already has a writer', status: 409 }))
+      send(second.ws, 'terminal_claim', { force: true })
+      await vi.waitFor(() => expect(last(first.messages, 'terminal_state')).toMatchObject({ writer: false, hasWriter: true }))
+      expect(last(second.messages, 'terminal_state').writer).toBe(true)
+
+      second.ws.close()
+      await vi.waitFor(() => expect(last(first.messages, 'terminal_state')).toMatchObject({ viewers: 1, hasWriter: false }))
+      send(first.ws, 'terminal_claim', {})
+      await vi.waitFor(() => expect(last(first.messages, 'terminal_state').writer).toBe(true))
+      send(first.ws, 'terminal_release', {})
+      await vi.waitFor(() => expect(last(first.messages, 'terminal_state').hasWriter).toBe(false))
+      first.ws.close()
+    })
+
+    it('should only attach to running internal sessions', async () => {
+      const external = manager.findOrCreateSession('agent-2', 'claude', '/tmp')
+      const client = await connect()
+
+      client.ws.send(JSON.stringify({ type: 'terminal_attach', data: { sessionId: external.id } }))
+      await vi.waitFor(() => expect(last(client.messages, 'error')?.error).toBe('Only internal sessions have a terminal'))
+      internal.status = 'offline'
+      send(client.ws, 'terminal_attach', {})
+      await vi.waitFor(() => expect(last(client.messages, 'error')?.error).toBe('Session is offline'))
+      send(client.ws, 'terminal_input', { data: 'x' })
+      await vi.waitFor(() => expect(last(client.messages, 'error')?.error).toBe('Not attached to this terminal'))
+      expect(input).toEqual([])
+      client.ws.close()
+    })
+  })
+
+  describe('RPC commands', { timeout: 10000 }, () => {
+    let ws: WebSocket
+    let messages: any[]
+
+    async function call(type: string, id: string | undefined, data?: unknown): Promise<any> {
+      ws.send(JSON.stringify({ type, id, data }))
+      let reply: any
+      await vi.waitFor(() => {
+        reply = messages.find((m) => (m.type === 'result' || m.type === 'error') && m.id === id)
+        expect(reply).toBeDefined()
+      })
+      return reply
+    }
+
+    beforeEach(async () => {
+      await server.start()
+      ws = new WebSocket(`ws://127.0.0.1:${testPort}`)
+      messages = []
+      ws.on('message', (data) => messages.push(JSON.parse(String(data))))
+      await new Promise((resolve) => ws.once('open', resolve))
+    })
+
+    afterEach(() => {
+      ws.close()
+    })
+
+    it('should rename a session and echo the request id', async () => {
+      const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp')
+
+      const reply = await call('rename', 'req-1', { sessionId: session.id, name: 'renamed' })
+
+      expect(reply.type).toBe('result')
+      expect(reply.data.name).toBe('renamed')
+      expect(manager.getSession(session.id)?.name).toBe('renamed')
+    })
+
+    it('should delete a session', async () => {
+      const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp')
+
+      const reply = await call('delete', 'req-2', { sessionId: session.id })
+
+      expect(reply).toMatchObject({ type: 'result', data: { success: true } })
+      expect(manager.getSession(session.id)).toBeUndefined()
+    })
+
+    it('should reply with the same errors as the REST routes', async () => {
+      const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp')
+
+      const notFound = await call('delete', 'a', { sessionId: 'nonexistent' })
+      const noPrompt = await call('send_prompt', 'b', { sessionId: session.id })
+      const noTerminal = await call('send_prompt', 'c', { sessionId: session.id, prompt: 'hello' })
+
+      expect(notFound).toMatchObject({ type: 'error', data: { error: 'Session not found', status: 404 } })
+      expect(noPrompt.data.error).toContain('prompt')
+      expect(noTerminal.data).toMatchObject({ status: 400 })
+      expect(noTerminal.data.error).toContain('terminal')
+    })
+
+    it('should reject commands without a request id', async () => {
+      ws.send(JSON.stringify({ type: 'cancel', data: { sessionId: 'x' } }))
+
+      await vi.waitFor(() => expect(messages.some((m) => m.type === 'error')).toBe(true))
+      const reply = messages.find((m) => m.type === 'error')
+      expect(reply.id).toBeUndefined()
+      expect(reply.data.error).toBe('Missing request id')
+    })
+  })
+
+  describe('authentication', { timeout: 10000 }, () => {
+    let tokens: TokenStore
+    let readToken: string
+    let controlToken: string
+    let hookToken: string
+
+    const get = (path: string, token?: string) =>
+      fetch(`http://127.0.0.1:${testPort}${path}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      })
+
+    function connect(headers: Record<string, string> = {}): Promise<{ ws: WebSocket; messages: any[]; closed: Promise<number> }> {
+      const ws = new WebSocket(`ws://127.0.0.1:${testPort}`, { headers })
+      const messages: any[] = []
+      ws.on('message', (data) => messages.push(JSON.parse(String(data))))
+      const closed = new Promise<number>((resolve) => ws.once('close', resolve))
+      return new Promise((resolve) => ws.once('open', () => resolve({ ws, messages, closed })))
+    }
+
+    beforeEach(async () => {
+      tokens = new TokenStore({ file: join(testDir, 'tokens.json') })
+      server.setTokenStore(tokens)
+      readToken = (await tokens.create('dashboard', ['read'])).token
+      controlToken = (await tokens.create('ci', ['read', 'control'])).token
+      hookToken = (await tokens.create('hooks', ['hook-ingest'])).token
+      await server.start()
+    })
+
+    it('should require a token with the route\'s scope', async () => {
+      expect((await get('/sessions')).status).toBe(401)
+      expect((await get('/sessions', 'cab_wrong')).status).toBe(401)
+      expect((await get('/sessions', readToken)).status).toBe(200)
+      expect((await get('/sessions', hookToken)).status).toBe(403)
+
+      const session = manager.findOrCreateSession('test-agent', 'claude', '/tmp')
+      const rename = (token: string) =>
+        fetch(`http://127.0.0.1:${testPort}/sessions/${session.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ name: 'renamed' }),
+        })
+      const denied = await rename(readToken)
+      expect(denied.status).toBe(403)
+      expect((await denied.json()).error).toContain("'control'")
+      expect((await rename(controlToken)).status).toBe(200)
+    })
+
+    it('should keep the health check public', async () => {
+      expect((await get('/health')).status).toBe(200)
+    })
+
+    it('should only accept hook events with a hook-ingest token', async () => {
+      const post = (token: string) =>
+        fetch(`http://127.0.0.1:${testPort}/event`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ type: 'stop' }),
+        })
+
+      expect((await post(controlToken)).status).toBe(403)
+      expect((await post(hookToken)).status).toBe(200)
+    })
+
+    it('should stay open once every token is revoked', async () => {
+      await new TokenStore({ file: join(testDir, 'tokens.json') }).revoke('dashboard')
+      await new TokenStore({ file: join(testDir, 'tokens.json') }).revoke('ci')
+      await new TokenStore({ file: join(testDir, 'tokens.json') }).revoke('hooks')
+
+      expect((await get('/sessions')).status).toBe(200)
+    })
+
+    it('should accept WebSocket tokens in the Authorization header', async () => {
+      const client = await connect({ Authorization: `Bearer ${readToken}` })
+
+      await vi.waitFor(() => expect(client.messages[0]?.type).toBe('init'))
+      client.ws.close()
+    })
+
+    it('should accept a WebSocket token in the first message', async () => {
+      const client = await connect()
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      expect(client.messages).toHaveLength(0)
+      expect(server.getClientCount()).toBe(0)
+
+      client.ws.send(JSON.stringify({ type: 'auth', data: { token: readToken } }))
+      client.ws.send(JSON.stringify({ type: 'ping' }))
+
+      await vi.waitFor(() => expect(client.messages.map((m) => m.type)).toEqual(['init', 'pong']))
+      client.ws.close()
+    })
+
+    it('should keep handling messages after authentication throws', async () => {
+      const client = await connect()
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      vi.spyOn(tokens, 'refresh').mockRejectedValueOnce(new Error('disk error'))
+
+      client.ws.send(JSON.stringify({ type: 'auth', data: { token: readToken } }))
+      client.ws.send(JSON.stringify({ type: 'auth', data: { token: readToken } }))
+
+      await vi.waitFor(() => expect(client.messages.map((m) => m.type)).toEqual(['error', 'init']))
+      expect(client.messages[0].data).toEqual({ error: 'Internal server error', status: 500 })
+      client.ws.close()
+    })
+
+    it('should close WebSocket connections that fail to authenticate', async () => {
+      const client = await connect()
+
+      client.ws.send(JSON.stringify({ type: 'auth', data: { token: hookToken } }))
+
+      expect(await client.closed).toBe(4001)
+      expect(client.messages).toHaveLength(0)
+    })
+
+    it('should require the control scope for RPC commands', async () => {
+      const client = await connect({ Authorization: `Bearer ${readToken}` })
+      await vi.waitFor(() => expect(client.messages[0]?.type).toBe('init'))
+
+      client.ws.send(JSON.stringify({ type: 'delete', id: 'r1', data: { sessionId: 'x' } }))
+
+      await vi.waitFor(() => expect(client.messages.some((m) => m.type === 'error')).toBe(true))
+      expect(client.messages.find((m) => m.type === 'error')).toMatchObject({ id: 'r1', data: { status: 403 } })
+      client.ws.close()
+    })
   })
 
   describe('session filters', () => {
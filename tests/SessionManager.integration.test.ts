@@ -2,15 +2,17 @@
  * Integration tests for SessionManager with real tmux
  */
 
-import { describe, it, expect, beforeEach, afterEach, beforeAll } from 'vitest'
-import { SessionManager, SessionManagerConfig } from '../src/SessionManager.js'
+import { describe, it, expect, beforeEach, afterEach, beforeAll, vi } from 'vitest'
+import { SessionManager, SessionManagerConfig, BRIDGE_SESSION_ENV } from '../src/SessionManager.js'
 import { TmuxExecutor } from '../src/TmuxExecutor.js'
 import { ClaudeAdapter } from '../src/adapters/ClaudeAdapter.js'
 import { CodexAdapter } from '../src/adapters/CodexAdapter.js'
 import { tmpdir } from 'os'
 import { join } from 'path'
 import { mkdir, rm } from 'fs/promises'
+import { existsSync } from 'fs'
 import { randomUUID } from 'crypto'
+import { execFileSync } from 'child_process'
 
 describe('SessionManager Integration', () => {
   let manager: SessionManager
@@ -159,6 +161,79 @@ describe('SessionManager Integration', () => {
     })
   })
 
+  describe('tmux control mode', { timeout: 15000 }, () => {
+    it('should mark a session offline as soon as its tmux session dies', async () => {
+      if (!tmuxAvailable) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      await manager.stop()
+      manager = new SessionManager({ ...config, tmuxControlMode: true })
+      manager.registerAdapter(ClaudeAdapter)
+      await manager.start()
+
+      const session = await manager.createSession({ cwd: '/tmp' })
+      await tmux.killSession(session.tmuxSession!)
+
+      // Well before the 10s poll
+      await vi.waitFor(() => expect(manager.getSession(session.id)?.status).toBe('offline'), { timeout: 3000 })
+    })
+  })
+
+  describe('output capture', { timeout: 15000 }, () => {
+    it('should stream pane output and remove the log with the session', async () => {
+      if (!tmuxAvailable) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      await manager.stop()
+      manager = new SessionManager({ ...config, captureOutput: true })
+      manager.registerAdapter(ClaudeAdapter)
+      const chunks: string[] = []
+      manager.on('session:output', (_session, chunk) => chunks.push(chunk.data))
+
+      const session = await manager.createSession({ cwd: '/tmp' })
+
+      // The shell echoes the agent's launch command into the pane
+      await vi.waitFor(() => expect(chunks.join('')).toContain(ClaudeAdapter.buildCommand()), { timeout: 5000 })
+      const output = await manager.readOutput(session.id)
+      expect(output?.offset).toBe(0)
+      expect(output?.data).toContain(ClaudeAdapter.buildCommand())
+
+      const logFile = manager.getSessionOutputFile(session.id)
+      expect(existsSync(logFile)).toBe(true)
+      await manager.deleteSession(session.id)
+      expect(existsSync(logFile)).toBe(false)
+    })
+
+    it('should snapshot, resize and type into the terminal', async () => {
+      if (!tmuxAvailable) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      await manager.stop()
+      manager = new SessionManager({ ...config, captureOutput: true })
+      manager.registerAdapter(ClaudeAdapter)
+      const session = await manager.createSession({ cwd: '/tmp' })
+
+      expect(await manager.resizeTerminal(session.id, 100, 30)).toBe(true)
+      const snapshot = await manager.getTerminalSnapshot(session.id)
+      expect(snapshot).toMatchObject({ sessionId: session.id, cols: 100, rows: 30 })
+      expect(snapshot!.data.startsWith('\x1b[H\x1b[2J')).toBe(true)
+      expect(snapshot!.offset).toBe((await manager.readOutput(session.id, Number.MAX_SAFE_INTEGER))!.size)
+
+      expect(await manager.sendTerminalInput(session.id, 'x')).toBe(true)
+      expect(await manager.sendTerminalInput('nonexistent', 'x')).toBe(false)
+      expect(await manager.getTerminalSnapshot('nonexistent')).toBeUndefined()
+
+      manager.updateSessionStatus(session, 'offline')
+      expect(await manager.resizeTerminal(session.id, 80, 24)).toBe(false)
+    })
+  })
+
   describe('sendPrompt', { timeout: 15000 }, () => {
     it('should send prompt to internal session', async () => {
       if (!tmuxAvailable) {
@@ -286,6 +361,36 @@ describe('SessionManager Integration', () => {
       expect(linked.type).toBe('internal')
     })
 
+    it('should link by injected bridge session ID when sessions share a cwd', async () => {
+      if (!tmuxAvailable) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const first = await manager.createSession({ cwd: '/tmp', name: 'first' })
+      const second = await manager.createSession({ cwd: '/tmp', name: 'second' })
+
+      const linked = manager.findOrCreateSession('agent-456', 'claude', '/tmp', undefined, undefined, second.id)
+
+      expect(linked.id).toBe(second.id)
+      expect(linked.agentSessionId).toBe('agent-456')
+      expect(first.agentSessionId).toBeUndefined()
+    })
+
+    it('should inject the bridge session ID into the tmux environment', async () => {
+      if (!tmuxAvailable) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const session = await manager.createSession({ cwd: '/tmp' })
+
+      const env = execFileSync('tmux', ['show-environment', '-t', session.tmuxSession!, BRIDGE_SESSION_ENV], {
+        encoding: 'utf8',
+      })
+      expect(env.trim()).toBe(`${BRIDGE_SESSION_ENV}=${session.id}`)
+    })
+
     it('should not link if cwd does not match', async () => {
       if (!tmuxAvailable) {
         console.log('Skipping: tmux not available')
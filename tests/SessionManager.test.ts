@@ -6,20 +6,40 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { SessionManager, SessionManagerConfig } from '../src/SessionManager.js'
 import { ClaudeAdapter } from '../src/adapters/ClaudeAdapter.js'
 import { CodexAdapter } from '../src/adapters/CodexAdapter.js'
+import { MemoryTerminalBackend } from '../src/MemoryTerminalBackend.js'
+import type { PolicyRule, UserPromptSubmitEvent } from '../src/types.js'
 import { tmpdir } from 'os'
 import { join } from 'path'
 import { mkdir, rm, writeFile, readFile } from 'fs/promises'
+import { existsSync } from 'fs'
 import { randomUUID } from 'crypto'
 
 describe('SessionManager', () => {
   let manager: SessionManager
   let testDir: string
   let config: SessionManagerConfig
+  let backend: MemoryTerminalBackend
+
+  /**
+   * Open a pane for an external agent to run in.
+   */
+  async function createPane(): Promise<{ tmuxPane: string; tmuxSocket: string }> {
+    await backend.createSession('agent-pane')
+    return { tmuxPane: backend.getSession('agent-pane')!.paneId, tmuxSocket: '/tmp/tmux-test' }
+  }
+
+  /**
+   * Text pasted into the external agent's pane, in order.
+   */
+  function pasted(): string[] {
+    return backend.getSession('agent-pane')!.input.flatMap((input) => (input.type === 'paste' ? [input.text] : []))
+  }
 
   beforeEach(async () => {
     // Create a unique temp directory for each test
     testDir = join(tmpdir(), `session-manager-test-${randomUUID()}`)
     await mkdir(testDir, { recursive: true })
+    backend = new MemoryTerminalBackend()
 
     config = {
       sessionsFile: join(testDir, 'sessions.json'),
@@ -28,6 +48,7 @@ describe('SessionManager', () => {
       offlineCleanupMs: 3600000,
       staleCleanupMs: 7 * 24 * 3600000,
       trackExternalSessions: true,
+      terminalBackend: backend,
       debug: false,
     }
 
@@ -152,6 +173,24 @@ describe('SessionManager', () => {
       expect(listener).not.toHaveBeenCalled()
     })
 
+    it('should set and clear a session policy', () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+
+      manager.updateSession(session.id, { policy: [{ action: 'deny', tool: 'Bash' }] })
+      expect(session.policy).toEqual([{ action: 'deny', tool: 'Bash' }])
+
+      manager.updateSession(session.id, { policy: [] })
+      expect(session.policy).toBeUndefined()
+    })
+
+    it('should reject invalid policy rules', () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+
+      expect(() =>
+        manager.updateSession(session.id, { policy: [{ action: 'block' } as unknown as PolicyRule] })
+      ).toThrow('Policy rule 1: action must be one of allow, deny, flag')
+    })
+
     it('should return undefined for unknown session', () => {
       const result = manager.updateSession('unknown-id', { name: 'test' })
       expect(result).toBeUndefined()
@@ -333,6 +372,380 @@ describe('SessionManager', () => {
     })
   })
 
+  describe('sendPrompt with images', () => {
+    const png = { data: Buffer.from('fake-png').toString('base64'), mediaType: 'image/png', name: 'shot.png' }
+    let terminal: { tmuxPane: string; tmuxSocket: string }
+
+    beforeEach(async () => {
+      terminal = await createPane()
+    })
+
+    it('should save images and reference them in the pasted prompt', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      manager.updateSessionStatus(session, 'idle')
+
+      const result = await manager.sendPrompt(session.id, 'What is this?', [png])
+
+      expect(result.ok).toBe(true)
+      expect(result.imagePaths).toHaveLength(1)
+      const imagePath = result.imagePaths![0]!
+      expect(imagePath.startsWith(join(testDir, 'images', session.id))).toBe(true)
+      expect(imagePath.endsWith('-shot.png')).toBe(true)
+      expect(await readFile(imagePath, 'utf8')).toBe('fake-png')
+
+      expect(pasted()).toEqual([`What is this?\n\n@${imagePath}`])
+    })
+
+    it('should reject unsupported image types without pasting', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+
+      const result = await manager.sendPrompt(session.id, 'hi', [{ data: 'AAAA', mediaType: 'image/tiff' }])
+
+      expect(result.ok).toBe(false)
+      expect(result.error).toContain('Unsupported image type')
+      expect(pasted()).toEqual([])
+    })
+
+    it('should use the default format for adapters without formatPromptWithImages', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'codex', '/tmp', terminal)
+      manager.updateSessionStatus(session, 'idle')
+
+      const result = await manager.sendPrompt(session.id, 'Look', [png])
+
+      expect(pasted()).toEqual([`Look\n\nImage: ${result.imagePaths![0]}`])
+    })
+
+    it('should remove saved images when the session is deleted', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      await manager.sendPrompt(session.id, 'hi', [png])
+      expect(existsSync(manager.getSessionImagesDir(session.id))).toBe(true)
+
+      await manager.deleteSession(session.id)
+
+      expect(existsSync(manager.getSessionImagesDir(session.id))).toBe(false)
+    })
+  })
+
+  describe('prompt queue', () => {
+    let terminal: { tmuxPane: string; tmuxSocket: string }
+
+    beforeEach(async () => {
+      terminal = await createPane()
+    })
+    const stop = {
+      id: 'e1',
+      timestamp: Date.now(),
+      sessionId: 's1',
+      agent: 'claude',
+      cwd: '/tmp',
+      type: 'stop' as const,
+      stopHookActive: false,
+    }
+
+    it('should paste immediately when the session is idle', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      manager.updateSessionStatus(session, 'idle')
+
+      const result = await manager.sendPrompt(session.id, 'first')
+
+      expect(result).toEqual({ ok: true, promptId: expect.any(String) })
+      expect(pasted()).toEqual(['first'])
+      expect(session.status).toBe('working')
+    })
+
+    it('should restore the session status when pasting fails', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      manager.updateSessionStatus(session, 'idle')
+      backend.exit('agent-pane')
+      const statuses: string[] = []
+      manager.on('session:status', (_session, _old, status) => statuses.push(status))
+
+      await expect(manager.sendPrompt(session.id, 'first')).rejects.toThrow()
+
+      expect(session.status).toBe('idle')
+      expect(statuses).toEqual(['working', 'idle'])
+    })
+
+    it('should queue prompts while the session is working', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      const onQueue = vi.fn()
+      manager.on('session:queue', onQueue)
+
+      const result = await manager.sendPrompt(session.id, 'later')
+
+      expect(result.ok).toBe(true)
+      expect(result.queued).toBe(true)
+      expect(result.promptId).toBeDefined()
+      expect(pasted()).toEqual([])
+      expect(manager.getQueue(session.id)!.map((q) => q.prompt)).toEqual(['later'])
+      expect(onQueue).toHaveBeenCalledWith(session, session.queue)
+    })
+
+    it('should dispatch queued prompts one at a time on stop', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      await manager.sendPrompt(session.id, 'one')
+      await manager.sendPrompt(session.id, 'two')
+
+      manager.applyEvent(session, stop)
+      await vi.waitFor(() => expect(pasted()).toEqual(['one']))
+      expect(session.status).toBe('working')
+      expect(manager.getQueue(session.id)!.map((q) => q.prompt)).toEqual(['two'])
+
+      manager.applyEvent(session, stop)
+      await vi.waitFor(() => expect(pasted()).toEqual(['one', 'two']))
+      expect(manager.getQueue(session.id)).toEqual([])
+    })
+
+    it('should keep FIFO order while earlier prompts are pending', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      await manager.sendPrompt(session.id, 'one')
+
+      // Idle without a stop event (e.g. working timeout) - new prompt still waits its turn
+      session.status = 'idle'
+      const result = await manager.sendPrompt(session.id, 'two')
+
+      expect(result.queued).toBe(true)
+      expect(manager.getQueue(session.id)!.map((q) => q.prompt)).toEqual(['one', 'two'])
+    })
+
+    it('should hold the queue when a long tool call passes the working timeout', async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] })
+      try {
+        await manager.start()
+        const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+        manager.applyEvent(session, { ...stop, type: 'pre_tool_use', tool: 'Bash', toolInput: {}, toolUseId: 'tu-1' })
+        await manager.sendPrompt(session.id, 'next')
+
+        vi.advanceTimersByTime(config.workingTimeoutMs + 10000)
+
+        expect(session.status).toBe('idle')
+        expect(manager.getQueue(session.id)!.map((q) => q.prompt)).toEqual(['next'])
+        expect(pasted()).toEqual([])
+
+        manager.applyEvent(session, stop)
+        await vi.waitFor(() => expect(pasted()).toEqual(['next']))
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should requeue the prompt when dispatch fails', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      backend.exit('agent-pane')
+      const onError = vi.fn()
+      manager.on('error', onError)
+      await manager.sendPrompt(session.id, 'one')
+
+      manager.applyEvent(session, stop)
+
+      await vi.waitFor(() => expect(onError).toHaveBeenCalled())
+      expect(manager.getQueue(session.id)!.map((q) => q.prompt)).toEqual(['one'])
+      expect(session.status).toBe('idle')
+    })
+
+    it('should reorder the queue', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      const a = await manager.sendPrompt(session.id, 'a')
+      const b = await manager.sendPrompt(session.id, 'b')
+
+      const queue = manager.reorderQueue(session.id, [b.promptId!, a.promptId!])
+
+      expect(queue!.map((q) => q.prompt)).toEqual(['b', 'a'])
+      expect(() => manager.reorderQueue(session.id, [a.promptId!])).toThrow('exactly once')
+      expect(manager.reorderQueue('nonexistent', [])).toBeUndefined()
+    })
+
+    it('should remove a queued prompt and its images', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      const image = { data: Buffer.from('img').toString('base64'), mediaType: 'image/png' }
+      const result = await manager.sendPrompt(session.id, 'look', [image])
+      expect(existsSync(result.imagePaths![0]!)).toBe(true)
+
+      expect(await manager.removeQueuedPrompt(session.id, result.promptId!)).toBe(true)
+
+      expect(manager.getQueue(session.id)).toEqual([])
+      expect(existsSync(result.imagePaths![0]!)).toBe(false)
+      expect(await manager.removeQueuedPrompt(session.id, result.promptId!)).toBe(false)
+    })
+  })
+
+  describe('prompt correlation', () => {
+    let terminal: { tmuxPane: string; tmuxSocket: string }
+
+    beforeEach(async () => {
+      terminal = await createPane()
+    })
+    const base = { timestamp: Date.now(), sessionId: 's1', agent: 'claude', cwd: '/tmp' }
+
+    it('should tag turn events with the prompt ID and resolve waiters on stop', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      manager.updateSessionStatus(session, 'idle')
+
+      const { promptId } = await manager.sendPrompt(session.id, 'list files')
+      const waiting = manager.waitForPrompt(promptId!, 5000)
+
+      const submit = { ...base, id: 'e1', type: 'user_prompt_submit' as const, prompt: 'list files' }
+      const tool = { ...base, id: 'e2', type: 'pre_tool_use' as const, tool: 'Bash', toolInput: {}, toolUseId: 'tu-1' }
+      const stop = { ...base, id: 'e3', type: 'stop' as const, stopHookActive: false }
+      manager.applyEvent(session, submit)
+      manager.applyEvent(session, tool)
+      manager.applyEvent(session, stop)
+
+      expect(submit).toMatchObject({ promptId })
+      expect(tool).toMatchObject({ promptId })
+      expect(stop).toMatchObject({ promptId })
+
+      const result = await waiting
+      expect(result.promptId).toBe(promptId)
+      expect(result.sessionId).toBe(session.id)
+      expect(result.tools).toEqual([{ tool: 'Bash', toolUseId: 'tu-1' }])
+      expect(result.durationMs).toBeGreaterThanOrEqual(0)
+    })
+
+    it('should not tag events after the turn has stopped', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      manager.updateSessionStatus(session, 'idle')
+      await manager.sendPrompt(session.id, 'hi')
+      manager.applyEvent(session, { ...base, id: 'e1', type: 'stop', stopHookActive: false })
+
+      const later: UserPromptSubmitEvent = { ...base, id: 'e2', type: 'user_prompt_submit', prompt: 'typed manually' }
+      manager.applyEvent(session, later)
+
+      expect(later.promptId).toBeUndefined()
+    })
+
+    it('should reject waiters when a queued prompt is removed', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      const { promptId } = await manager.sendPrompt(session.id, 'later')
+
+      const waiting = manager.waitForPrompt(promptId!, 5000)
+      await manager.removeQueuedPrompt(session.id, promptId!)
+
+      await expect(waiting).rejects.toThrow('removed from queue')
+    })
+  })
+
+  describe('applyEvent', () => {
+    const base = { id: 'e1', timestamp: Date.now(), sessionId: 's1', agent: 'claude', cwd: '/tmp' }
+
+    it('should mark session working and track tool on pre_tool_use', () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+      manager.updateSessionStatus(session, 'idle')
+
+      manager.applyEvent(session, {
+        ...base,
+        type: 'pre_tool_use',
+        tool: 'Bash',
+        toolInput: {},
+        toolUseId: 'tu-1',
+      })
+
+      expect(session.status).toBe('working')
+      expect(session.currentTool).toBe('Bash')
+    })
+
+    it('should clear tool on post_tool_use', () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+      session.currentTool = 'Bash'
+
+      manager.applyEvent(session, {
+        ...base,
+        type: 'post_tool_use',
+        tool: 'Bash',
+        toolInput: {},
+        toolResponse: {},
+        toolUseId: 'tu-1',
+        success: true,
+      })
+
+      expect(session.currentTool).toBeUndefined()
+      expect(session.status).toBe('working')
+    })
+
+    it('should mark session idle on stop', () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+
+      manager.applyEvent(session, { ...base, type: 'stop', stopHookActive: false })
+
+      expect(session.status).toBe('idle')
+    })
+  })
+
+  describe('waiting status', () => {
+    const base = { id: 'e1', timestamp: Date.now(), sessionId: 's1', agent: 'claude', cwd: '/tmp' }
+    let terminal: { tmuxPane: string; tmuxSocket: string }
+
+    beforeEach(async () => {
+      terminal = await createPane()
+    })
+
+    it('should mark session waiting on a blocking notification', () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+      manager.updateSessionTool(session, 'Bash')
+
+      manager.applyEvent(session, { ...base, type: 'notification', waitingFor: 'permission' })
+
+      expect(session.status).toBe('waiting')
+      expect(session.waitingFor).toBe('permission')
+      expect(session.currentTool).toBe('Bash')
+    })
+
+    it('should ignore informational notifications', () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+
+      manager.applyEvent(session, { ...base, type: 'notification', message: 'FYI' })
+
+      expect(session.status).toBe('working')
+    })
+
+    it('should return to working when the tool runs', () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp')
+      manager.markWaiting(session, 'permission')
+
+      manager.applyEvent(session, {
+        ...base,
+        type: 'post_tool_use',
+        tool: 'Bash',
+        toolInput: {},
+        toolResponse: {},
+        toolUseId: 'tu-1',
+        success: true,
+      })
+
+      expect(session.status).toBe('working')
+      expect(session.waitingFor).toBeUndefined()
+    })
+
+    it('should send input to a waiting session and return it to working', async () => {
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      manager.markWaiting(session, 'input')
+
+      const result = await manager.sendPrompt(session.id, 'yes')
+
+      expect(result.queued).toBeUndefined()
+      expect(pasted()).toEqual(['yes'])
+      expect(session.status).toBe('working')
+    })
+
+    it('should detect and clear waiting from pane patterns', async () => {
+      await manager.stop()
+      manager = new SessionManager({ ...config, detectWaitingFromPane: true, paneCheckIntervalMs: 20 })
+      manager.registerAdapter(ClaudeAdapter)
+      await manager.start()
+      const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp', terminal)
+      const capture = vi.spyOn(backend, 'capturePane')
+
+      await backend.write('agent-pane', 'Bash command\r\n\r\nDo you want to proceed?\r\n❯ 1. Yes')
+      await vi.waitFor(() => expect(session.status).toBe('waiting'))
+      expect(session.waitingFor).toBe('permission')
+      expect(capture).toHaveBeenCalledWith(terminal.tmuxPane, { start: -20, isPaneId: true, socket: '/tmp/tmux-test' })
+
+      // Scroll the dialog out of the captured lines
+      await backend.write('agent-pane', '\r\n'.repeat(50) + 'Running...')
+      await vi.waitFor(() => expect(session.status).toBe('working'))
+    })
+  })
+
   describe('persistence', () => {
     it('should save and load sessions', async () => {
       const session = manager.findOrCreateSession('agent-1', 'claude', '/tmp/test')
@@ -411,6 +824,130 @@ describe('SessionManager', () => {
     })
   })
 
+  describe('with a memory terminal backend', () => {
+    beforeEach(async () => {
+      await manager.stop()
+      manager = new SessionManager({ ...config, captureOutput: true })
+      manager.registerAdapter(ClaudeAdapter)
+    })
+
+    it('should run internal sessions without tmux', async () => {
+      const session = await manager.createSession({ cwd: testDir })
+      const terminal = backend.getSession(session.tmuxSession!)!
+
+      expect(terminal.command).toBe(ClaudeAdapter.buildCommand({ cwd: testDir }))
+      expect(terminal.env.CODING_AGENT_BRIDGE_SESSION_ID).toBe(session.id)
+
+      expect(await manager.sendPrompt(session.id, 'Fix the tests')).toMatchObject({ ok: true, queued: true })
+      await backend.write(session.tmuxSession!, '? for shortcuts')
+      await vi.waitFor(() => expect(terminal.input).toHaveLength(2))
+      expect(await manager.cancel(session.id)).toBe(true)
+      expect(terminal.input).toEqual([
+        { type: 'paste', text: 'Fix the tests' },
+        { type: 'keys', keys: 'Enter', literal: false },
+        { type: 'keys', keys: 'C-c', literal: false },
+      ])
+
+      await manager.deleteSession(session.id)
+      expect(await backend.sessionExists(session.tmuxSession!)).toBe(false)
+    })
+
+    it('should stream output and snapshot the screen', async () => {
+      const session = await manager.createSession({ cwd: testDir })
+      await backend.write(session.tmuxSession!, 'hello\r\n$ ')
+
+      expect((await manager.readOutput(session.id))?.data).toBe('hello\r\n$ ')
+      expect(await manager.resizeTerminal(session.id, 100, 30)).toBe(true)
+
+      const snapshot = await manager.getTerminalSnapshot(session.id)
+      expect(snapshot).toMatchObject({ cols: 100, rows: 30, offset: 9 })
+      expect(snapshot!.data).toBe('\x1b[H\x1b[2Jhello\r\n$ \x1b[0m\x1b[2;3H')
+    })
+
+    it('should mark a session offline as soon as its terminal exits', async () => {
+      const session = await manager.createSession({ cwd: testDir })
+      const statuses: string[] = []
+      manager.on('session:status', (_session, _from, to) => statuses.push(to))
+
+      backend.exit(session.tmuxSession!)
+
+      await vi.waitFor(() => expect(manager.getSession(session.id)?.status).toBe('offline'))
+      expect(statuses).toEqual(['offline'])
+      expect((await manager.sendPrompt(session.id, 'hi')).error).toBe('Session is offline')
+    })
+  })
+
+  describe('agent readiness', () => {
+    const base = { id: 'e1', timestamp: Date.now(), sessionId: 's1', agent: 'claude', cwd: '/tmp' }
+
+    beforeEach(async () => {
+      await manager.stop()
+      manager = new SessionManager({ ...config, readyTimeoutMs: 2000 })
+      manager.registerAdapter(ClaudeAdapter)
+      manager.registerAdapter(CodexAdapter)
+    })
+
+    it('should hold prompts until the ready pattern is on screen', async () => {
+      const session = await manager.createSession({ cwd: testDir })
+      const terminal = backend.getSession(session.tmuxSession!)!
+
+      // A session_start hook alone doesn't make Claude ready
+      manager.applyEvent(session, { ...base, type: 'session_start', source: 'startup' })
+      expect(session.status).toBe('idle')
+      expect(await manager.sendPrompt(session.id, 'first')).toMatchObject({ queued: true })
+
+      await backend.write(session.tmuxSession!, 'Welcome\r\n  ? for shortcuts')
+      await vi.waitFor(() => expect(terminal.input[0]).toEqual({ type: 'paste', text: 'first' }))
+      expect(manager.getQueue(session.id)).toEqual([])
+    })
+
+    it('should hold prompts until session_start for adapters that signal with it', async () => {
+      const session = await manager.createSession({ cwd: testDir, agent: 'codex' })
+      const terminal = backend.getSession(session.tmuxSession!)!
+      manager.updateSessionStatus(session, 'idle')
+
+      expect(await manager.sendPrompt(session.id, 'first')).toMatchObject({ queued: true })
+      expect(terminal.input).toEqual([])
+
+      manager.applyEvent(session, { ...base, type: 'session_start', source: 'startup' })
+      await vi.waitFor(() => expect(terminal.input[0]).toEqual({ type: 'paste', text: 'first' }))
+    })
+
+    it('should also accept their composer footer', async () => {
+      const session = await manager.createSession({ cwd: testDir, agent: 'codex' })
+      const terminal = backend.getSession(session.tmuxSession!)!
+      expect(await manager.sendPrompt(session.id, 'first')).toMatchObject({ queued: true })
+
+      await backend.write(session.tmuxSession!, '› Ask Codex to do anything\r\n\r\n  ⏎ send   ⌃J newline')
+
+      await vi.waitFor(() => expect(terminal.input[0]).toEqual({ type: 'paste', text: 'first' }))
+    })
+
+    it('should fail held prompts when the agent is not ready in time', async () => {
+      const errors: Error[] = []
+      manager.on('error', (err) => errors.push(err))
+      const session = await manager.createSession({ cwd: testDir })
+
+      const { promptId } = await manager.sendPrompt(session.id, 'first')
+      await expect(manager.waitForPrompt(promptId!, 10000)).rejects.toThrow(
+        'Agent did not become ready within 2000ms'
+      )
+
+      expect(manager.getQueue(session.id)).toEqual([])
+      expect(errors[0]?.message).toContain('did not become ready')
+      expect(backend.getSession(session.tmuxSession!)!.input).toEqual([])
+      expect(session).toMatchObject({ status: 'error', error: 'Agent did not become ready within 2000ms' })
+      expect(await manager.sendPrompt(session.id, 'again')).toEqual({
+        ok: false,
+        error: 'Agent did not become ready within 2000ms',
+      })
+
+      const restarted = await manager.restart(session.id)
+      expect(restarted?.status).toBe('working')
+      expect(restarted?.error).toBeUndefined()
+    })
+  })
+
   describe('external session tracking config', () => {
     it('should not persist sessions when tracking disabled', () => {
       const noTrackConfig = { ...config, trackExternalSessions: false }
@@ -0,0 +1,106 @@
+/**
+ * Integration tests for TmuxControl
+ *
+ * These tests require tmux to be installed. Each test attaches a control
+ * client to its own control session.
+ */
+
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { TmuxControl, TmuxControlUnavailableError } from '../src/TmuxControl.js'
+import { TmuxExecutor } from '../src/TmuxExecutor.js'
+
+describe('TmuxControl Integration', { timeout: 10000 }, () => {
+  const executor = new TmuxExecutor()
+  let tmuxAvailable = false
+  let control: TmuxControl
+  let controlSession: string
+  let createdSessions: string[] = []
+
+  beforeAll(async () => {
+    tmuxAvailable = await executor.isAvailable()
+    if (!tmuxAvailable) {
+      console.warn('tmux not available, skipping integration tests')
+    }
+  })
+
+  afterEach(async () => {
+    await control?.close()
+    for (const session of [...createdSessions, controlSession]) {
+      await executor.killSession(session)
+    }
+    createdSessions = []
+  })
+
+  async function connect(): Promise<TmuxControl> {
+    controlSession = `test-control-${Date.now()}`
+    control = new TmuxControl({ session: controlSession })
+    await control.connect()
+    return control
+  }
+
+  it('should run commands and report tmux errors', async () => {
+    if (!tmuxAvailable) {
+      console.log('Skipping: tmux not available')
+      return
+    }
+
+    await connect()
+    expect(control.isConnected()).toBe(true)
+
+    const name = `test-ctl-cmd-${Date.now()}`
+    createdSessions.push(name)
+    await control.run(['new-session', '-d', '-s', name, '-x', '80', '-y', '24'])
+    expect(await control.run(['display-message', '-p', '-t', name, "#{session_name} it's"])).toBe(`${name} it's\n`)
+
+    await expect(control.run(['has-session', '-t', 'no-such-session-xyz'])).rejects.toThrow("can't find session")
+    await expect(control.run(['display-message', '-p', 'a\nb'])).rejects.toBeInstanceOf(TmuxControlUnavailableError)
+  })
+
+  it('should notify when sessions are created and destroyed', async () => {
+    if (!tmuxAvailable) {
+      console.log('Skipping: tmux not available')
+      return
+    }
+
+    await connect()
+    const changed = vi.fn()
+    control.on('sessions-changed', changed)
+
+    const name = `test-ctl-notify-${Date.now()}`
+    createdSessions.push(name)
+    await executor.createSession(name)
+    await vi.waitFor(() => expect(changed).toHaveBeenCalled())
+
+    changed.mockClear()
+    await executor.killSession(name)
+    await vi.waitFor(() => expect(changed).toHaveBeenCalled())
+  })
+
+  it('should exit when its session is killed and fail pending commands', async () => {
+    if (!tmuxAvailable) {
+      console.log('Skipping: tmux not available')
+      return
+    }
+
+    await connect()
+    const exited = new Promise((resolve) => control.once('exit', resolve))
+
+    await executor.killSession(controlSession)
+    await exited
+    expect(control.isConnected()).toBe(false)
+    await expect(control.run(['list-sessions'])).rejects.toBeInstanceOf(TmuxControlUnavailableError)
+  })
+
+  it('should remove its session on close', async () => {
+    if (!tmuxAvailable) {
+      console.log('Skipping: tmux not available')
+      return
+    }
+
+    await connect()
+    expect(await executor.sessionExists(controlSession)).toBe(true)
+
+    await control.close()
+    expect(await executor.sessionExists(controlSession)).toBe(false)
+  })
+})
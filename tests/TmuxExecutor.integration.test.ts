@@ -5,8 +5,12 @@
  * They create real tmux sessions and verify the executor works correctly.
  */
 
-import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest'
 import { TmuxExecutor } from '../src/TmuxExecutor.js'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { readFile, rm } from 'fs/promises'
+import { randomUUID } from 'crypto'
 
 describe('TmuxExecutor Integration', () => {
   let executor: TmuxExecutor
@@ -53,6 +57,100 @@ describe('TmuxExecutor Integration', () => {
     })
   })
 
+  describe('onCommand', { timeout: 10000 }, () => {
+    it('should report each command with its duration and failure', async () => {
+      const available = await executor.isAvailable()
+      if (!available) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const calls: Array<[string, number, Error | undefined]> = []
+      const timed = new TmuxExecutor({ onCommand: (...args) => calls.push(args) })
+      const sessionName = `test-cmd-hook-${Date.now()}`
+      createdSessions.push(sessionName)
+
+      await timed.createSession(sessionName)
+      await expect(timed.sendKeys({ target: 'no-such-session-xyz', keys: 'Enter' })).rejects.toThrow()
+
+      expect(calls.map(([command, , error]) => [command, Boolean(error)])).toEqual([
+        ['new-session', false],
+        ['send-keys', true],
+      ])
+      expect(calls[0]![1]).toBeGreaterThanOrEqual(0)
+    })
+  })
+
+  describe('control mode', { timeout: 10000 }, () => {
+    it('should run commands over the control connection and fall back without it', async () => {
+      const available = await executor.isAvailable()
+      if (!available) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const changed = vi.fn()
+      const controlSession = `test-exec-control-${Date.now()}`
+      const controlled = new TmuxExecutor({ controlSession, onSessionsChanged: changed })
+      const sessionName = `test-control-cmds-${Date.now()}`
+      createdSessions.push(sessionName, controlSession)
+
+      try {
+        expect(await controlled.startControlMode()).toBe(true)
+        expect(controlled.isControlModeConnected()).toBe(true)
+
+        await controlled.createSession(sessionName, { width: 80, height: 24 })
+        expect(await controlled.sessionExists(sessionName)).toBe(true)
+        expect(await controlled.sessionExists('no-such-session-xyz')).toBe(false)
+        expect((await controlled.listSessions()).map((s) => s.name)).toContain(sessionName)
+        await controlled.sendKeys({ target: sessionName, keys: "echo 'CONTROL'_MODE", literal: true })
+        await controlled.sendKeys({ target: sessionName, keys: 'Enter' })
+        await vi.waitFor(async () => {
+          expect(await controlled.capturePane(sessionName)).toContain('CONTROL_MODE')
+        }, { timeout: 5000 })
+
+        // Pushed as soon as the session dies
+        changed.mockClear()
+        await controlled.killSession(sessionName)
+        await vi.waitFor(() => expect(changed).toHaveBeenCalled())
+
+        // Keys with newlines can't go over the control connection, so tmux is spawned
+        await controlled.sendKeys({ target: controlSession, keys: 'a\nb', literal: true })
+        expect(controlled.isControlModeConnected()).toBe(true)
+      } finally {
+        await controlled.stopControlMode()
+      }
+
+      expect(controlled.isControlModeConnected()).toBe(false)
+      expect(await controlled.sessionExists(controlSession)).toBe(false)
+      expect(await controlled.listSessions()).toBeInstanceOf(Array)
+    })
+
+    it('should reconnect after losing the control connection', async () => {
+      const available = await executor.isAvailable()
+      if (!available) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const changed = vi.fn()
+      const controlSession = `test-exec-reconnect-${Date.now()}`
+      const controlled = new TmuxExecutor({ controlSession, onSessionsChanged: changed })
+      createdSessions.push(controlSession)
+
+      try {
+        await controlled.startControlMode()
+        await executor.killSession(controlSession)
+        await vi.waitFor(() => expect(controlled.isControlModeConnected()).toBe(false))
+        expect(changed).toHaveBeenCalled()
+
+        await vi.waitFor(() => expect(controlled.isControlModeConnected()).toBe(true), { timeout: 3000 })
+      } finally {
+        await controlled.stopControlMode()
+      }
+    })
+  })
+
   describe('session operations', { timeout: 10000 }, () => {
     it('should create and kill a session', async () => {
       const available = await executor.isAvailable()
@@ -114,6 +212,11 @@ describe('TmuxExecutor Integration', () => {
 
       const exists = await executor.sessionExists(sessionName)
       expect(exists).toBe(true)
+      // Typed once the shell is up, so it runs (and only once)
+      await vi.waitFor(async () => {
+        const lines = (await executor.capturePane(sessionName, { start: 0 })).split('\n')
+        expect(lines.filter((line) => line === 'hello')).toHaveLength(1)
+      })
     })
 
     it('should fail to create duplicate session', async () => {
@@ -216,6 +319,41 @@ describe('TmuxExecutor Integration', () => {
     })
   })
 
+  describe('pipePane', { timeout: 10000 }, () => {
+    it('should append pane output to a file until the pipe is closed', async () => {
+      const available = await executor.isAvailable()
+      if (!available) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const sessionName = `test-pipe-${Date.now()}`
+      const file = join(tmpdir(), `pipe-${randomUUID()}.log`)
+      createdSessions.push(sessionName)
+      await executor.createSession(sessionName)
+
+      try {
+        await executor.pipePane(sessionName, file)
+        await executor.sendKeys({ target: sessionName, keys: 'echo PIPED_$((40+2))' })
+        await executor.sendKeys({ target: sessionName, keys: 'Enter' })
+        await vi.waitFor(() => expect(readFile(file, 'utf8')).resolves.toContain('PIPED_42'), { timeout: 5000 })
+
+        await executor.stopPipePane(sessionName)
+        const before = await readFile(file, 'utf8')
+        await executor.sendKeys({ target: sessionName, keys: 'echo AFTER_PIPE' })
+        await executor.sendKeys({ target: sessionName, keys: 'Enter' })
+        await new Promise((resolve) => setTimeout(resolve, 500))
+        expect(await readFile(file, 'utf8')).toBe(before)
+      } finally {
+        await rm(file, { force: true })
+      }
+    })
+
+    it('should reject paths that could break out of the pipe command', async () => {
+      await expect(executor.pipePane('test-session', "/tmp/x'; rm -rf ~")).rejects.toThrow('Invalid path')
+    })
+  })
+
   describe('capturePane', { timeout: 10000 }, () => {
     it('should capture pane content', async () => {
       const available = await executor.isAvailable()
@@ -248,5 +386,71 @@ describe('TmuxExecutor Integration', () => {
       // The content should contain our test string
       expect(content).toContain('CAPTURE_TEST_OUTPUT')
     })
+
+    it('should include colors as escape sequences when asked', async () => {
+      const available = await executor.isAvailable()
+      if (!available) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const sessionName = `test-capture-escapes-${Date.now()}`
+      createdSessions.push(sessionName)
+      await executor.createSession(sessionName)
+
+      await executor.sendKeys({ target: sessionName, keys: "printf '\\033[31mRED\\033[0m\\n'" })
+      await executor.sendKeys({ target: sessionName, keys: 'Enter' })
+
+      await vi.waitFor(async () => {
+        expect(await executor.capturePane(sessionName, { start: 0, escapes: true })).toContain('\x1b[31mRED')
+      }, { timeout: 5000 })
+      expect(await executor.capturePane(sessionName, { start: 0 })).not.toContain('\x1b[31m')
+    })
+  })
+
+  describe('terminal control', { timeout: 10000 }, () => {
+    it('should type literal input, including control characters', async () => {
+      const available = await executor.isAvailable()
+      if (!available) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const sessionName = `test-literal-${Date.now()}`
+      createdSessions.push(sessionName)
+      await executor.createSession(sessionName, { command: 'cat -v' })
+
+      // Key names aren't looked up, and input may start with '-'
+      await executor.sendKeys({ target: sessionName, keys: '-n Enter\x1b[A\r', literal: true })
+      await vi.waitFor(async () => {
+        expect(await executor.capturePane(sessionName, { start: 0 })).toContain('-n Enter^[[A')
+      }, { timeout: 5000 })
+
+      // Ctrl+C ends cat, so the shell runs the next line
+      await executor.sendKeys({ target: sessionName, keys: '\x03echo DONE_$((1+1))\r', literal: true })
+      await vi.waitFor(async () => {
+        expect(await executor.capturePane(sessionName, { start: 0 })).toContain('DONE_2')
+      }, { timeout: 5000 })
+    })
+
+    it('should resize the window and report the pane size and cursor', async () => {
+      const available = await executor.isAvailable()
+      if (!available) {
+        console.log('Skipping: tmux not available')
+        return
+      }
+
+      const sessionName = `test-resize-${Date.now()}`
+      createdSessions.push(sessionName)
+      await executor.createSession(sessionName, { width: 80, height: 24 })
+
+      await executor.resizeWindow(sessionName, 100, 30)
+      const info = await executor.getPaneInfo(sessionName)
+      expect(info).toMatchObject({ width: 100, height: 30 })
+      expect(info.cursorX).toBeGreaterThanOrEqual(0)
+      expect(info.cursorY).toBeGreaterThanOrEqual(0)
+
+      await expect(executor.resizeWindow(sessionName, 0, 30)).rejects.toThrow('Invalid size')
+    })
   })
 })
@@ -7,6 +7,7 @@ import {
   validateSessionName,
   validatePath,
   validatePaneId,
+  validateEnvVar,
   TmuxExecutor,
 } from '../src/TmuxExecutor.js'
 
@@ -69,6 +70,22 @@ describe('TmuxExecutor Validation', () => {
     })
   })
 
+  describe('validateEnvVar', () => {
+    it('should accept valid variables', () => {
+      expect(() => validateEnvVar('CODING_AGENT_BRIDGE_SESSION_ID', 'abc-123')).not.toThrow()
+      expect(() => validateEnvVar('_private', '')).not.toThrow()
+    })
+
+    it('should reject invalid names', () => {
+      expect(() => validateEnvVar('1ABC', 'x')).toThrow(/invalid environment variable name/i)
+      expect(() => validateEnvVar('A=B', 'x')).toThrow(/invalid environment variable name/i)
+    })
+
+    it('should reject multi-line values', () => {
+      expect(() => validateEnvVar('ABC', 'a\nb')).toThrow(/single line/)
+    })
+  })
+
   describe('validatePaneId', () => {
     it('should accept valid pane IDs', () => {
       expect(() => validatePaneId('%0')).not.toThrow()
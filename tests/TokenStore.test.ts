@@ -0,0 +1,87 @@
+/**
+ * Unit tests for TokenStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { TokenStore } from '../src/TokenStore.js'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { mkdir, rm, readFile, stat, writeFile } from 'fs/promises'
+import { randomUUID } from 'crypto'
+
+describe('TokenStore', () => {
+  let store: TokenStore
+  let testDir: string
+  let file: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `token-store-test-${randomUUID()}`)
+    await mkdir(testDir, { recursive: true })
+    file = join(testDir, 'tokens.json')
+    store = new TokenStore({ file })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should be disabled until a token exists', async () => {
+    await store.load()
+    expect(store.isEnabled()).toBe(false)
+
+    await store.create('dashboard', ['read'])
+    expect(store.isEnabled()).toBe(true)
+  })
+
+  it('should verify created tokens and store only their hash', async () => {
+    const { token, info } = await store.create('dashboard', ['read', 'control'])
+
+    expect(store.verify(token)).toEqual(info)
+    expect(store.verify('cab_wrong')).toBeUndefined()
+
+    const content = await readFile(file, 'utf8')
+    expect(content).not.toContain(token)
+    expect((await stat(file)).mode & 0o777).toBe(0o600)
+  })
+
+  it('should reject unknown scopes', async () => {
+    await expect(store.create('x', ['admin' as any])).rejects.toThrow('Unknown scope: admin')
+    await expect(store.create('x', [])).rejects.toThrow('At least one scope')
+  })
+
+  it('should revoke tokens by ID or name', async () => {
+    const first = await store.create('ci', ['control'])
+    const second = await store.create('dashboard', ['read'])
+
+    expect((await store.revoke(first.info.id)).map((t) => t.name)).toEqual(['ci'])
+    expect(await store.revoke('dashboard')).toHaveLength(1)
+    expect(store.verify(second.token)).toBeUndefined()
+    expect(store.isEnabled()).toBe(false)
+  })
+
+  it('should pick up tokens changed by another process on refresh', async () => {
+    await store.load()
+    const other = new TokenStore({ file })
+    const { token } = await other.create('cli', ['read'])
+
+    expect(store.verify(token)).toBeUndefined()
+    await store.refresh()
+    expect(store.verify(token)).toBeDefined()
+  })
+
+  it('should write a hook-ingest token once and reuse it', async () => {
+    const hookFile = join(testDir, 'hook-token')
+
+    await store.ensureHookToken(hookFile)
+    const token = (await readFile(hookFile, 'utf8')).trim()
+    await store.ensureHookToken(hookFile)
+
+    expect(store.verify(token)?.scopes).toEqual(['hook-ingest'])
+    expect(store.list()).toHaveLength(1)
+  })
+
+  it('should throw on an invalid tokens file', async () => {
+    await writeFile(file, 'not json')
+    await expect(store.load()).rejects.toThrow('Invalid JSON in tokens file')
+  })
+})
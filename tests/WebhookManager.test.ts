@@ -0,0 +1,151 @@
+/**
+ * Unit tests for WebhookManager
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { WebhookManager, triggerNames, validateWebhooks } from '../src/WebhookManager.js'
+import { HookVerifier } from '../src/HookVerifier.js'
+import type { AgentEvent, Session } from '../src/types.js'
+import { createServer, type IncomingHttpHeaders, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { mkdir, rm, writeFile } from 'fs/promises'
+import { randomUUID } from 'crypto'
+
+interface Received {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+const session = { id: 'session-1', status: 'waiting' } as Session
+
+describe('WebhookManager', () => {
+  let testDir: string
+  let logFile: string
+  let receiver: Server
+  let url: string
+  let received: Received[]
+  /** Status codes to answer with, in order (then 200) */
+  let responses: number[]
+  let manager: WebhookManager
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `webhook-test-${randomUUID()}`)
+    await mkdir(testDir, { recursive: true })
+    logFile = join(testDir, 'deliveries.json')
+
+    received = []
+    responses = []
+    receiver = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        received.push({ headers: req.headers, body })
+        res.statusCode = responses.shift() ?? 200
+        res.end()
+      })
+    })
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`
+  })
+
+  afterEach(async () => {
+    await manager?.stop()
+    await new Promise((resolve) => receiver.close(resolve))
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  function create(webhooks: ConstructorParameters<typeof WebhookManager>[0]['webhooks']): WebhookManager {
+    manager = new WebhookManager({ webhooks, logFile, retryDelayMs: 10 })
+    return manager
+  }
+
+  it('should deliver signed payloads for matching triggers only', async () => {
+    create([{ url, secret: 'shh', events: ['session:status:waiting'] }])
+
+    manager.notify('session:status', { session, from: 'working', to: 'idle' })
+    manager.notify('session:status', { session, from: 'working', to: 'waiting' })
+
+    await vi.waitFor(() => expect(manager.listDeliveries()[0]?.status).toBe('delivered'))
+    expect(received).toHaveLength(1)
+
+    const payload = JSON.parse(received[0]!.body)
+    expect(payload).toMatchObject({ trigger: 'session:status', data: { from: 'working', to: 'waiting' } })
+    expect(received[0]!.headers['x-bridge-delivery']).toBe(payload.id)
+    expect(received[0]!.headers['x-bridge-trigger']).toBe('session:status:waiting')
+    expect(new HookVerifier({ secret: 'shh' }).verify(received[0]!.headers, received[0]!.body)).toEqual({ ok: true })
+  })
+
+  it('should retry failed deliveries with backoff until they succeed', async () => {
+    create([{ url }])
+    responses = [500, 503]
+
+    manager.notify('session:created', { session })
+
+    await vi.waitFor(() => expect(manager.listDeliveries()[0]?.status).toBe('delivered'))
+    expect(manager.listDeliveries()[0]).toMatchObject({ attempts: 3, responseStatus: 200, sessionId: 'session-1' })
+    expect(manager.listDeliveries()[0]?.error).toBeUndefined()
+    expect(new Set(received.map((r) => r.headers['x-bridge-delivery'])).size).toBe(1)
+  })
+
+  it('should give up after maxAttempts and keep the failure in the log', async () => {
+    create([{ url, maxAttempts: 2 }])
+    responses = [500, 500, 500]
+
+    manager.notify('session:deleted', { session })
+
+    await vi.waitFor(() => expect(manager.listDeliveries()[0]?.status).toBe('failed'))
+    expect(received).toHaveLength(2)
+    await manager.stop()
+
+    const reloaded = new WebhookManager({ logFile })
+    await reloaded.load()
+    expect(reloaded.listDeliveries({ status: 'failed' })).toMatchObject([
+      { trigger: 'session:deleted', attempts: 2, responseStatus: 500, error: 'HTTP 500' },
+    ])
+  })
+
+  it('should fail pending retries on stop', async () => {
+    responses = [500]
+    manager = new WebhookManager({ webhooks: [{ url }], logFile, retryDelayMs: 60000 })
+
+    manager.notify('session:created', { session })
+    await vi.waitFor(() => expect(manager.listDeliveries()[0]?.nextAttemptAt).toBeDefined())
+    await manager.stop()
+
+    expect(manager.listDeliveries()[0]).toMatchObject({ status: 'failed', error: 'Bridge stopped before delivery' })
+  })
+
+  it('should load webhooks from a file', async () => {
+    const file = join(testDir, 'webhooks.json')
+    await writeFile(file, JSON.stringify({ webhooks: [{ url, secret: 'shh', events: ['event:stop'] }] }))
+    create([])
+
+    await manager.load(file)
+
+    expect(manager.list()).toEqual([{ url, events: ['event:stop'] }])
+  })
+
+  it('should name triggers from general to specific', () => {
+    const failed = { type: 'post_tool_use', success: false } as AgentEvent
+
+    expect(triggerNames('event', { event: failed })).toEqual([
+      '*',
+      'event',
+      'event:post_tool_use',
+      'event:post_tool_use:failed',
+    ])
+    expect(triggerNames('session:status', { session, to: 'idle' })).toEqual([
+      '*',
+      'session:status',
+      'session:status:idle',
+    ])
+  })
+
+  it('should reject invalid webhooks', () => {
+    expect(() => validateWebhooks({})).toThrow('Webhooks must be an array')
+    expect(() => validateWebhooks([{ url: 'ftp://x' }])).toThrow('Webhook 1: url must be an http(s) URL')
+    expect(() => validateWebhooks([{ url, maxAttempts: 0 }])).toThrow('maxAttempts must be a positive integer')
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Tests for the OpenAPI document and request-body validation
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createOpenApiDocument, validate, SCHEMAS } from '../src/openapi.js'
+
+describe('createOpenApiDocument', () => {
+  it('should only reference schemas that exist', () => {
+    const json = JSON.stringify(createOpenApiDocument())
+    const refs = [...json.matchAll(/#\/components\/schemas\/(\w+)/g)].map((m) => m[1]!)
+
+    expect(refs.length).toBeGreaterThan(0)
+    for (const name of refs) {
+      expect(SCHEMAS).toHaveProperty(name)
+    }
+  })
+
+  it('should describe every session route', () => {
+    const doc = createOpenApiDocument() as { paths: Record<string, Record<string, unknown>> }
+
+    expect(Object.keys(doc.paths['/sessions/{id}']!)).toEqual(
+      expect.arrayContaining(['get', 'patch', 'delete'])
+    )
+    expect(doc.paths['/sessions/{id}/prompt']).toHaveProperty('post')
+    expect(doc.paths['/sessions/{id}/queue']).toHaveProperty('put')
+  })
+})
+
+describe('validate', () => {
+  it('should accept valid bodies', () => {
+    expect(validate('CreateSessionOptions', {})).toBeNull()
+    expect(
+      validate('CreateSessionOptions', {
+        name: 'api',
+        cwd: '/tmp',
+        agent: 'claude',
+        flags: { model: 'opus', verbose: true },
+        policy: [{ action: 'deny', tool: ['Bash', 'Write'], command: 'rm -rf' }],
+      })
+    ).toBeNull()
+    expect(validate('SendPromptRequest', { images: [{ data: 'aGk=', mediaType: 'image/png' }] })).toBeNull()
+    expect(validate('ApprovalDecisionRequest', { decision: 'deny', reason: 'no' })).toBeNull()
+  })
+
+  it('should name the first invalid field', () => {
+    expect(validate('CreateSessionOptions', null)).toBe('Invalid request body: expected an object')
+    expect(validate('CreateSessionOptions', { flags: { model: 3 } })).toBe(
+      'Invalid flags.model: expected a boolean or a string'
+    )
+    expect(validate('CreateSessionOptions', { policy: [{ action: 'block' }] })).toBe(
+      'Invalid policy[0].action: expected one of allow, deny, flag'
+    )
+    expect(validate('SendPromptRequest', { images: [{ data: 'aGk=' }] })).toBe('Missing images[0].mediaType')
+    expect(validate('QueueOrder', { order: ['a', 1] })).toBe('Invalid order[1]: expected a string')
+    expect(validate('ApprovalDecisionRequest', { decision: 'maybe' })).toBe(
+      'Invalid decision: expected one of allow, deny'
+    )
+  })
+
+  it('should reject unknown fields only where the schema is closed', () => {
+    expect(validate('SessionUpdate', { name: 'x', status: 'idle' })).toBe('Unknown field: status')
+    expect(validate('CreateSessionOptions', { flags: { anything: true } })).toBeNull()
+  })
+})